@@ -0,0 +1,218 @@
+/**
+ * Imports a locally downloaded food composition file into the Ingredient table.
+ *
+ *   npm run import-foods -- usda-fdc ./FoodData_Central_foundation_food_json.json
+ *   npm run import-foods -- off ./openfoodfacts-products.jsonl.gz --limit 5000
+ *
+ * Supported files:
+ *   usda-fdc  FoodData Central JSON downloads (Foundation, SR Legacy, Survey or Branded; .json / .json.gz)
+ *   off       Open Food Facts JSONL dump (.jsonl / .jsonl.gz) or CSV export (.csv / .csv.gz, tab separated)
+ *
+ * Options:
+ *   --dry-run          report what would change without writing
+ *   --limit <n>        stop after n importable foods
+ *   --category <name>  use this category instead of the source's
+ *
+ * Ingredients are matched on (source, sourceId), so re-running updates them in place.
+ */
+import { createReadStream } from 'node:fs';
+import { createInterface } from 'node:readline';
+import { createGunzip } from 'node:zlib';
+
+import { prisma } from '../src/db.js';
+import { fdcFoodScanner, fromFdcFood, fromOffProduct, type FoodRecord } from '../src/foodSources.js';
+import {
+  ensureIngredientBaseline,
+  ingredientSnapshot,
+  recordIngredientRevision,
+} from '../src/ingredientRevisions.js';
+
+type Options = {
+  format: 'usda-fdc' | 'off';
+  file: string;
+  dryRun: boolean;
+  limit: number | null;
+  category: string | null;
+};
+
+const sourceLabels: Record<FoodRecord['source'], string> = {
+  usda_fdc: 'FDC',
+  open_food_facts: 'OFF',
+};
+
+function usage(message: string): never {
+  console.error(message);
+  console.error('Usage: npm run import-foods -- <usda-fdc|off> <file> [--dry-run] [--limit n] [--category name]');
+  process.exit(1);
+}
+
+function parseArgs(args: string[]): Options {
+  const [format, file, ...rest] = args;
+  if (format !== 'usda-fdc' && format !== 'off') usage('First argument must be usda-fdc or off');
+  if (!file) usage('Missing file path');
+
+  const options: Options = { format, file, dryRun: false, limit: null, category: null };
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else if (arg === '--limit') {
+      const limit = Number(rest[++i]);
+      if (!Number.isInteger(limit) || limit < 1) usage('--limit must be a positive integer');
+      options.limit = limit;
+    } else if (arg === '--category') {
+      const category = rest[++i]?.trim();
+      if (!category) usage('--category needs a value');
+      options.category = category;
+    } else {
+      usage(`Unknown option: ${arg}`);
+    }
+  }
+  return options;
+}
+
+function open(file: string) {
+  const stream = createReadStream(file);
+  return file.endsWith('.gz') ? stream.pipe(createGunzip()) : stream;
+}
+
+function lines(file: string) {
+  return createInterface({ input: open(file), crlfDelay: Infinity });
+}
+
+// Streamed, since Branded downloads are too large to read into memory at once.
+async function* readFdc(file: string): AsyncGenerator<FoodRecord | null> {
+  const scan = fdcFoodScanner();
+  for await (const chunk of open(file).setEncoding('utf8')) {
+    for (const food of scan(chunk as string)) {
+      yield fromFdcFood(food);
+    }
+  }
+}
+
+async function* readOff(file: string): AsyncGenerator<FoodRecord | null> {
+  const isCsv = /\.(csv|tsv)(\.gz)?$/.test(file);
+  let header: string[] | null = null;
+
+  for await (const line of lines(file)) {
+    if (!line.trim()) continue;
+
+    if (!isCsv) {
+      let product: unknown;
+      try {
+        product = JSON.parse(line);
+      } catch {
+        yield null;
+        continue;
+      }
+      yield typeof product === 'object' && product !== null
+        ? fromOffProduct(product as Record<string, unknown>)
+        : null;
+      continue;
+    }
+
+    const cells = line.split('\t');
+    if (!header) {
+      header = cells;
+      continue;
+    }
+    yield fromOffProduct(Object.fromEntries(header.map((column, idx) => [column, cells[idx] ?? ''])));
+  }
+}
+
+async function nameTaken(name: string): Promise<boolean> {
+  const taken = await prisma.ingredient.findUnique({
+    where: { ownerScope_name: { ownerScope: '', name } },
+    select: { id: true },
+  });
+  return taken !== null;
+}
+
+// Shared ingredient names are unique, so a clash with another ingredient gets the source id appended.
+// Null when that name is taken as well (e.g. an ingredient was renamed to it); the food is skipped.
+async function availableName(food: FoodRecord): Promise<string | null> {
+  if (!(await nameTaken(food.name))) return food.name;
+  const suffixed = `${food.name} (${sourceLabels[food.source]} ${food.sourceId})`;
+  return (await nameTaken(suffixed)) ? null : suffixed;
+}
+
+async function upsertFood(
+  food: FoodRecord,
+  dryRun: boolean
+): Promise<'created' | 'updated' | 'unchanged' | 'nameTaken'> {
+  const { source, sourceId, name: _name, ...values } = food;
+  const existing = await prisma.ingredient.findUnique({
+    where: { source_sourceId: { source, sourceId } },
+  });
+
+  if (!existing) {
+    const name = await availableName(food);
+    if (name === null) {
+      console.warn(`Skipping ${food.name}: name already taken by another ingredient`);
+      return 'nameTaken';
+    }
+    if (!dryRun) {
+      await prisma.$transaction(async (tx) => {
+        const created = await tx.ingredient.create({ data: { ...values, name, source, sourceId } });
+        await recordIngredientRevision(tx, created, 'CREATE', null);
+      });
+    }
+    return 'created';
+  }
+
+  // The name is left alone on update so admin renames survive a re-import.
+  const current = ingredientSnapshot(existing);
+  const next = ingredientSnapshot({ ...existing, ...values });
+  if (JSON.stringify(current) === JSON.stringify(next)) {
+    return 'unchanged';
+  }
+
+  if (!dryRun) {
+    await prisma.$transaction(async (tx) => {
+      await ensureIngredientBaseline(tx, existing);
+      const updated = await tx.ingredient.update({ where: { id: existing.id }, data: values });
+      await recordIngredientRevision(tx, updated, 'UPDATE', null);
+    });
+  }
+  return 'updated';
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const foods = options.format === 'usda-fdc' ? readFdc(options.file) : readOff(options.file);
+  const counts = { created: 0, updated: 0, unchanged: 0, nameTaken: 0, skipped: 0 };
+  let processed = 0;
+
+  for await (const food of foods) {
+    if (!food) {
+      counts.skipped++;
+      continue;
+    }
+
+    const result = await upsertFood(
+      options.category ? { ...food, category: options.category } : food,
+      options.dryRun
+    );
+    counts[result]++;
+    processed++;
+
+    if (processed % 500 === 0) {
+      console.log(`Processed ${processed} foods...`);
+    }
+    if (options.limit !== null && processed >= options.limit) break;
+  }
+
+  console.log(
+    `${options.dryRun ? '[dry run] ' : ''}Created ${counts.created}, updated ${counts.updated}, ` +
+      `unchanged ${counts.unchanged}, skipped ${counts.skipped} (missing name or macros), ` +
+      `${counts.nameTaken} with names already taken.`
+  );
+}
+
+main()
+  .then(() => prisma.$disconnect())
+  .catch(async (e) => {
+    console.error(e);
+    await prisma.$disconnect();
+    process.exit(1);
+  });
@@ -23,13 +23,42 @@ const user = await prisma.user.upsert({
 
   await prisma.ingredient.createMany({
     data: [
-      { name: 'Chicken Breast', kcalPer100g: 165, proteinPer100g: 31, carbsPer100g: 0, fatPer100g: 3.6 },
-      { name: 'Rice (white, cooked)', kcalPer100g: 130, proteinPer100g: 2.7, carbsPer100g: 28, fatPer100g: 0.3 },
-      { name: 'Olive Oil', kcalPer100g: 884, proteinPer100g: 0, carbsPer100g: 0, fatPer100g: 100 },
-      { name: 'Egg', kcalPer100g: 143, proteinPer100g: 13, carbsPer100g: 1.1, fatPer100g: 9.5 }
+      { name: 'Chicken Breast', kcalPer100g: 165, proteinPer100g: 31, carbsPer100g: 0, fatPer100g: 3.6, saturatedFatPer100g: 1, sodiumPer100g: 74, micronutrientsPer100g: { vitaminB12: 0.3, iron: 1, potassium: 256, zinc: 1 }, category: 'Meat', dietTags: ['low_fodmap'] },
+      { name: 'Rice (white, cooked)', kcalPer100g: 130, proteinPer100g: 2.7, carbsPer100g: 28, fatPer100g: 0.3, fiberPer100g: 0.4, sugarsPer100g: 0.1, saturatedFatPer100g: 0.1, sodiumPer100g: 1, micronutrientsPer100g: { iron: 0.2, magnesium: 12, potassium: 35 }, category: 'Grains', dietTags: ['vegan', 'vegetarian', 'halal', 'low_fodmap'] },
+      { name: 'Olive Oil', kcalPer100g: 884, proteinPer100g: 0, carbsPer100g: 0, fatPer100g: 100, saturatedFatPer100g: 13.8, sodiumPer100g: 2, densityGPerMl: 0.91, category: 'Oils', dietTags: ['vegan', 'vegetarian', 'halal', 'low_fodmap'] },
+      { name: 'Egg', kcalPer100g: 143, proteinPer100g: 13, carbsPer100g: 1.1, fatPer100g: 9.5, sugarsPer100g: 0.4, saturatedFatPer100g: 3.1, sodiumPer100g: 142, micronutrientsPer100g: { vitaminA: 160, vitaminD: 2, vitaminB12: 0.9, calcium: 56, iron: 1.8 }, category: 'Eggs', allergens: ['egg'], dietTags: ['vegetarian', 'halal', 'low_fodmap'] }
     ],
     skipDuplicates: true
   });
+
+  const portions = [
+    { ingredient: 'Egg', unit: 'egg', label: 'egg (medium)', grams: 50 },
+    { ingredient: 'Olive Oil', unit: 'tbsp', label: 'tbsp', grams: 13.5 },
+    { ingredient: 'Chicken Breast', unit: 'breast', label: 'breast', grams: 170 }
+  ];
+  for (const { ingredient: name, ...portion } of portions) {
+    const ingredient = await prisma.ingredient.findUnique({
+      where: { ownerScope_name: { ownerScope: '', name } }
+    });
+    if (!ingredient) continue;
+    await prisma.ingredientPortion.upsert({
+      where: { ingredientId_unit: { ingredientId: ingredient.id, unit: portion.unit } },
+      update: {},
+      create: { ingredientId: ingredient.id, ...portion }
+    });
+  }
+
+  const defaultSlotCount = await prisma.mealSlot.count({ where: { userId: null } });
+  if (defaultSlotCount === 0) {
+    await prisma.mealSlot.createMany({
+      data: [
+        { key: 'breakfast', label: 'Breakfast', sortOrder: 0 },
+        { key: 'lunch', label: 'Lunch', sortOrder: 1 },
+        { key: 'afternoon_snack', label: 'Afternoon snack', sortOrder: 2 },
+        { key: 'dinner', label: 'Dinner', sortOrder: 3 }
+      ]
+    });
+  }
   console.log('DEMO_USER_ID:', user.id);
 
 }
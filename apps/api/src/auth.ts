@@ -14,4 +14,14 @@ export async function registerAuth(app: FastifyInstance) {
 			return reply.code(401).send({ error: 'Unauthorized' });
 		}
 	});
+
+	// Like authenticate, but lets requests without an Authorization header through anonymously.
+	app.decorate('optionalAuthenticate', async (req: any, reply: any) => {
+		if (!req.headers.authorization) return;
+		try {
+			await req.jwtVerify();
+		} catch {
+			return reply.code(401).send({ error: 'Unauthorized' });
+		}
+	});
 }
@@ -10,3 +10,22 @@ const pool = new Pool({ connectionString: url });
 const adapter = new PrismaPg(pool);
 
 export const prisma = new prismaPkg.PrismaClient({ adapter });
+
+/**
+ * Adds the constraints Prisma's schema cannot express. Safe to run on every start; `prisma db push`
+ * leaves check constraints it does not know about in place.
+ */
+export async function ensureDatabaseConstraints() {
+  // A planned meal is either a recipe or a single ingredient. Meals left with neither (by an
+  // earlier schema that nulled them when their recipe or ingredient was deleted) are removed first.
+  await prisma.$executeRaw`
+    DO $$
+    BEGIN
+      IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'planned_meal_target') THEN
+        DELETE FROM "PlannedMeal" WHERE "recipeId" IS NULL AND "ingredientId" IS NULL;
+        ALTER TABLE "PlannedMeal"
+          ADD CONSTRAINT planned_meal_target CHECK (num_nonnulls("recipeId", "ingredientId") = 1);
+      END IF;
+    END $$;
+  `;
+}
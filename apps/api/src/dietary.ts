@@ -0,0 +1,75 @@
+export type DietaryTagDefinition = {
+  key: string;
+  label: string;
+};
+
+// Stored in Ingredient.allergens; a recipe contains an allergen if any of its ingredients does.
+export const allergens = [
+  { key: 'gluten', label: 'Gluten' },
+  { key: 'dairy', label: 'Dairy' },
+  { key: 'egg', label: 'Egg' },
+  { key: 'nuts', label: 'Tree nuts' },
+  { key: 'peanuts', label: 'Peanuts' },
+  { key: 'soy', label: 'Soy' },
+  { key: 'fish', label: 'Fish' },
+  { key: 'shellfish', label: 'Shellfish' },
+  { key: 'sesame', label: 'Sesame' },
+] as const satisfies readonly DietaryTagDefinition[];
+
+// Stored in Ingredient.dietTags; a recipe fits a diet only if all of its ingredients do.
+export const diets = [
+  { key: 'vegan', label: 'Vegan' },
+  { key: 'vegetarian', label: 'Vegetarian' },
+  { key: 'halal', label: 'Halal' },
+  { key: 'low_fodmap', label: 'Low-FODMAP' },
+] as const satisfies readonly DietaryTagDefinition[];
+
+export type AllergenKey = (typeof allergens)[number]['key'];
+export type DietKey = (typeof diets)[number]['key'];
+
+export const allergenKeys: AllergenKey[] = allergens.map((a) => a.key);
+export const dietKeys: DietKey[] = diets.map((d) => d.key);
+
+export type DietaryTags = { allergens: string[]; dietTags: string[] };
+
+export type DietaryRestrictions = {
+  avoidAllergens: string[];
+  requiredDiets: string[];
+  // Reject plans and recipes that conflict instead of only warning about them.
+  strict: boolean;
+};
+
+export const noRestrictions: DietaryRestrictions = { avoidAllergens: [], requiredDiets: [], strict: false };
+
+/**
+ * Derives a recipe's tags from its ingredients. A recipe without ingredients fits no diet,
+ * so untagged data never claims more than it knows.
+ */
+export function recipeDietaryTags(items: Array<{ ingredient: DietaryTags }>): DietaryTags {
+  const contained = new Set(items.flatMap((it) => it.ingredient.allergens));
+  return {
+    allergens: allergenKeys.filter((key) => contained.has(key)),
+    dietTags:
+      items.length === 0 ? [] : dietKeys.filter((key) => items.every((it) => it.ingredient.dietTags.includes(key))),
+  };
+}
+
+function labelOf(definitions: readonly DietaryTagDefinition[], key: string): string {
+  return definitions.find((d) => d.key === key)?.label ?? key;
+}
+
+// Describes why food with these tags does not suit the restrictions; empty when it does.
+export function dietaryConflicts(name: string, tags: DietaryTags, restrictions: DietaryRestrictions): string[] {
+  const conflicts: string[] = [];
+  for (const key of restrictions.avoidAllergens) {
+    if (tags.allergens.includes(key)) {
+      conflicts.push(`${name} contains ${labelOf(allergens, key).toLowerCase()}`);
+    }
+  }
+  for (const key of restrictions.requiredDiets) {
+    if (!tags.dietTags.includes(key)) {
+      conflicts.push(`${name} is not ${labelOf(diets, key).toLowerCase()}`);
+    }
+  }
+  return conflicts;
+}
@@ -0,0 +1,286 @@
+import { micronutrientKeys, type MicronutrientKey, type Micronutrients } from './nutrition.js';
+
+export type FoodSource = 'usda_fdc' | 'open_food_facts';
+
+export type FoodRecord = {
+  source: FoodSource;
+  sourceId: string;
+  name: string;
+  category: string | null;
+  kcalPer100g: number;
+  proteinPer100g: number;
+  carbsPer100g: number;
+  fatPer100g: number;
+  fiberPer100g: number;
+  sugarsPer100g: number;
+  saturatedFatPer100g: number;
+  sodiumPer100g: number;
+  micronutrientsPer100g: Micronutrients;
+};
+
+type CoreField = Exclude<
+  keyof FoodRecord,
+  'source' | 'sourceId' | 'name' | 'category' | 'micronutrientsPer100g'
+>;
+
+const KJ_PER_KCAL = 4.184;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toNumber(value: unknown): number | null {
+  const n = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) && n >= 0 ? n : null;
+}
+
+function round(value: number) {
+  return Math.round(value * 1000) / 1000;
+}
+
+function buildRecord(
+  base: Pick<FoodRecord, 'source' | 'sourceId' | 'name' | 'category'>,
+  core: Partial<Record<CoreField, number>>,
+  micronutrients: Micronutrients
+): FoodRecord | null {
+  const { kcalPer100g, proteinPer100g, carbsPer100g, fatPer100g } = core;
+  if (
+    kcalPer100g === undefined ||
+    proteinPer100g === undefined ||
+    carbsPer100g === undefined ||
+    fatPer100g === undefined
+  ) {
+    return null;
+  }
+
+  return {
+    ...base,
+    kcalPer100g: round(kcalPer100g),
+    proteinPer100g: round(proteinPer100g),
+    carbsPer100g: round(carbsPer100g),
+    fatPer100g: round(fatPer100g),
+    fiberPer100g: round(core.fiberPer100g ?? 0),
+    sugarsPer100g: round(core.sugarsPer100g ?? 0),
+    saturatedFatPer100g: round(core.saturatedFatPer100g ?? 0),
+    sodiumPer100g: round(core.sodiumPer100g ?? 0),
+    micronutrientsPer100g: micronutrients,
+  };
+}
+
+// --- USDA FoodData Central (JSON downloads) ---
+
+// FDC nutrient ids; the first id found for a field wins. Amounts are per 100 g in FDC's own units,
+// which match ours (g, mg for sodium and minerals, µg for vitamins A/D/B12).
+const fdcCoreNutrients: Record<CoreField, number[]> = {
+  kcalPer100g: [1008, 2047, 2048],
+  proteinPer100g: [1003],
+  carbsPer100g: [1005, 1050],
+  fatPer100g: [1004, 1085],
+  fiberPer100g: [1079],
+  sugarsPer100g: [2000, 1063],
+  saturatedFatPer100g: [1258],
+  sodiumPer100g: [1093],
+};
+
+const fdcMicronutrients: Record<MicronutrientKey, number> = {
+  vitaminA: 1106,
+  vitaminC: 1162,
+  vitaminD: 1114,
+  vitaminB12: 1178,
+  calcium: 1087,
+  iron: 1089,
+  magnesium: 1090,
+  potassium: 1092,
+  zinc: 1095,
+};
+
+const FDC_ENERGY_KJ = 1062;
+
+const fdcFoodListKeys = ['FoundationFoods', 'SRLegacyFoods', 'SurveyFoods', 'BrandedFoods'];
+
+/**
+ * Splits an FDC JSON download (any data type), or a plain array of foods, into food objects as
+ * it is read. Feed it the file in chunks; each call returns the foods completed by that chunk.
+ * Branded downloads are several GB, more than fits in one string, so only one food at a time is
+ * handed to JSON.parse.
+ */
+export function fdcFoodScanner(): (chunk: string) => unknown[] {
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  // Top-level keys are read so that only the food lists of an object download are scanned.
+  let readingKey = false;
+  let key = '';
+  // Depth of the array whose elements are foods, once inside it.
+  let foodDepth: number | null = null;
+  let food: string[] | null = null;
+
+  return (chunk) => {
+    const foods: unknown[] = [];
+    let start = 0;
+
+    for (let i = 0; i < chunk.length; i++) {
+      const c = chunk[i];
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (c === '\\') {
+          escaped = true;
+        } else if (c === '"') {
+          inString = false;
+          readingKey = false;
+        } else if (readingKey) {
+          key += c;
+        }
+        continue;
+      }
+
+      if (c === '"') {
+        inString = true;
+        if (depth === 1 && foodDepth === null) {
+          readingKey = true;
+          key = '';
+        }
+      } else if (c === '{' || c === '[') {
+        if (food === null && depth === foodDepth) {
+          food = [];
+          start = i;
+        }
+        depth++;
+        if (depth === 1 && c === '[') {
+          foodDepth = 1;
+        } else if (depth === 2 && c === '[' && fdcFoodListKeys.includes(key)) {
+          foodDepth = 2;
+        }
+      } else if (c === '}' || c === ']') {
+        depth--;
+        if (food !== null && depth === foodDepth) {
+          food.push(chunk.slice(start, i + 1));
+          foods.push(JSON.parse(food.join('')));
+          food = null;
+        } else if (foodDepth !== null && depth < foodDepth) {
+          foodDepth = null;
+        }
+      }
+    }
+
+    if (food !== null) {
+      food.push(chunk.slice(start));
+    }
+    return foods;
+  };
+}
+
+export function fromFdcFood(food: unknown): FoodRecord | null {
+  if (!isRecord(food)) return null;
+
+  const sourceId = toNumber(food.fdcId);
+  const name = typeof food.description === 'string' ? food.description.trim() : '';
+  if (sourceId === null || !name) return null;
+
+  const amounts = new Map<number, number>();
+  for (const entry of Array.isArray(food.foodNutrients) ? food.foodNutrients : []) {
+    if (!isRecord(entry) || !isRecord(entry.nutrient)) continue;
+    const id = toNumber(entry.nutrient.id);
+    const amount = toNumber(entry.amount);
+    if (id !== null && amount !== null && !amounts.has(id)) amounts.set(id, amount);
+  }
+
+  const core: Partial<Record<CoreField, number>> = {};
+  for (const [field, ids] of Object.entries(fdcCoreNutrients) as Array<[CoreField, number[]]>) {
+    const id = ids.find((candidate) => amounts.has(candidate));
+    if (id !== undefined) core[field] = amounts.get(id)!;
+  }
+  if (core.kcalPer100g === undefined && amounts.has(FDC_ENERGY_KJ)) {
+    core.kcalPer100g = amounts.get(FDC_ENERGY_KJ)! / KJ_PER_KCAL;
+  }
+
+  const micronutrients: Micronutrients = {};
+  for (const key of micronutrientKeys) {
+    const amount = amounts.get(fdcMicronutrients[key]);
+    if (amount !== undefined) micronutrients[key] = round(amount);
+  }
+
+  const category = isRecord(food.foodCategory) ? food.foodCategory.description : food.brandedFoodCategory;
+
+  return buildRecord(
+    {
+      source: 'usda_fdc',
+      sourceId: String(sourceId),
+      name,
+      category: typeof category === 'string' && category.trim() ? category.trim() : null,
+    },
+    core,
+    micronutrients
+  );
+}
+
+// --- Open Food Facts (JSONL or CSV/TSV dumps) ---
+
+// OFF stores every *_100g value in grams except energy, so minerals and vitamins are scaled.
+const offCoreNutrients: Record<CoreField, { field: string; factor: number }> = {
+  kcalPer100g: { field: 'energy-kcal_100g', factor: 1 },
+  proteinPer100g: { field: 'proteins_100g', factor: 1 },
+  carbsPer100g: { field: 'carbohydrates_100g', factor: 1 },
+  fatPer100g: { field: 'fat_100g', factor: 1 },
+  fiberPer100g: { field: 'fiber_100g', factor: 1 },
+  sugarsPer100g: { field: 'sugars_100g', factor: 1 },
+  saturatedFatPer100g: { field: 'saturated-fat_100g', factor: 1 },
+  sodiumPer100g: { field: 'sodium_100g', factor: 1000 },
+};
+
+const offMicronutrients: Record<MicronutrientKey, { field: string; factor: number }> = {
+  vitaminA: { field: 'vitamin-a_100g', factor: 1_000_000 },
+  vitaminC: { field: 'vitamin-c_100g', factor: 1000 },
+  vitaminD: { field: 'vitamin-d_100g', factor: 1_000_000 },
+  vitaminB12: { field: 'vitamin-b12_100g', factor: 1_000_000 },
+  calcium: { field: 'calcium_100g', factor: 1000 },
+  iron: { field: 'iron_100g', factor: 1000 },
+  magnesium: { field: 'magnesium_100g', factor: 1000 },
+  potassium: { field: 'potassium_100g', factor: 1000 },
+  zinc: { field: 'zinc_100g', factor: 1000 },
+};
+
+/**
+ * Maps one Open Food Facts product. Accepts a JSONL product (nutrients under `nutriments`)
+ * or a CSV/TSV row keyed by column name (nutrients as top-level columns).
+ */
+export function fromOffProduct(product: Record<string, unknown>): FoodRecord | null {
+  const code = typeof product.code === 'string' ? product.code.trim() : toNumber(product.code);
+  const nameValue = product.product_name_en || product.product_name;
+  const name = typeof nameValue === 'string' ? nameValue.trim() : '';
+  if (code === null || code === '' || !name) return null;
+
+  const nutriments = isRecord(product.nutriments) ? product.nutriments : product;
+  const read = ({ field, factor }: { field: string; factor: number }) => {
+    const value = toNumber(nutriments[field]);
+    return value === null ? undefined : value * factor;
+  };
+
+  const core: Partial<Record<CoreField, number>> = {};
+  for (const [field, mapping] of Object.entries(offCoreNutrients) as Array<
+    [CoreField, { field: string; factor: number }]
+  >) {
+    const value = read(mapping);
+    if (value !== undefined) core[field] = value;
+  }
+  if (core.kcalPer100g === undefined) {
+    const kj = read({ field: 'energy_100g', factor: 1 });
+    if (kj !== undefined) core.kcalPer100g = kj / KJ_PER_KCAL;
+  }
+
+  const micronutrients: Micronutrients = {};
+  for (const key of micronutrientKeys) {
+    const value = read(offMicronutrients[key]);
+    if (value !== undefined) micronutrients[key] = round(value);
+  }
+
+  const group = product.pnns_groups_1;
+  const category = typeof group === 'string' && group && group !== 'unknown' ? group : null;
+
+  return buildRecord(
+    { source: 'open_food_facts', sourceId: String(code), name, category },
+    core,
+    micronutrients
+  );
+}
@@ -0,0 +1,37 @@
+import { createHash, randomBytes } from 'node:crypto';
+import type { Prisma } from '@prisma/client';
+
+export const INVITATION_TTL_DAYS = 14;
+
+export function createInvitationToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(24).toString('base64url');
+  return { token, tokenHash: hashInvitationToken(token) };
+}
+
+// Only the hash is stored, so a leaked database does not expose usable invitations.
+export function hashInvitationToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function invitationExpiry(now = new Date()): Date {
+  return new Date(now.getTime() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+export function memberOf(userId: string): Prisma.HouseholdWhereInput {
+  return { members: { some: { userId } } };
+}
+
+/**
+ * Whose meal plan a request is about: the user's personal plan, or the plan of a household
+ * the user belongs to. `userId` is always the acting user.
+ */
+export type PlanScope = { userId: string; householdId: string | null };
+
+// Also filters cooking batches, which belong to a plan scope the same way plans do.
+export function planScopeWhere(
+  scope: PlanScope
+): { householdId: string } | { userId: string; householdId: null } {
+  return scope.householdId
+    ? { householdId: scope.householdId }
+    : { userId: scope.userId, householdId: null };
+}
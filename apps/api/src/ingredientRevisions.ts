@@ -0,0 +1,69 @@
+import type { Ingredient, IngredientRevisionAction, Prisma } from '@prisma/client';
+import { readMicronutrients, type Micronutrients } from './nutrition.js';
+
+export const ingredientRevisionFields = [
+  'name',
+  'category',
+  'kcalPer100g',
+  'proteinPer100g',
+  'carbsPer100g',
+  'fatPer100g',
+  'fiberPer100g',
+  'sugarsPer100g',
+  'saturatedFatPer100g',
+  'sodiumPer100g',
+  'micronutrientsPer100g',
+  'allergens',
+  'dietTags',
+] as const;
+
+export type IngredientSnapshot = Omit<
+  Pick<Ingredient, (typeof ingredientRevisionFields)[number]>,
+  'micronutrientsPer100g'
+> & { micronutrientsPer100g: Micronutrients };
+
+export function ingredientSnapshot(
+  ingredient: Pick<Ingredient, (typeof ingredientRevisionFields)[number]>
+): IngredientSnapshot {
+  return {
+    name: ingredient.name,
+    category: ingredient.category,
+    kcalPer100g: ingredient.kcalPer100g,
+    proteinPer100g: ingredient.proteinPer100g,
+    carbsPer100g: ingredient.carbsPer100g,
+    fatPer100g: ingredient.fatPer100g,
+    fiberPer100g: ingredient.fiberPer100g,
+    sugarsPer100g: ingredient.sugarsPer100g,
+    saturatedFatPer100g: ingredient.saturatedFatPer100g,
+    sodiumPer100g: ingredient.sodiumPer100g,
+    micronutrientsPer100g: readMicronutrients(ingredient.micronutrientsPer100g),
+    allergens: ingredient.allergens,
+    dietTags: ingredient.dietTags,
+  };
+}
+
+export async function recordIngredientRevision(
+  tx: Prisma.TransactionClient,
+  ingredient: Ingredient,
+  action: IngredientRevisionAction,
+  changedById: string | null,
+  revertedFromId: string | null = null
+) {
+  await tx.ingredientRevision.create({
+    data: {
+      ingredientId: ingredient.id,
+      action,
+      changedById,
+      revertedFromId,
+      ...ingredientSnapshot(ingredient),
+    },
+  });
+}
+
+// Ingredients created before revisions existed get their current values recorded first.
+export async function ensureIngredientBaseline(tx: Prisma.TransactionClient, ingredient: Ingredient) {
+  const revisionCount = await tx.ingredientRevision.count({ where: { ingredientId: ingredient.id } });
+  if (revisionCount === 0) {
+    await recordIngredientRevision(tx, ingredient, 'BASELINE', null);
+  }
+}
@@ -0,0 +1,159 @@
+import { createHash } from 'node:crypto';
+
+import { Prisma } from '@prisma/client';
+
+export const ingredientSortFields = ['relevance', 'name', 'kcal', 'protein', 'carbs', 'fat'] as const;
+export type IngredientSortField = (typeof ingredientSortFields)[number];
+
+export const macroFilterFields = ['kcal', 'protein', 'carbs', 'fat'] as const;
+export type MacroFilterField = (typeof macroFilterFields)[number];
+
+export type IngredientSearch = {
+  // Private ingredients of this user are included next to the shared catalogue
+  viewerId: string | null;
+  q?: string | undefined;
+  category?: string | undefined;
+  ids?: string[] | undefined;
+  // Inclusive per-100 g bounds, e.g. { protein: { min: 20 } }
+  ranges: Partial<Record<MacroFilterField, { min?: number | undefined; max?: number | undefined }>>;
+  sort: IngredientSortField;
+  order: 'asc' | 'desc';
+  limit?: number | undefined;
+  cursor?: IngredientCursor | undefined;
+};
+
+// Position after the last row of a page: its sort value plus id as tie-breaker.
+export type IngredientCursor = { value: string | number; id: string };
+
+const macroColumns: Record<MacroFilterField, string> = {
+  kcal: '"kcalPer100g"',
+  protein: '"proteinPer100g"',
+  carbs: '"carbsPer100g"',
+  fat: '"fatPer100g"',
+};
+
+// Everything that decides which rows a search returns and in which order. A cursor carries
+// this fingerprint, so it is only valid for the exact query that produced it.
+function searchFingerprint(search: IngredientSearch): string {
+  const canonical = JSON.stringify([
+    search.viewerId,
+    search.q?.trim() ?? '',
+    search.category ?? null,
+    search.ids ?? null,
+    macroFilterFields.map((field) => [search.ranges[field]?.min ?? null, search.ranges[field]?.max ?? null]),
+    search.sort,
+    search.order,
+  ]);
+  return createHash('sha256').update(canonical).digest('base64url').slice(0, 16);
+}
+
+export function encodeCursor(cursor: IngredientCursor, search: IngredientSearch): string {
+  const payload = { search: searchFingerprint(search), value: cursor.value, id: cursor.id };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+// Name sorts compare text; relevance with a query and the macro sorts compare numbers.
+function sortValueType(search: IngredientSearch): 'string' | 'number' {
+  if (search.sort === 'name' || (search.sort === 'relevance' && !search.q?.trim())) return 'string';
+  return 'number';
+}
+
+/** Returns null for a malformed cursor or one produced by a different search, sort or order. */
+export function decodeCursor(value: string, search: IngredientSearch): IngredientCursor | null {
+  try {
+    const parsed: unknown = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (
+      typeof parsed === 'object' &&
+      parsed !== null &&
+      'search' in parsed &&
+      'id' in parsed &&
+      'value' in parsed &&
+      parsed.search === searchFingerprint(search) &&
+      typeof parsed.id === 'string' &&
+      typeof parsed.value === sortValueType(search) &&
+      (typeof parsed.value === 'string' || typeof parsed.value === 'number')
+    ) {
+      return { id: parsed.id, value: parsed.value };
+    }
+  } catch {
+    // fall through
+  }
+  return null;
+}
+
+function escapeLike(value: string) {
+  return value.replace(/[\\%_]/g, (ch) => `\\${ch}`);
+}
+
+function sortExpression(search: IngredientSearch): Prisma.Sql {
+  const q = search.q?.trim();
+  if (search.sort === 'relevance' && q) {
+    // Prefix matches rank above everything else, then trigram similarity.
+    // float8 keeps the value exact when it round-trips through a cursor.
+    return Prisma.sql`(CASE WHEN lower(name) LIKE lower(${escapeLike(q)}) || '%' THEN 1 ELSE 0 END + similarity(name, ${q}))::float8`;
+  }
+  if (search.sort === 'relevance' || search.sort === 'name') {
+    return Prisma.sql`name`;
+  }
+  return Prisma.raw(macroColumns[search.sort]);
+}
+
+/**
+ * Builds the id query for an ingredient search. Rows come back ordered, with one extra row
+ * beyond `limit` so the caller can tell whether another page exists.
+ */
+export function buildIngredientSearchQuery(search: IngredientSearch): Prisma.Sql {
+  const conditions: Prisma.Sql[] = [
+    search.viewerId
+      ? Prisma.sql`("ownerId" IS NULL OR "ownerId" = ${search.viewerId})`
+      : Prisma.sql`"ownerId" IS NULL`,
+  ];
+  const q = search.q?.trim();
+
+  if (q) {
+    // Substring match or trigram similarity above pg_trgm.similarity_threshold (0.3 by default);
+    // both can use the GIN trigram index on name.
+    const pattern = `%${escapeLike(q)}%`;
+    conditions.push(Prisma.sql`(name ILIKE ${pattern} OR name % ${q})`);
+  }
+
+  if (search.category) {
+    conditions.push(Prisma.sql`lower(category) = lower(${search.category})`);
+  }
+
+  if (search.ids) {
+    conditions.push(
+      search.ids.length > 0 ? Prisma.sql`id IN (${Prisma.join(search.ids)})` : Prisma.sql`FALSE`
+    );
+  }
+
+  for (const field of macroFilterFields) {
+    const range = search.ranges[field];
+    const column = Prisma.raw(macroColumns[field]);
+    if (range?.min !== undefined) conditions.push(Prisma.sql`${column} >= ${range.min}`);
+    if (range?.max !== undefined) conditions.push(Prisma.sql`${column} <= ${range.max}`);
+  }
+
+  const sortBy = sortExpression(search);
+  const descending = search.order === 'desc';
+
+  if (search.cursor) {
+    const { value, id } = search.cursor;
+    conditions.push(
+      descending
+        ? Prisma.sql`(${sortBy} < ${value} OR (${sortBy} = ${value} AND id > ${id}))`
+        : Prisma.sql`(${sortBy} > ${value} OR (${sortBy} = ${value} AND id > ${id}))`
+    );
+  }
+
+  const where = Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}`;
+  const limit = search.limit !== undefined ? Prisma.sql`LIMIT ${search.limit + 1}` : Prisma.empty;
+
+  return Prisma.sql`
+    SELECT id, ${sortBy} AS "sortValue"
+    FROM "Ingredient"
+    ${where}
+    ORDER BY ${sortBy} ${Prisma.raw(descending ? 'DESC' : 'ASC')}, id ASC
+    ${limit}
+  `;
+}
@@ -0,0 +1,171 @@
+import { CsvParseError, parseCsv, toCsv } from './csv.js';
+import { micronutrientKeys, readMicronutrients } from './nutrition.js';
+
+export type ExportableIngredient = {
+  name: string;
+  category: string | null;
+  kcalPer100g: number;
+  proteinPer100g: number;
+  carbsPer100g: number;
+  fatPer100g: number;
+  fiberPer100g: number;
+  sugarsPer100g: number;
+  saturatedFatPer100g: number;
+  sodiumPer100g: number;
+  micronutrientsPer100g: unknown;
+  densityGPerMl: number | null;
+  allergens: string[];
+  dietTags: string[];
+  portions: Array<{ unit: string; label: string | null; grams: number }>;
+};
+
+export type ImportRow = {
+  // 1-based CSV record number (the header is record 1), or position in the JSON array
+  row: number;
+  values: unknown;
+};
+
+const numericColumns = [
+  'kcalPer100g',
+  'proteinPer100g',
+  'carbsPer100g',
+  'fatPer100g',
+  'fiberPer100g',
+  'sugarsPer100g',
+  'saturatedFatPer100g',
+  'sodiumPer100g',
+  'densityGPerMl',
+] as const;
+
+function micronutrientColumn(key: string) {
+  return `${key}Per100g`;
+}
+
+// Tag columns hold keys separated by "|".
+const tagColumns = ['allergens', 'dietTags'] as const;
+
+export const ingredientCsvHeader = [
+  'name',
+  'category',
+  ...tagColumns,
+  ...numericColumns,
+  ...micronutrientKeys.map(micronutrientColumn),
+  'portions',
+];
+
+// Same shape as the ingredient create body, so exports can be imported as-is.
+export function toIngredientExport(ingredient: ExportableIngredient) {
+  return {
+    name: ingredient.name,
+    category: ingredient.category ?? undefined,
+    kcalPer100g: ingredient.kcalPer100g,
+    proteinPer100g: ingredient.proteinPer100g,
+    carbsPer100g: ingredient.carbsPer100g,
+    fatPer100g: ingredient.fatPer100g,
+    fiberPer100g: ingredient.fiberPer100g,
+    sugarsPer100g: ingredient.sugarsPer100g,
+    saturatedFatPer100g: ingredient.saturatedFatPer100g,
+    sodiumPer100g: ingredient.sodiumPer100g,
+    micronutrientsPer100g: readMicronutrients(ingredient.micronutrientsPer100g),
+    densityGPerMl: ingredient.densityGPerMl,
+    allergens: ingredient.allergens,
+    dietTags: ingredient.dietTags,
+    portions: ingredient.portions.map((p) => ({
+      unit: p.unit,
+      ...(p.label ? { label: p.label } : {}),
+      grams: p.grams,
+    })),
+  };
+}
+
+// Portions are written as "unit=grams" or "unit=grams=label" entries separated by "|".
+function formatPortions(portions: ExportableIngredient['portions']) {
+  return portions.map((p) => [p.unit, p.grams, ...(p.label ? [p.label] : [])].join('=')).join('|');
+}
+
+function parsePortions(value: string): unknown {
+  const portions = [];
+  for (const part of value.split('|')) {
+    const [unit, grams, label, ...rest] = part.split('=');
+    if (unit === undefined || grams === undefined || rest.length > 0) return value;
+    portions.push({ unit, grams: parseNumber(grams), ...(label ? { label } : {}) });
+  }
+  return portions;
+}
+
+function parseNumber(value: string): unknown {
+  const trimmed = value.trim();
+  return /^-?\d+(\.\d+)?$/.test(trimmed) ? Number(trimmed) : trimmed;
+}
+
+export function ingredientsToCsv(ingredients: ExportableIngredient[]): string {
+  const rows: Array<Array<string | number>> = [ingredientCsvHeader];
+  for (const ingredient of ingredients) {
+    const micros = readMicronutrients(ingredient.micronutrientsPer100g);
+    rows.push([
+      ingredient.name,
+      ingredient.category ?? '',
+      ...tagColumns.map((column) => ingredient[column].join('|')),
+      ...numericColumns.map((column) => ingredient[column] ?? ''),
+      ...micronutrientKeys.map((key) => micros[key] ?? ''),
+      formatPortions(ingredient.portions),
+    ]);
+  }
+  return toCsv(rows);
+}
+
+/**
+ * Turns CSV rows into ingredient body objects. Empty cells are omitted and unknown
+ * columns are ignored; values are left for the body schema to validate. When the file
+ * has portion, tag or micronutrient columns, their cells replace the stored lists entirely.
+ */
+export function parseIngredientCsv(text: string): ImportRow[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+
+  const columns = header.map((column) => column.trim());
+  if (!columns.includes('name')) {
+    throw new CsvParseError('CSV header must include a "name" column');
+  }
+
+  const micronutrientByColumn = new Map<string, string>(
+    micronutrientKeys.map((key) => [micronutrientColumn(key), key])
+  );
+  const hasMicronutrients = columns.some((column) => micronutrientByColumn.has(column));
+  const hasPortions = columns.includes('portions');
+  const presentTagColumns = tagColumns.filter((column) => columns.includes(column));
+
+  const result: ImportRow[] = [];
+  rows.forEach((cells, idx) => {
+    if (cells.every((cell) => cell.trim() === '')) return;
+
+    const values: Record<string, unknown> = hasPortions ? { portions: [] } : {};
+    for (const column of presentTagColumns) values[column] = [];
+    const micronutrients: Record<string, unknown> = {};
+
+    columns.forEach((column, colIdx) => {
+      const cell = cells[colIdx]?.trim() ?? '';
+      if (cell === '') return;
+
+      const micronutrient = micronutrientByColumn.get(column);
+      if (micronutrient) {
+        micronutrients[micronutrient] = parseNumber(cell);
+      } else if ((numericColumns as readonly string[]).includes(column)) {
+        values[column] = parseNumber(cell);
+      } else if ((tagColumns as readonly string[]).includes(column)) {
+        values[column] = cell.split('|').map((tag) => tag.trim());
+      } else if (column === 'portions') {
+        values.portions = parsePortions(cell);
+      } else if (column === 'name' || column === 'category') {
+        values[column] = cell;
+      }
+    });
+
+    if (hasMicronutrients) {
+      values.micronutrientsPer100g = micronutrients;
+    }
+
+    result.push({ row: idx + 2, values });
+  });
+  return result;
+}
@@ -0,0 +1,165 @@
+import { add, scale, sum, zeroNutrition, type Nutrition } from './nutrition.js';
+import type { NutritionTarget, TargetNutrientKey } from './targets.js';
+
+export type GeneratorCandidate = {
+  recipeId: string;
+  // Slot keys the recipe suits; empty means any slot.
+  slotTags: string[];
+  perServing: Nutrition;
+};
+
+export type GeneratorDay = {
+  date: string;
+  target: NutritionTarget;
+  // Nutrition of the meals already planned (locked) on this day.
+  locked: Nutrition;
+  emptySlots: string[];
+};
+
+export type GeneratorOptions = {
+  seed: number;
+  maxRepeatsPerWeek: number;
+  // How often each recipe is already used by locked meals this week.
+  lockedUses: Map<string, number>;
+  iterations?: number;
+};
+
+export type GeneratedMeal = { date: string; slot: string; recipeId: string; servings: number };
+
+export type GeneratorResult = {
+  meals: GeneratedMeal[];
+  unfilled: Array<{ date: string; slot: string }>;
+  // Sum of squared relative deviations from the daily targets; lower is better.
+  score: number;
+};
+
+export const GENERATOR_SERVING_OPTIONS = [0.5, 1, 1.5, 2];
+const DEFAULT_ITERATIONS = 2000;
+const targetKeys: TargetNutrientKey[] = ['kcal', 'protein', 'carbs', 'fat'];
+
+// mulberry32: small, fast and good enough to make runs reproducible per seed.
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function deviation(actual: Nutrition, target: NutritionTarget): number {
+  let total = 0;
+  for (const key of targetKeys) {
+    const goal = target[key];
+    if (goal === null || goal <= 0) continue;
+    const relative = (actual[key] - goal) / goal;
+    // Energy matters most; macros refine the choice.
+    total += (key === 'kcal' ? 2 : 1) * relative * relative;
+  }
+  return total;
+}
+
+type Choice = { candidate: GeneratorCandidate; servings: number } | null;
+
+/**
+ * Fills the empty slots of a week with recipes so each day approaches its targets.
+ * A greedy pass picks, slot by slot, the option closest to an even share of what the day
+ * still needs; a seeded local search then swaps single slots while the week score improves.
+ * The same inputs and seed always produce the same plan.
+ */
+export function generateMealPlan(
+  days: GeneratorDay[],
+  candidates: GeneratorCandidate[],
+  options: GeneratorOptions
+): GeneratorResult {
+  const random = createRandom(options.seed);
+  const uses = new Map(options.lockedUses);
+  const canUse = (recipeId: string) => (uses.get(recipeId) ?? 0) < options.maxRepeatsPerWeek;
+  const suits = (candidate: GeneratorCandidate, slot: string) =>
+    candidate.slotTags.length === 0 || candidate.slotTags.includes(slot);
+
+  // Shuffle once so the seed decides between equally good options.
+  const ordered = [...candidates];
+  for (let i = ordered.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(random() * (i + 1));
+    [ordered[i], ordered[j]] = [ordered[j]!, ordered[i]!];
+  }
+
+  const choices: Choice[][] = days.map((day) => day.emptySlots.map(() => null));
+  const nutritionOf = (choice: Choice) =>
+    choice ? scale(choice.candidate.perServing, choice.servings) : zeroNutrition;
+  const dayTotal = (dayIdx: number) => add(days[dayIdx]!.locked, sum(choices[dayIdx]!.map(nutritionOf)));
+
+  days.forEach((day, dayIdx) => {
+    day.emptySlots.forEach((slot, slotIdx) => {
+      const remainingSlots = day.emptySlots.length - slotIdx;
+      const planned = dayTotal(dayIdx);
+      const share: NutritionTarget = { kcal: null, protein: null, carbs: null, fat: null };
+      for (const key of targetKeys) {
+        const goal = day.target[key];
+        share[key] = goal === null ? null : Math.max(goal - planned[key], 0) / remainingSlots;
+      }
+
+      let best: Choice = null;
+      let bestScore = Infinity;
+      for (const candidate of ordered) {
+        if (!suits(candidate, slot) || !canUse(candidate.recipeId)) continue;
+        for (const servings of GENERATOR_SERVING_OPTIONS) {
+          const score = deviation(scale(candidate.perServing, servings), share);
+          if (score < bestScore) {
+            best = { candidate, servings };
+            bestScore = score;
+          }
+        }
+      }
+
+      choices[dayIdx]![slotIdx] = best;
+      if (best) uses.set(best.candidate.recipeId, (uses.get(best.candidate.recipeId) ?? 0) + 1);
+    });
+  });
+
+  const dayScores = days.map((day, dayIdx) => deviation(dayTotal(dayIdx), day.target));
+  const cells = days.flatMap((day, dayIdx) => day.emptySlots.map((slot, slotIdx) => ({ dayIdx, slotIdx, slot })));
+
+  if (cells.length > 0 && ordered.length > 0) {
+    for (let iteration = 0; iteration < (options.iterations ?? DEFAULT_ITERATIONS); iteration += 1) {
+      const cell = cells[Math.floor(random() * cells.length)]!;
+      const candidate = ordered[Math.floor(random() * ordered.length)]!;
+      const servings = GENERATOR_SERVING_OPTIONS[Math.floor(random() * GENERATOR_SERVING_OPTIONS.length)]!;
+      const current = choices[cell.dayIdx]![cell.slotIdx] ?? null;
+      if (!suits(candidate, cell.slot)) continue;
+
+      const sameRecipe = current?.candidate.recipeId === candidate.recipeId;
+      if (!sameRecipe && !canUse(candidate.recipeId)) continue;
+
+      choices[cell.dayIdx]![cell.slotIdx] = { candidate, servings };
+      const score = deviation(dayTotal(cell.dayIdx), days[cell.dayIdx]!.target);
+      if (score < dayScores[cell.dayIdx]!) {
+        dayScores[cell.dayIdx] = score;
+        if (!sameRecipe) {
+          uses.set(candidate.recipeId, (uses.get(candidate.recipeId) ?? 0) + 1);
+          if (current) uses.set(current.candidate.recipeId, (uses.get(current.candidate.recipeId) ?? 1) - 1);
+        }
+      } else {
+        choices[cell.dayIdx]![cell.slotIdx] = current;
+      }
+    }
+  }
+
+  const result: GeneratorResult = { meals: [], unfilled: [], score: 0 };
+  days.forEach((day, dayIdx) => {
+    day.emptySlots.forEach((slot, slotIdx) => {
+      const choice = choices[dayIdx]![slotIdx] ?? null;
+      if (choice) {
+        result.meals.push({ date: day.date, slot, recipeId: choice.candidate.recipeId, servings: choice.servings });
+      } else {
+        result.unfilled.push({ date: day.date, slot });
+      }
+    });
+  });
+  result.score = dayScores.reduce((total, score) => total + score, 0);
+
+  return result;
+}
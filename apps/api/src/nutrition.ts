@@ -1,28 +1,142 @@
-export type Nutrition = {
-  kcal: number;
-  protein: number;
-  carbs: number;
-  fat: number;
+export type NutrientUnit = 'kcal' | 'g' | 'mg' | 'µg';
+
+export type NutrientDefinition = {
+  key: string;
+  label: string;
+  unit: NutrientUnit;
+};
+
+// Nutrients stored as dedicated columns on Ingredient (`<key>Per100g`).
+export const coreNutrients = [
+  { key: 'kcal', label: 'Energy', unit: 'kcal' },
+  { key: 'protein', label: 'Protein', unit: 'g' },
+  { key: 'carbs', label: 'Carbohydrates', unit: 'g' },
+  { key: 'fat', label: 'Fat', unit: 'g' },
+  { key: 'fiber', label: 'Fiber', unit: 'g' },
+  { key: 'sugars', label: 'Sugars', unit: 'g' },
+  { key: 'saturatedFat', label: 'Saturated fat', unit: 'g' },
+  { key: 'sodium', label: 'Sodium', unit: 'mg' },
+] as const satisfies readonly NutrientDefinition[];
+
+// Vitamins and minerals stored in Ingredient.micronutrientsPer100g; add new entries here.
+export const micronutrients = [
+  { key: 'vitaminA', label: 'Vitamin A', unit: 'µg' },
+  { key: 'vitaminC', label: 'Vitamin C', unit: 'mg' },
+  { key: 'vitaminD', label: 'Vitamin D', unit: 'µg' },
+  { key: 'vitaminB12', label: 'Vitamin B12', unit: 'µg' },
+  { key: 'calcium', label: 'Calcium', unit: 'mg' },
+  { key: 'iron', label: 'Iron', unit: 'mg' },
+  { key: 'magnesium', label: 'Magnesium', unit: 'mg' },
+  { key: 'potassium', label: 'Potassium', unit: 'mg' },
+  { key: 'zinc', label: 'Zinc', unit: 'mg' },
+] as const satisfies readonly NutrientDefinition[];
+
+export type CoreNutrientKey = (typeof coreNutrients)[number]['key'];
+export type MicronutrientKey = (typeof micronutrients)[number]['key'];
+export type NutrientKey = CoreNutrientKey | MicronutrientKey;
+
+export const coreNutrientKeys: CoreNutrientKey[] = coreNutrients.map((n) => n.key);
+export const micronutrientKeys: MicronutrientKey[] = micronutrients.map((n) => n.key);
+export const nutrientKeys: NutrientKey[] = [...coreNutrientKeys, ...micronutrientKeys];
+
+export type Nutrition = Record<NutrientKey, number>;
+
+export type NutritionPer100g = {
+  kcalPer100g: number;
+  proteinPer100g: number;
+  carbsPer100g: number;
+  fatPer100g: number;
+  fiberPer100g: number;
+  sugarsPer100g: number;
+  saturatedFatPer100g: number;
+  sodiumPer100g: number;
+  micronutrientsPer100g: unknown;
 };
 
+export type Micronutrients = Partial<Record<MicronutrientKey, number>>;
+
+function fromKeys(value: (key: NutrientKey) => number): Nutrition {
+  return Object.fromEntries(nutrientKeys.map((key) => [key, value(key)])) as Nutrition;
+}
+
+export const zeroNutrition: Nutrition = fromKeys(() => 0);
+
 export function add(a: Nutrition, b: Nutrition): Nutrition {
+  return fromKeys((key) => a[key] + b[key]);
+}
+
+export function scale(n: Nutrition, factor: number): Nutrition {
+  return fromKeys((key) => n[key] * factor);
+}
+
+// Keeps only known micronutrients with finite, non-negative amounts.
+export function readMicronutrients(value: unknown): Micronutrients {
+  const result: Micronutrients = {};
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return result;
+
+  const record = value as Record<string, unknown>;
+  for (const key of micronutrientKeys) {
+    const amount = record[key];
+    if (typeof amount === 'number' && Number.isFinite(amount) && amount >= 0) {
+      result[key] = amount;
+    }
+  }
+  return result;
+}
+
+// Reads a stored Nutrition snapshot; missing or invalid values count as 0.
+export function readNutrition(value: unknown): Nutrition {
+  const record =
+    typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+  return fromKeys((key) => {
+    const amount = record[key];
+    return typeof amount === 'number' && Number.isFinite(amount) ? amount : 0;
+  });
+}
+
+export function per100g(ing: NutritionPer100g): Nutrition {
+  const micros = readMicronutrients(ing.micronutrientsPer100g);
   return {
-    kcal: a.kcal + b.kcal,
-    protein: a.protein + b.protein,
-    carbs: a.carbs + b.carbs,
-    fat: a.fat + b.fat,
+    ...fromKeys((key) => micros[key as MicronutrientKey] ?? 0),
+    kcal: ing.kcalPer100g,
+    protein: ing.proteinPer100g,
+    carbs: ing.carbsPer100g,
+    fat: ing.fatPer100g,
+    fiber: ing.fiberPer100g,
+    sugars: ing.sugarsPer100g,
+    saturatedFat: ing.saturatedFatPer100g,
+    sodium: ing.sodiumPer100g,
   };
 }
 
+export function forQuantity(ing: NutritionPer100g, quantityG: number): Nutrition {
+  return scale(per100g(ing), quantityG / 100);
+}
+
 export function round1(n: number) {
   return Math.round(n * 10) / 10;
 }
 
 export function roundNutrition(n: Nutrition): Nutrition {
+  return fromKeys((key) => round1(n[key]));
+}
+
+export function sum(values: Nutrition[]): Nutrition {
+  return values.reduce(add, zeroNutrition);
+}
+
+export function recipeTotal(items: Array<{ quantityG: number; ingredient: NutritionPer100g }>): Nutrition {
+  return sum(items.map((it) => forQuantity(it.ingredient, it.quantityG)));
+}
+
+export function recipeNutrition(
+  items: Array<{ quantityG: number; ingredient: NutritionPer100g }>,
+  servings: number
+) {
+  const total = recipeTotal(items);
+
   return {
-    kcal: round1(n.kcal),
-    protein: round1(n.protein),
-    carbs: round1(n.carbs),
-    fat: round1(n.fat),
+    total: roundNutrition(total),
+    perServing: roundNutrition(scale(total, 1 / servings)),
   };
 }
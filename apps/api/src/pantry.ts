@@ -0,0 +1,65 @@
+export type PantryStock = {
+  id: string;
+  ingredientId: string;
+  quantityG: number;
+  expiresOn: Date | null;
+  createdAt: Date;
+};
+
+export type PantryDeduction = {
+  // Remaining quantity per touched pantry row; rows used up are listed in `emptied` instead.
+  updates: Array<{ id: string; quantityG: number }>;
+  emptied: string[];
+  deducted: Map<string, number>;
+  missing: Map<string, number>;
+};
+
+// Stock that expired before `today` is not counted as available.
+export function isExpired(item: Pick<PantryStock, 'expiresOn'>, today: Date): boolean {
+  return item.expiresOn !== null && item.expiresOn.getTime() < today.getTime();
+}
+
+export function pantryTotals(stock: PantryStock[]): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const item of stock) {
+    totals.set(item.ingredientId, (totals.get(item.ingredientId) ?? 0) + item.quantityG);
+  }
+  return totals;
+}
+
+// Batches closest to expiring are used first; batches without expiry date last, oldest first.
+function consumptionOrder(a: PantryStock, b: PantryStock): number {
+  if (a.expiresOn && b.expiresOn) {
+    const diff = a.expiresOn.getTime() - b.expiresOn.getTime();
+    if (diff !== 0) return diff;
+  } else if (a.expiresOn || b.expiresOn) {
+    return a.expiresOn ? -1 : 1;
+  }
+  return a.createdAt.getTime() - b.createdAt.getTime();
+}
+
+export function planPantryDeduction(stock: PantryStock[], needs: Map<string, number>): PantryDeduction {
+  const result: PantryDeduction = { updates: [], emptied: [], deducted: new Map(), missing: new Map() };
+
+  for (const [ingredientId, neededG] of needs) {
+    let remaining = neededG;
+    const batches = stock.filter((item) => item.ingredientId === ingredientId).sort(consumptionOrder);
+
+    for (const batch of batches) {
+      if (remaining <= 0) break;
+      const used = Math.min(batch.quantityG, remaining);
+      remaining -= used;
+      if (used >= batch.quantityG) {
+        result.emptied.push(batch.id);
+      } else {
+        result.updates.push({ id: batch.id, quantityG: batch.quantityG - used });
+      }
+    }
+
+    const deducted = neededG - remaining;
+    if (deducted > 0) result.deducted.set(ingredientId, deducted);
+    if (remaining > 0) result.missing.set(ingredientId, remaining);
+  }
+
+  return result;
+}
@@ -1,12 +1,80 @@
 import 'dotenv/config';
 import Fastify from 'fastify';
-import { Prisma } from '@prisma/client';
+import { Prisma, type FoodLogEntry } from '@prisma/client';
 import { z } from 'zod';
-import { prisma } from './db.js';
-import { add, roundNutrition } from './nutrition.js';
+import { ensureDatabaseConstraints, prisma } from './db.js';
+import {
+	add,
+	coreNutrients,
+	forQuantity,
+	micronutrientKeys,
+	micronutrients,
+	readMicronutrients,
+	readNutrition,
+	recipeNutrition,
+	recipeTotal,
+	round1,
+	roundNutrition,
+	scale,
+	sum,
+	zeroNutrition,
+	type Nutrition,
+} from './nutrition.js';
+import {
+	buildShoppingList,
+	plannedMealLines,
+	shoppingListToCsv,
+	shoppingListToText,
+	type ShoppingListLine,
+} from './shopping.js';
+import { compareToTarget, emptyTarget, hasAnyTarget, resolveTarget, type TargetProfile } from './targets.js';
+import { CsvParseError } from './csv.js';
+import {
+	buildIngredientSearchQuery,
+	decodeCursor,
+	encodeCursor,
+	ingredientSortFields,
+	type IngredientSearch,
+} from './ingredientSearch.js';
+import {
+	ingredientsToCsv,
+	parseIngredientCsv,
+	toIngredientExport,
+	type ExportableIngredient,
+	type ImportRow,
+} from './ingredientTransfer.js';
+import {
+	ensureIngredientBaseline,
+	ingredientRevisionFields,
+	ingredientSnapshot,
+	recordIngredientRevision,
+} from './ingredientRevisions.js';
+import { UNIT_KEY_REGEX, availableUnits, normalizeUnit, roundQuantity, toGrams } from './units.js';
+import {
+	createInvitationToken,
+	hashInvitationToken,
+	invitationExpiry,
+	memberOf,
+	planScopeWhere,
+	type PlanScope,
+} from './households.js';
+import { isExpired, pantryTotals, planPantryDeduction, type PantryStock } from './pantry.js';
+import { generateMealPlan, type GeneratorCandidate, type GeneratorDay } from './mealPlanGenerator.js';
+import {
+	allergenKeys,
+	allergens,
+	dietKeys,
+	dietaryConflicts,
+	diets,
+	noRestrictions,
+	recipeDietaryTags,
+	type DietaryRestrictions,
+	type DietaryTags,
+} from './dietary.js';
 import cors from '@fastify/cors';
 import { registerAuth } from './auth.js';
 import bcrypt from 'bcrypt';
+import { randomUUID } from 'node:crypto';
 
 const app = Fastify();
 
@@ -32,9 +100,34 @@ async function requireAdmin(req: any, reply: any) {
 	}
 }
 
-const mealSlotSchema = z.enum(['breakfast', 'lunch', 'afternoon_snack', 'dinner']);
+const mealSlotSchema = z
+	.string()
+	.trim()
+	.regex(/^[a-z][a-z0-9_]*$/, 'Slot key must be lowercase letters, digits or underscores')
+	.max(40);
 const DATE_ONLY_REGEX = /^\d{4}-\d{2}-\d{2}$/;
-const slotSortOrder = ['breakfast', 'lunch', 'afternoon_snack', 'dinner'] as const;
+const MAX_ENTRIES_PER_SLOT = 10;
+
+type MealSlotConfig = { key: string; label: string; sortOrder: number; active: boolean };
+
+const builtInMealSlots: MealSlotConfig[] = [
+	{ key: 'breakfast', label: 'Breakfast', sortOrder: 0, active: true },
+	{ key: 'lunch', label: 'Lunch', sortOrder: 1, active: true },
+	{ key: 'afternoon_snack', label: 'Afternoon snack', sortOrder: 2, active: true },
+	{ key: 'dinner', label: 'Dinner', sortOrder: 3, active: true },
+];
+
+const mealSlotConfigSchema = z
+	.array(
+		z.object({
+			key: mealSlotSchema,
+			label: z.string().trim().min(1).max(60),
+			sortOrder: z.number().int().min(0),
+			active: z.boolean().default(true),
+		})
+	)
+	.min(1)
+	.max(20);
 
 function parseDateOnly(value: string): Date | null {
 	if (!DATE_ONLY_REGEX.test(value)) {
@@ -58,38 +151,288 @@ function addDaysUtc(date: Date, days: number): Date {
 	return copy;
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function todayUtc(): Date {
+	return new Date(`${formatDateOnly(new Date())}T00:00:00.000Z`);
+}
+
 function isWithinWeek(date: Date, weekStart: Date): boolean {
-	const dayMs = 24 * 60 * 60 * 1000;
 	const diffMs = date.getTime() - weekStart.getTime();
-	return diffMs >= 0 && diffMs <= dayMs * 6;
+	return diffMs >= 0 && diffMs <= DAY_MS * 6;
+}
+
+function dayOffset(date: Date, weekStart: Date): number {
+	return Math.round((date.getTime() - weekStart.getTime()) / DAY_MS);
+}
+
+function slotRank(slot: string, slots: MealSlotConfig[]): number {
+	return slots.find((s) => s.key === slot)?.sortOrder ?? Number.MAX_SAFE_INTEGER;
+}
+
+function findMealSlotConfigError(slots: MealSlotConfig[]): string | null {
+	const seen = new Set<string>();
+	for (const slot of slots) {
+		if (seen.has(slot.key)) {
+			return `Duplicate slot key: ${slot.key}`;
+		}
+		seen.add(slot.key);
+	}
+
+	if (!slots.some((slot) => slot.active)) {
+		return 'At least one slot must be active';
+	}
+
+	return null;
+}
+
+const mealSlotSelect = { key: true, label: true, sortOrder: true, active: true } as const;
+
+async function loadDefaultMealSlots(): Promise<MealSlotConfig[]> {
+	const defaults = await prisma.mealSlot.findMany({
+		where: { userId: null },
+		orderBy: { sortOrder: 'asc' },
+		select: mealSlotSelect,
+	});
+	return defaults.length > 0 ? defaults : builtInMealSlots;
 }
 
-function slotRank(slot: string): number {
-	const idx = slotSortOrder.indexOf(slot as (typeof slotSortOrder)[number]);
-	return idx === -1 ? slotSortOrder.length : idx;
+async function loadMealSlots(userId: string) {
+	const own = await prisma.mealSlot.findMany({
+		where: { userId },
+		orderBy: { sortOrder: 'asc' },
+		select: mealSlotSelect,
+	});
+
+	if (own.length > 0) {
+		return { customized: true, slots: own };
+	}
+
+	return { customized: false, slots: await loadDefaultMealSlots() };
 }
 
 app.get('/health', async () => ({ ok: true }));
 
-app.get('/ingredients', async () => {
-	return prisma.ingredient.findMany({ orderBy: { name: 'asc' } });
+app.get('/nutrients', async () => ({ core: coreNutrients, micronutrients }));
+
+app.get('/dietary-tags', async () => ({ allergens, diets }));
+
+const ingredientListQuerySchema = z.object({
+	q: z.string().trim().max(100).optional(),
+	category: z.string().trim().min(1).max(100).optional(),
+	ids: z
+		.string()
+		.transform((value) => value.split(',').filter(Boolean))
+		.pipe(z.array(z.string().min(1)).max(200))
+		.optional(),
+	kcalMin: z.coerce.number().min(0).optional(),
+	kcalMax: z.coerce.number().min(0).optional(),
+	proteinMin: z.coerce.number().min(0).optional(),
+	proteinMax: z.coerce.number().min(0).optional(),
+	carbsMin: z.coerce.number().min(0).optional(),
+	carbsMax: z.coerce.number().min(0).optional(),
+	fatMin: z.coerce.number().min(0).optional(),
+	fatMax: z.coerce.number().min(0).optional(),
+	sort: z.enum(ingredientSortFields).optional(),
+	order: z.enum(['asc', 'desc']).optional(),
+	limit: z.coerce.number().int().min(1).max(100).optional(),
+	cursor: z.string().optional(),
+});
+
+const ingredientListInclude = { portions: { orderBy: { unit: 'asc' } } } as const;
+
+// The shared catalogue plus, for a signed-in user, their own private ingredients.
+function visibleIngredientsWhere(userId: string | null): Prisma.IngredientWhereInput {
+	return userId ? { OR: [{ ownerId: null }, { ownerId: userId }] } : { ownerId: null };
+}
+
+/**
+ * Lists ingredients. Without `limit` or `cursor` the whole (filtered) list is returned as an
+ * array; with either, a page `{ items, nextCursor }` is returned. Signed-in users also see
+ * their private ingredients.
+ */
+app.get('/ingredients', { preHandler: (app as any).optionalAuthenticate }, async (req: any, reply) => {
+	const query = ingredientListQuerySchema.parse(req.query);
+	const userId = (req.user?.sub as string | undefined) ?? null;
+	const paged = query.limit !== undefined || query.cursor !== undefined;
+	const withUnits = (ingredient: Prisma.IngredientGetPayload<{ include: typeof ingredientListInclude }>) => ({
+		...ingredient,
+		units: availableUnits(ingredient),
+	});
+
+	const filtered = Object.entries(query).some(([, value]) => value !== undefined);
+	if (!filtered) {
+		const ingredients = await prisma.ingredient.findMany({
+			where: visibleIngredientsWhere(userId),
+			orderBy: { name: 'asc' },
+			include: ingredientListInclude,
+		});
+		return ingredients.map(withUnits);
+	}
+
+	const sort = query.sort ?? (query.q ? 'relevance' : 'name');
+	const limit = paged ? (query.limit ?? 25) : undefined;
+	const search: IngredientSearch = {
+		viewerId: userId,
+		q: query.q,
+		category: query.category,
+		ids: query.ids,
+		ranges: {
+			kcal: { min: query.kcalMin, max: query.kcalMax },
+			protein: { min: query.proteinMin, max: query.proteinMax },
+			carbs: { min: query.carbsMin, max: query.carbsMax },
+			fat: { min: query.fatMin, max: query.fatMax },
+		},
+		sort,
+		order: query.order ?? (sort === 'relevance' ? 'desc' : 'asc'),
+		limit,
+	};
+	const cursor = query.cursor !== undefined ? decodeCursor(query.cursor, search) : undefined;
+	if (cursor === null) {
+		return reply.code(400).send({ error: 'Invalid cursor' });
+	}
+
+	const rows = await prisma.$queryRaw<Array<{ id: string; sortValue: string | number }>>(
+		buildIngredientSearchQuery({ ...search, cursor })
+	);
+
+	const pageRows = limit !== undefined ? rows.slice(0, limit) : rows;
+	const ingredients = await prisma.ingredient.findMany({
+		where: { id: { in: pageRows.map((row) => row.id) } },
+		include: ingredientListInclude,
+	});
+	const ingredientById = new Map(ingredients.map((ingredient) => [ingredient.id, ingredient]));
+	const items = pageRows.flatMap((row) => {
+		const ingredient = ingredientById.get(row.id);
+		return ingredient ? [withUnits(ingredient)] : [];
+	});
+
+	if (!paged) {
+		return items;
+	}
+
+	const last = pageRows[pageRows.length - 1];
+	return {
+		items,
+		nextCursor:
+			last && rows.length > pageRows.length ? encodeCursor({ value: last.sortValue, id: last.id }, search) : null,
+	};
+});
+
+const micronutrientsSchema = z
+	.record(z.string(), z.number().min(0))
+	.refine((value) => Object.keys(value).every((key) => (micronutrientKeys as string[]).includes(key)), {
+		message: 'Unknown micronutrient',
+	})
+	.transform(readMicronutrients);
+
+const ingredientPortionSchema = z.object({
+	unit: z
+		.string()
+		.trim()
+		.transform(normalizeUnit)
+		.pipe(z.string().regex(UNIT_KEY_REGEX, 'Unit must be lowercase letters, digits or underscores')),
+	label: z.string().trim().max(50).optional(),
+	grams: z.number().positive().max(10000),
+});
+
+const allergensSchema = z
+	.array(z.enum(allergenKeys))
+	.max(allergenKeys.length * 2)
+	.transform((keys): string[] => [...new Set(keys)]);
+const dietTagsSchema = z
+	.array(z.enum(dietKeys))
+	.max(dietKeys.length * 2)
+	.transform((keys): string[] => [...new Set(keys)]);
+
+const ingredientBodySchema = z.object({
+	name: z.string().trim().min(1),
+	kcalPer100g: z.number().min(0),
+	proteinPer100g: z.number().min(0),
+	carbsPer100g: z.number().min(0),
+	fatPer100g: z.number().min(0),
+	fiberPer100g: z.number().min(0).optional(),
+	sugarsPer100g: z.number().min(0).optional(),
+	saturatedFatPer100g: z.number().min(0).optional(),
+	sodiumPer100g: z.number().min(0).optional(),
+	micronutrientsPer100g: micronutrientsSchema.optional(),
+	densityGPerMl: z.number().positive().max(10).nullable().optional(),
+	portions: z
+		.array(ingredientPortionSchema)
+		.max(20)
+		.refine((portions) => new Set(portions.map((p) => p.unit)).size === portions.length, {
+			message: 'Portion units must be unique',
+		})
+		.optional(),
+	category: z.string().trim().max(100).optional(),
+	allergens: allergensSchema.optional(),
+	dietTags: dietTagsSchema.optional(),
 });
 
+type IngredientBody = z.infer<typeof ingredientBodySchema>;
+type IngredientPatch = { [K in keyof IngredientBody]?: IngredientBody[K] | undefined };
+
+function portionCreateData(portions: z.infer<typeof ingredientPortionSchema>[]) {
+	return portions.map((p) => ({ unit: p.unit, label: p.label || null, grams: p.grams }));
+}
+
+function ingredientCreateData(body: IngredientBody) {
+	const { portions, ...fields } = body;
+	return {
+		...fields,
+		category: fields.category || null,
+		fiberPer100g: fields.fiberPer100g ?? 0,
+		sugarsPer100g: fields.sugarsPer100g ?? 0,
+		saturatedFatPer100g: fields.saturatedFatPer100g ?? 0,
+		sodiumPer100g: fields.sodiumPer100g ?? 0,
+		micronutrientsPer100g: fields.micronutrientsPer100g ?? {},
+		densityGPerMl: fields.densityGPerMl ?? null,
+		allergens: fields.allergens ?? [],
+		dietTags: fields.dietTags ?? [],
+		portions: { create: portionCreateData(portions ?? []) },
+	};
+}
+
+function ingredientUpdateData(body: IngredientPatch): Prisma.IngredientUpdateInput {
+	const data: Prisma.IngredientUpdateInput = {};
+	if (body.name !== undefined) data.name = body.name;
+	if (body.category !== undefined) data.category = body.category || null;
+	if (body.kcalPer100g !== undefined) data.kcalPer100g = body.kcalPer100g;
+	if (body.proteinPer100g !== undefined) data.proteinPer100g = body.proteinPer100g;
+	if (body.carbsPer100g !== undefined) data.carbsPer100g = body.carbsPer100g;
+	if (body.fatPer100g !== undefined) data.fatPer100g = body.fatPer100g;
+	if (body.fiberPer100g !== undefined) data.fiberPer100g = body.fiberPer100g;
+	if (body.sugarsPer100g !== undefined) data.sugarsPer100g = body.sugarsPer100g;
+	if (body.saturatedFatPer100g !== undefined) data.saturatedFatPer100g = body.saturatedFatPer100g;
+	if (body.sodiumPer100g !== undefined) data.sodiumPer100g = body.sodiumPer100g;
+	if (body.micronutrientsPer100g !== undefined) {
+		data.micronutrientsPer100g = body.micronutrientsPer100g;
+	}
+	if (body.densityGPerMl !== undefined) data.densityGPerMl = body.densityGPerMl;
+	if (body.allergens !== undefined) data.allergens = body.allergens;
+	if (body.dietTags !== undefined) data.dietTags = body.dietTags;
+	if (body.portions !== undefined) {
+		data.portions = { deleteMany: {}, create: portionCreateData(body.portions) };
+	}
+	return data;
+}
+
 app.post(
 	'/ingredients',
 	{ preHandler: [(app as any).authenticate, requireAdmin] },
-	async (req, reply) => {
-		const Body = z.object({
-			name: z.string().trim().min(1),
-			kcalPer100g: z.number().min(0),
-			proteinPer100g: z.number().min(0),
-			carbsPer100g: z.number().min(0),
-			fatPer100g: z.number().min(0),
-		});
-		const body = Body.parse(req.body);
+	async (req: any, reply) => {
+		const body = ingredientBodySchema.parse(req.body);
+		const userId = req.user.sub as string;
 
 		try {
-			return await prisma.ingredient.create({ data: body });
+			return await prisma.$transaction(async (tx) => {
+				const created = await tx.ingredient.create({
+					data: ingredientCreateData(body),
+					include: { portions: true },
+				});
+				await recordIngredientRevision(tx, created, 'CREATE', userId);
+				return created;
+			});
 		} catch (error) {
 			if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
 				return reply.code(409).send({ error: 'Ingredient name already exists' });
@@ -99,315 +442,3316 @@ app.post(
 	}
 );
 
-app.delete(
+// Names the fields an import row would change on an existing ingredient.
+function changedIngredientFields(existing: ExportableIngredient, body: IngredientBody): string[] {
+	const current = toIngredientExport(existing);
+	const next = toIngredientExport({
+		...existing,
+		...ingredientCreateData({ ...current, ...body }),
+		portions: portionCreateData(body.portions ?? current.portions),
+	});
+
+	return (Object.keys(next) as Array<keyof typeof next>).filter(
+		(field) => JSON.stringify(current[field]) !== JSON.stringify(next[field])
+	);
+}
+
+type IngredientImportRowStatus = 'create' | 'update' | 'unchanged' | 'duplicate' | 'error';
+
+type IngredientImportRowReport = {
+	row: number;
+	name: string | null;
+	status: IngredientImportRowStatus;
+	changes?: string[];
+	errors?: string[];
+};
+
+app.post(
+	'/ingredients/import',
+	{ preHandler: [(app as any).authenticate, requireAdmin], bodyLimit: 5 * 1024 * 1024 },
+	async (req: any, reply) => {
+		const Body = z
+			.object({
+				dryRun: z.boolean().default(false),
+				// 'create' reports existing names as duplicates instead of updating them
+				mode: z.enum(['upsert', 'create']).default('upsert'),
+				csv: z.string().optional(),
+				items: z.array(z.unknown()).optional(),
+			})
+			.refine((body) => (body.csv === undefined) !== (body.items === undefined), {
+				message: 'Provide either csv or items',
+			});
+		const body = Body.parse(req.body);
+		const userId = req.user.sub as string;
+
+		let rows: ImportRow[];
+		if (body.csv !== undefined) {
+			try {
+				rows = parseIngredientCsv(body.csv);
+			} catch (error) {
+				if (error instanceof CsvParseError) {
+					return reply.code(400).send({ error: `Invalid CSV: ${error.message}` });
+				}
+				throw error;
+			}
+		} else {
+			rows = (body.items ?? []).map((values, idx) => ({ row: idx + 1, values }));
+		}
+
+		if (rows.length === 0) {
+			return reply.code(400).send({ error: 'No rows to import' });
+		}
+		if (rows.length > 5000) {
+			return reply.code(400).send({ error: 'At most 5000 rows can be imported at once' });
+		}
+
+		const parsed = rows.map((row) => ({ row: row.row, result: ingredientBodySchema.safeParse(row.values) }));
+		const names = parsed.flatMap((p) => (p.result.success ? [p.result.data.name] : []));
+		const existing = await prisma.ingredient.findMany({
+			where: { ownerId: null, name: { in: names } },
+			include: { portions: true },
+		});
+		const existingByName = new Map(existing.map((i) => [i.name, i]));
+
+		const firstRowByName = new Map<string, number>();
+		const creates: IngredientBody[] = [];
+		const updates: Array<{ id: string; body: IngredientBody }> = [];
+
+		const report: IngredientImportRowReport[] = parsed.map(({ row, result }) => {
+			if (!result.success) {
+				const values = rows.find((r) => r.row === row)?.values as { name?: unknown } | undefined;
+				return {
+					row,
+					name: typeof values?.name === 'string' ? values.name : null,
+					status: 'error',
+					errors: result.error.issues.map((issue) =>
+						issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+					),
+				};
+			}
+
+			const item = result.data;
+			const earlierRow = firstRowByName.get(item.name);
+			if (earlierRow !== undefined) {
+				return {
+					row,
+					name: item.name,
+					status: 'duplicate',
+					errors: [`Same name as row ${earlierRow}`],
+				};
+			}
+			firstRowByName.set(item.name, row);
+
+			const current = existingByName.get(item.name);
+			if (!current) {
+				creates.push(item);
+				return { row, name: item.name, status: 'create' };
+			}
+
+			if (body.mode === 'create') {
+				return {
+					row,
+					name: item.name,
+					status: 'duplicate',
+					errors: ['Ingredient name already exists'],
+				};
+			}
+
+			const changes = changedIngredientFields(current, item);
+			if (changes.length === 0) {
+				return { row, name: item.name, status: 'unchanged' };
+			}
+			updates.push({ id: current.id, body: item });
+			return { row, name: item.name, status: 'update', changes };
+		});
+
+		const summary = Object.fromEntries(
+			(['create', 'update', 'unchanged', 'duplicate', 'error'] as const).map((status) => [
+				status,
+				report.filter((r) => r.status === status).length,
+			])
+		) as Record<IngredientImportRowStatus, number>;
+
+		const hasErrors = summary.error > 0;
+		if (body.dryRun || hasErrors) {
+			const response = { dryRun: body.dryRun, applied: false, summary, rows: report };
+			return hasErrors && !body.dryRun
+				? reply.code(400).send({ error: 'Import contains invalid rows; nothing was imported', ...response })
+				: response;
+		}
+
+		try {
+			await prisma.$transaction(
+				async (tx) => {
+					for (const item of creates) {
+						const created = await tx.ingredient.create({ data: ingredientCreateData(item) });
+						await recordIngredientRevision(tx, created, 'CREATE', userId);
+					}
+					for (const { id, body: item } of updates) {
+						const current = await tx.ingredient.findUniqueOrThrow({ where: { id } });
+						await ensureIngredientBaseline(tx, current);
+						const next = await tx.ingredient.update({ where: { id }, data: ingredientUpdateData(item) });
+						await recordIngredientRevision(tx, next, 'UPDATE', userId);
+					}
+				},
+				{ timeout: 60_000 }
+			);
+		} catch (error) {
+			if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+				return reply.code(409).send({ error: 'Ingredients changed during import; run it again' });
+			}
+			throw error;
+		}
+
+		return { dryRun: false, applied: true, summary, rows: report };
+	}
+);
+
+app.get(
+	'/ingredients/export',
+	{ preHandler: [(app as any).authenticate, requireAdmin] },
+	async (req, reply) => {
+		const Query = z.object({ format: z.enum(['json', 'csv']).default('json') });
+		const query = Query.parse(req.query);
+
+		const ingredients = await prisma.ingredient.findMany({
+			where: { ownerId: null },
+			orderBy: { name: 'asc' },
+			include: { portions: { orderBy: { unit: 'asc' } } },
+		});
+
+		if (query.format === 'csv') {
+			return reply
+				.header('Content-Type', 'text/csv; charset=utf-8')
+				.header('Content-Disposition', 'attachment; filename="ingredients.csv"')
+				.send(ingredientsToCsv(ingredients));
+		}
+
+		return reply
+			.header('Content-Disposition', 'attachment; filename="ingredients.json"')
+			.send(ingredients.map(toIngredientExport));
+	}
+);
+
+// Updates a shared (ownerId null) or private ingredient; ingredients outside that scope are a 404.
+async function updateIngredient(req: any, reply: any, ownerId: string | null) {
+	const Params = z.object({ id: z.string().min(1) });
+	const { id } = Params.parse(req.params);
+	const body = ingredientBodySchema.partial().parse(req.body);
+	const userId = req.user.sub as string;
+
+	if (Object.values(body).every((value) => value === undefined)) {
+		return reply.code(400).send({ error: 'No changes provided' });
+	}
+
+	const data = ingredientUpdateData(body);
+
+	try {
+		const updated = await prisma.$transaction(async (tx) => {
+			const current = await tx.ingredient.findFirst({ where: { id, ownerId } });
+			if (!current) return null;
+
+			await ensureIngredientBaseline(tx, current);
+			const next = await tx.ingredient.update({ where: { id }, data, include: { portions: true } });
+			await recordIngredientRevision(tx, next, 'UPDATE', userId);
+			return next;
+		});
+
+		if (!updated) {
+			return reply.code(404).send({ error: 'Ingredient not found' });
+		}
+		return updated;
+	} catch (error) {
+		if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+			return reply.code(409).send({ error: 'Ingredient name already exists' });
+		}
+		throw error;
+	}
+}
+
+app.patch(
 	'/ingredients/:id',
 	{ preHandler: [(app as any).authenticate, requireAdmin] },
+	async (req: any, reply) => updateIngredient(req, reply, null)
+);
+
+app.get(
+	'/ingredients/:id/revisions',
+	{ preHandler: [(app as any).authenticate, requireAdmin] },
 	async (req, reply) => {
 		const Params = z.object({ id: z.string().min(1) });
 		const { id } = Params.parse(req.params);
 
+		const ingredient = await prisma.ingredient.findFirst({
+			where: { id, ownerId: null },
+			include: {
+				revisions: {
+					orderBy: { changedAt: 'asc' },
+					include: { changedBy: { select: { id: true, email: true } } },
+				},
+			},
+		});
+
+		if (!ingredient) {
+			return reply.code(404).send({ error: 'Ingredient not found' });
+		}
+
+		const recipeCount = await prisma.recipe.count({
+			where: { items: { some: { ingredientId: id } } },
+		});
+
+		const snapshots = ingredient.revisions.map(ingredientSnapshot);
+		const revisions = ingredient.revisions.map((revision, idx) => {
+			const current = snapshots[idx]!;
+			const previous = snapshots[idx - 1];
+			const changes = previous
+				? ingredientRevisionFields
+						.filter((field) => JSON.stringify(previous[field]) !== JSON.stringify(current[field]))
+						.map((field) => ({ field, from: previous[field], to: current[field] }))
+				: [];
+
+			return {
+				id: revision.id,
+				action: revision.action,
+				changedAt: revision.changedAt,
+				changedBy: revision.changedBy,
+				revertedFromId: revision.revertedFromId,
+				values: current,
+				changes,
+			};
+		});
+
+		return {
+			ingredientId: id,
+			recipeCount,
+			revisions: revisions.reverse(),
+		};
+	}
+);
+
+app.post(
+	'/ingredients/:id/revisions/:revisionId/revert',
+	{ preHandler: [(app as any).authenticate, requireAdmin] },
+	async (req: any, reply) => {
+		const Params = z.object({ id: z.string().min(1), revisionId: z.string().min(1) });
+		const { id, revisionId } = Params.parse(req.params);
+		const userId = req.user.sub as string;
+
+		const revision = await prisma.ingredientRevision.findFirst({
+			where: { id: revisionId, ingredientId: id, ingredient: { ownerId: null } },
+		});
+
+		if (!revision) {
+			return reply.code(404).send({ error: 'Revision not found' });
+		}
+
 		try {
-			await prisma.ingredient.delete({ where: { id } });
-			return reply.code(204).send();
+			return await prisma.$transaction(async (tx) => {
+				const reverted = await tx.ingredient.update({
+					where: { id },
+					data: ingredientSnapshot(revision),
+				});
+				await recordIngredientRevision(tx, reverted, 'REVERT', userId, revision.id);
+				return reverted;
+			});
 		} catch (error) {
-			if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
-				return reply.code(404).send({ error: 'Ingredient not found' });
+			if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+				return reply.code(409).send({ error: 'Another ingredient already uses this name' });
 			}
+			throw error;
+		}
+	}
+);
 
-			if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2003') {
-				return reply
-					.code(409)
-					.send({ error: 'Ingredient is already used in recipes and cannot be deleted' });
-			}
+async function deleteIngredient(req: any, reply: any, ownerId: string | null) {
+	const Params = z.object({ id: z.string().min(1) });
+	const { id } = Params.parse(req.params);
+
+	const ingredient = await prisma.ingredient.findFirst({
+		where: { id, ownerId },
+		select: { _count: { select: { recipeItems: true, plannedMeals: true } } },
+	});
+	if (!ingredient) {
+		return reply.code(404).send({ error: 'Ingredient not found' });
+	}
+	if (ingredient._count.recipeItems > 0 || ingredient._count.plannedMeals > 0) {
+		return reply.code(409).send({ error: 'Ingredient is already used in recipes or meal plans and cannot be deleted' });
+	}
+
+	// The foreign keys still guard against the ingredient being used in the meantime.
+	try {
+		const deleted = await prisma.ingredient.deleteMany({ where: { id, ownerId } });
+		if (deleted.count === 0) {
+			return reply.code(404).send({ error: 'Ingredient not found' });
+		}
+		return reply.code(204).send();
+	} catch (error) {
+		if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2003') {
+			return reply
+				.code(409)
+				.send({ error: 'Ingredient is already used in recipes or meal plans and cannot be deleted' });
+		}
+
+		throw error;
+	}
+}
+
+app.delete(
+	'/ingredients/:id',
+	{ preHandler: [(app as any).authenticate, requireAdmin] },
+	async (req, reply) => deleteIngredient(req, reply, null)
+);
+
+// Private ingredients: visible to and editable by their owner only, until an admin promotes them.
+app.get('/me/ingredients', { preHandler: (app as any).authenticate }, async (req: any) => {
+	const userId = req.user.sub as string;
+	const ingredients = await prisma.ingredient.findMany({
+		where: { ownerId: userId },
+		orderBy: { name: 'asc' },
+		include: ingredientListInclude,
+	});
+	return ingredients.map((ingredient) => ({ ...ingredient, units: availableUnits(ingredient) }));
+});
+
+app.post('/me/ingredients', { preHandler: (app as any).authenticate }, async (req: any, reply) => {
+	const body = ingredientBodySchema.parse(req.body);
+	const userId = req.user.sub as string;
+
+	try {
+		return await prisma.$transaction(async (tx) => {
+			const created = await tx.ingredient.create({
+				data: { ...ingredientCreateData(body), ownerScope: userId, owner: { connect: { id: userId } } },
+				include: { portions: true },
+			});
+			await recordIngredientRevision(tx, created, 'CREATE', userId);
+			return created;
+		});
+	} catch (error) {
+		if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+			return reply.code(409).send({ error: 'You already have an ingredient with this name' });
+		}
+		throw error;
+	}
+});
+
+app.patch('/me/ingredients/:id', { preHandler: (app as any).authenticate }, async (req: any, reply) =>
+	updateIngredient(req, reply, req.user.sub as string)
+);
+
+app.delete('/me/ingredients/:id', { preHandler: (app as any).authenticate }, async (req: any, reply) =>
+	deleteIngredient(req, reply, req.user.sub as string)
+);
+
+app.get(
+	'/admin/ingredients/private',
+	{ preHandler: [(app as any).authenticate, requireAdmin] },
+	async () => {
+		const ingredients = await prisma.ingredient.findMany({
+			where: { ownerId: { not: null } },
+			orderBy: [{ name: 'asc' }, { id: 'asc' }],
+			include: { owner: { select: { id: true, email: true } }, _count: { select: { recipeItems: true } } },
+		});
+		return ingredients.map(({ _count, ...ingredient }) => ({ ...ingredient, recipeItemCount: _count.recipeItems }));
+	}
+);
 
+// Moves a private ingredient into the shared catalogue, optionally renaming it to avoid a clash.
+app.post(
+	'/admin/ingredients/:id/promote',
+	{ preHandler: [(app as any).authenticate, requireAdmin] },
+	async (req: any, reply) => {
+		const Params = z.object({ id: z.string().min(1) });
+		const Body = z.object({ name: z.string().trim().min(1).optional() });
+		const { id } = Params.parse(req.params);
+		const body = Body.parse(req.body ?? {});
+		const userId = req.user.sub as string;
+
+		const ingredient = await prisma.ingredient.findFirst({ where: { id, ownerId: { not: null } } });
+		if (!ingredient) {
+			return reply.code(404).send({ error: 'Private ingredient not found' });
+		}
+
+		try {
+			return await prisma.$transaction(async (tx) => {
+				const promoted = await tx.ingredient.update({
+					where: { id },
+					data: { name: body.name ?? ingredient.name, ownerScope: '', owner: { disconnect: true } },
+					include: { portions: true },
+				});
+				await recordIngredientRevision(tx, promoted, 'PROMOTE', userId);
+				return promoted;
+			});
+		} catch (error) {
+			if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+				return reply.code(409).send({ error: 'A shared ingredient with this name already exists' });
+			}
 			throw error;
 		}
 	}
 );
 
-app.post('/recipes', { preHandler: (app as any).authenticate }, async (req: any, reply) => {
-	const Body = z.object({
-		name: z.string().min(1),
-		servings: z.number().int().min(1),
-		notes: z.string().max(5000).optional(),
-		items: z
-			.array(
-				z.object({
-					ingredientId: z.string().min(1),
-					quantityG: z.number().positive(),
-				})
-			)
-			.min(1),
+const recipeItemSchema = z.union([
+	z.object({
+		ingredientId: z.string().min(1),
+		quantityG: z.number().positive(),
+	}),
+	z.object({
+		ingredientId: z.string().min(1),
+		quantity: z.number().positive(),
+		unit: z.string().trim().min(1).max(32),
+	}),
+]);
+
+type RecipeItemInput = z.infer<typeof recipeItemSchema>;
+
+const recipeVisibilitySchema = z.enum(['PRIVATE', 'SHARED', 'PUBLIC']);
+
+const recipeStepSchema = z.object({
+	text: z.string().trim().min(1).max(2000),
+	durationSeconds: z
+		.number()
+		.int()
+		.min(1)
+		.max(24 * 60 * 60)
+		.nullable()
+		.optional(),
+	// Ingredients of the recipe this step uses
+	ingredientIds: z.array(z.string().min(1)).max(50).optional(),
+});
+
+type RecipeStepInput = z.infer<typeof recipeStepSchema>;
+
+const recipeMinutesSchema = z.number().int().min(0).max(2880).nullable().optional();
+
+const recipeBodySchema = z.object({
+	name: z.string().min(1),
+	servings: z.number().int().min(1),
+	notes: z.string().max(5000).optional(),
+	prepMinutes: recipeMinutesSchema,
+	cookMinutes: recipeMinutesSchema,
+	steps: z.array(recipeStepSchema).max(100).optional(),
+	visibility: recipeVisibilitySchema.optional(),
+	householdId: z.string().min(1).nullable().optional(),
+	slotTags: z.array(mealSlotSchema).max(20).optional(),
+	items: z.array(recipeItemSchema).min(1),
+});
+
+const recipeDetailInclude = {
+	items: { include: { ingredient: true } },
+	steps: { orderBy: { position: 'asc' } },
+	user: { select: { id: true, email: true } },
+	household: { select: { id: true, name: true } },
+	shares: { select: { user: { select: { id: true, email: true } } }, orderBy: { createdAt: 'asc' } },
+} as const;
+
+type RecipeWithItems = Prisma.RecipeGetPayload<{ include: typeof recipeDetailInclude }>;
+
+// Recipes the user may edit: their own and those of their households.
+function editableRecipesWhere(userId: string): Prisma.RecipeWhereInput {
+	return { OR: [{ userId }, { household: memberOf(userId) }] };
+}
+
+// Editable recipes, public ones, and shared ones the user was given access to.
+function accessibleRecipesWhere(userId: string): Prisma.RecipeWhereInput {
+	return {
+		OR: [
+			...(editableRecipesWhere(userId).OR as Prisma.RecipeWhereInput[]),
+			{ visibility: 'PUBLIC' },
+			{ visibility: 'SHARED', shares: { some: { userId } } },
+		],
+	};
+}
+
+type RecipeViewer = { userId: string; householdIds: Set<string> };
+
+async function loadRecipeViewer(userId: string): Promise<RecipeViewer> {
+	const memberships = await prisma.householdMember.findMany({
+		where: { userId },
+		select: { householdId: true },
+	});
+	return { userId, householdIds: new Set(memberships.map((m) => m.householdId)) };
+}
+
+function toRecipeSummary(recipe: RecipeWithItems, viewer: RecipeViewer) {
+	const isOwner = recipe.userId === viewer.userId;
+	return {
+		id: recipe.id,
+		name: recipe.name,
+		servings: recipe.servings,
+		notes: recipe.notes,
+		visibility: recipe.visibility,
+		owner: recipe.user,
+		household: recipe.household,
+		isOwner,
+		canEdit: isOwner || (recipe.householdId !== null && viewer.householdIds.has(recipe.householdId)),
+		forkedFromId: recipe.forkedFromId,
+		slotTags: recipe.slotTags,
+		...recipeDietaryTags(recipe.items),
+		// Only the owner sees who else has access.
+		sharedWith: isOwner ? recipe.shares.map((share) => share.user) : [],
+		createdAt: recipe.createdAt,
+		nutrition: recipeNutrition(recipe.items, recipe.servings),
+	};
+}
+
+// Shape version of `instructions` in the recipe detail. Bump it when the shape changes; clients
+// that do not know a version can still show `notes`.
+const RECIPE_INSTRUCTIONS_VERSION = 1;
+
+// With `servings`, quantities and totals are scaled to cook that many servings. Quantities are
+// rounded per unit; nutrition is computed from the unrounded amounts.
+function toRecipeDetail(recipe: RecipeWithItems, viewer: RecipeViewer, servings?: number) {
+	const factor = servings === undefined ? 1 : servings / recipe.servings;
+	const summary = toRecipeSummary(recipe, viewer);
+	const items = recipe.items.map((it) => ({
+		id: it.id,
+		ingredientId: it.ingredientId,
+		ingredientName: it.ingredient.name,
+		quantityG: factor === 1 ? it.quantityG : roundQuantity(it.quantityG * factor, 'g'),
+		quantity:
+			it.quantity === null || factor === 1 ? it.quantity : roundQuantity(it.quantity * factor, it.unit ?? 'g'),
+		unit: it.unit,
+		nutrition: roundNutrition(forQuantity(it.ingredient, it.quantityG * factor)),
+	}));
+	return {
+		...summary,
+		scaledServings: servings ?? null,
+		nutrition:
+			factor === 1
+				? summary.nutrition
+				: { ...summary.nutrition, total: roundNutrition(scale(recipeTotal(recipe.items), factor)) },
+		items,
+		instructions: {
+			version: RECIPE_INSTRUCTIONS_VERSION,
+			prepMinutes: recipe.prepMinutes,
+			cookMinutes: recipe.cookMinutes,
+			// Steps list the (scaled) items they use; references to ingredients removed later are dropped.
+			steps: recipe.steps.map((step) => ({
+				id: step.id,
+				position: step.position,
+				text: step.text,
+				durationSeconds: step.durationSeconds,
+				items: items
+					.filter((it) => step.ingredientIds.includes(it.ingredientId))
+					.map(({ nutrition: _nutrition, ...it }) => it),
+			})),
+		},
+	};
+}
+
+// Steps may only reference ingredients the recipe uses.
+function findUnknownStepIngredient(steps: RecipeStepInput[], ingredientIds: string[]): string | null {
+	const known = new Set(ingredientIds);
+	for (const step of steps) {
+		const unknown = step.ingredientIds?.find((id) => !known.has(id));
+		if (unknown) return unknown;
+	}
+	return null;
+}
+
+function stepCreateData(steps: RecipeStepInput[]) {
+	return steps.map((step, position) => ({
+		position,
+		text: step.text,
+		durationSeconds: step.durationSeconds ?? null,
+		ingredientIds: [...new Set(step.ingredientIds ?? [])],
+	}));
+}
+
+// Ingredient ids must exist and be visible to the user (shared or their own private ones).
+// Pass null to allow shared catalogue ingredients only.
+async function findUnknownIngredientId(userId: string | null, ingredientIds: string[]): Promise<string | null> {
+	const uniqueIds = [...new Set(ingredientIds)];
+	const ingredients = await prisma.ingredient.findMany({
+		where: { id: { in: uniqueIds }, ...visibleIngredientsWhere(userId) },
+		select: { id: true },
+	});
+	const known = new Set(ingredients.map((i) => i.id));
+	return uniqueIds.find((id) => !known.has(id)) ?? null;
+}
+
+type ResolvedRecipeItem = {
+	ingredientId: string;
+	quantityG: number;
+	quantity: number | null;
+	unit: string | null;
+};
+
+// Converts household units to grams; items given in grams directly keep no original unit.
+// Also reports which of the items use the user's private ingredients, and the recipe's dietary tags.
+async function resolveRecipeItems(
+	userId: string,
+	items: RecipeItemInput[]
+): Promise<
+	{ error: string } | { items: ResolvedRecipeItem[]; privateIngredientNames: string[]; dietaryTags: DietaryTags }
+> {
+	const uniqueIds = [...new Set(items.map((it) => it.ingredientId))];
+	const ingredients = await prisma.ingredient.findMany({
+		where: { id: { in: uniqueIds }, ...visibleIngredientsWhere(userId) },
+		include: { portions: true },
+	});
+	const ingredientById = new Map(ingredients.map((i) => [i.id, i]));
+
+	const resolved: ResolvedRecipeItem[] = [];
+	for (const it of items) {
+		const ingredient = ingredientById.get(it.ingredientId);
+		if (!ingredient) {
+			return { error: `Unknown ingredientId: ${it.ingredientId}` };
+		}
+
+		if ('quantityG' in it) {
+			resolved.push({ ingredientId: it.ingredientId, quantityG: it.quantityG, quantity: null, unit: null });
+			continue;
+		}
+
+		const unit = normalizeUnit(it.unit);
+		const quantityG = toGrams(ingredient, it.quantity, unit);
+		if (quantityG === null) {
+			return { error: `Unit "${unit}" is not available for ${ingredient.name}` };
+		}
+		resolved.push({ ingredientId: it.ingredientId, quantityG, quantity: it.quantity, unit });
+	}
+
+	const privateIngredientNames = ingredients.filter((i) => i.ownerId !== null).map((i) => i.name);
+	const dietaryTags = recipeDietaryTags(resolved.map((it) => ({ ingredient: ingredientById.get(it.ingredientId)! })));
+	return { items: resolved, privateIngredientNames, dietaryTags };
+}
+
+// Private ingredients are visible to their owner only, so recipes using them cannot be shared.
+function privateIngredientsError(names: string[]): string {
+	return `Recipes using private ingredients cannot be shared or published: ${names.join(', ')}`;
+}
+
+type PersonRestrictions = DietaryRestrictions & { userId: string; email: string };
+
+// Users without restrictions are left out.
+async function loadDietaryRestrictions(userIds: string[]): Promise<PersonRestrictions[]> {
+	const profiles = await prisma.userProfile.findMany({
+		where: {
+			userId: { in: userIds },
+			OR: [{ avoidAllergens: { isEmpty: false } }, { requiredDiets: { isEmpty: false } }],
+		},
+		select: {
+			userId: true,
+			avoidAllergens: true,
+			requiredDiets: true,
+			strictDiet: true,
+			user: { select: { email: true } },
+		},
+	});
+	return profiles.map((profile) => ({
+		userId: profile.userId,
+		email: profile.user.email,
+		avoidAllergens: profile.avoidAllergens,
+		requiredDiets: profile.requiredDiets,
+		strict: profile.strictDiet,
+	}));
+}
+
+async function isHouseholdMember(userId: string, householdId: string): Promise<boolean> {
+	const member = await prisma.householdMember.findUnique({
+		where: { householdId_userId: { householdId, userId } },
+		select: { userId: true },
+	});
+	return member !== null;
+}
+
+app.post('/recipes', { preHandler: (app as any).authenticate }, async (req: any, reply) => {
+	const body = recipeBodySchema.parse(req.body);
+	const userId = req.user.sub as string;
+	const notes = body.notes?.trim() || null;
+
+	const resolved = await resolveRecipeItems(userId, body.items);
+	if ('error' in resolved) {
+		return reply.status(400).send({ error: resolved.error });
+	}
+
+	const visibility = body.visibility ?? 'PRIVATE';
+	const householdId = body.householdId ?? null;
+	if (householdId && !(await isHouseholdMember(userId, householdId))) {
+		return reply.status(400).send({ error: 'Household not found' });
+	}
+	if ((visibility !== 'PRIVATE' || householdId) && resolved.privateIngredientNames.length > 0) {
+		return reply.status(400).send({ error: privateIngredientsError(resolved.privateIngredientNames) });
+	}
+
+	const unknownStepIngredient = findUnknownStepIngredient(
+		body.steps ?? [],
+		resolved.items.map((it) => it.ingredientId)
+	);
+	if (unknownStepIngredient) {
+		return reply.status(400).send({ error: `Step uses an ingredient the recipe does not: ${unknownStepIngredient}` });
+	}
+
+	const restrictions = (await loadDietaryRestrictions([userId]))[0] ?? noRestrictions;
+	const dietWarnings = dietaryConflicts(body.name, resolved.dietaryTags, restrictions);
+	if (dietWarnings.length > 0 && restrictions.strict) {
+		return reply
+			.status(400)
+			.send({ error: `Recipe conflicts with your dietary restrictions: ${dietWarnings.join('; ')}`, dietWarnings });
+	}
+
+	const created = await prisma.$transaction(async (tx) => {
+		return tx.recipe.create({
+			data: {
+				userId,
+				name: body.name,
+				servings: body.servings,
+				notes,
+				visibility,
+				householdId,
+				slotTags: [...new Set(body.slotTags ?? [])],
+				prepMinutes: body.prepMinutes ?? null,
+				cookMinutes: body.cookMinutes ?? null,
+				items: { create: resolved.items },
+				steps: { create: stepCreateData(body.steps ?? []) },
+			},
+			include: recipeDetailInclude,
+		});
+	});
+
+	const { items, user: _user, shares: _shares, household: _household, ...recipe } = created;
+
+	return {
+		recipe: { ...recipe, items: items.map(({ ingredient: _ingredient, ...it }) => it) },
+		nutrition: recipeNutrition(items, created.servings),
+		dietWarnings,
+	};
+});
+
+/**
+ * Lists recipes: `own` (default), those of the user's `household`s, those `shared` with the
+ * user by others, or `all` of these, which is what the planner offers.
+ */
+app.get('/recipes', { preHandler: (app as any).authenticate }, async (req: any) => {
+	const Query = z.object({ scope: z.enum(['own', 'household', 'shared', 'all']).default('own') });
+	const { scope } = Query.parse(req.query);
+	const userId = req.user.sub as string;
+
+	const householdRecipes: Prisma.RecipeWhereInput = {
+		userId: { not: userId },
+		household: memberOf(userId),
+	};
+	const sharedWithUser: Prisma.RecipeWhereInput = {
+		userId: { not: userId },
+		visibility: 'SHARED',
+		shares: { some: { userId } },
+		NOT: { household: memberOf(userId) },
+	};
+	const where: Prisma.RecipeWhereInput =
+		scope === 'own'
+			? { userId }
+			: scope === 'household'
+				? householdRecipes
+				: scope === 'shared'
+					? sharedWithUser
+					: { OR: [{ userId }, householdRecipes, sharedWithUser] };
+
+	const [recipes, viewer] = await Promise.all([
+		prisma.recipe.findMany({
+			where,
+			orderBy: { createdAt: 'desc' },
+			include: recipeDetailInclude,
+		}),
+		loadRecipeViewer(userId),
+	]);
+
+	return recipes.map((r) => toRecipeSummary(r, viewer));
+});
+
+// Public recipe library, newest first, paged with an opaque cursor (the last recipe id).
+app.get('/recipes/library', { preHandler: (app as any).authenticate }, async (req: any) => {
+	const Query = z.object({
+		q: z.string().trim().max(100).optional(),
+		limit: z.coerce.number().int().min(1).max(50).default(20),
+		cursor: z.string().min(1).optional(),
+	});
+	const query = Query.parse(req.query);
+	const userId = req.user.sub as string;
+
+	const recipes = await prisma.recipe.findMany({
+		where: {
+			visibility: 'PUBLIC',
+			...(query.q ? { name: { contains: query.q, mode: 'insensitive' } } : {}),
+		},
+		orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+		take: query.limit + 1,
+		...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
+		include: recipeDetailInclude,
+	});
+
+	const page = recipes.slice(0, query.limit);
+	const viewer = await loadRecipeViewer(userId);
+	return {
+		items: page.map((r) => toRecipeSummary(r, viewer)),
+		nextCursor: recipes.length > query.limit ? (page[page.length - 1]?.id ?? null) : null,
+	};
+});
+
+app.get('/recipes/:id', { preHandler: (app as any).authenticate }, async (req: any, reply) => {
+	const Params = z.object({ id: z.string().min(1) });
+	const Query = z.object({ servings: z.coerce.number().positive().max(100).optional() });
+	const { id } = Params.parse(req.params);
+	const { servings } = Query.parse(req.query);
+	const userId = req.user.sub as string;
+
+	const recipe = await prisma.recipe.findFirst({
+		where: { id, ...accessibleRecipesWhere(userId) },
+		include: recipeDetailInclude,
+	});
+
+	if (!recipe) {
+		return reply.code(404).send({ error: 'Recipe not found' });
+	}
+
+	return toRecipeDetail(recipe, await loadRecipeViewer(userId), servings);
+});
+
+async function updateRecipe(req: any, reply: any, partial: boolean) {
+	const Params = z.object({ id: z.string().min(1) });
+	const { id } = Params.parse(req.params);
+	const body = partial ? recipeBodySchema.partial().parse(req.body) : recipeBodySchema.parse(req.body);
+	const userId = req.user.sub as string;
+
+	const existing = await prisma.recipe.findFirst({
+		where: { id, ...editableRecipesWhere(userId) },
+		select: { id: true, userId: true, name: true, visibility: true, householdId: true },
+	});
+
+	if (!existing) {
+		return reply.code(404).send({ error: 'Recipe not found' });
+	}
+
+	// Household members may edit the recipe, but only its owner decides who can see it.
+	const householdId = body.householdId === undefined ? existing.householdId : body.householdId;
+	const visibility = body.visibility ?? existing.visibility;
+	if (
+		existing.userId !== userId &&
+		(householdId !== existing.householdId || visibility !== existing.visibility)
+	) {
+		return reply.code(403).send({ error: 'Only the recipe owner can change its visibility or household' });
+	}
+	if (householdId && householdId !== existing.householdId && !(await isHouseholdMember(userId, householdId))) {
+		return reply.code(400).send({ error: 'Household not found' });
+	}
+
+	let items: ResolvedRecipeItem[] | null = null;
+	let privateIngredientNames: string[];
+	let dietWarnings: string[] = [];
+	if (body.items) {
+		const resolved = await resolveRecipeItems(userId, body.items);
+		if ('error' in resolved) {
+			return reply.status(400).send({ error: resolved.error });
+		}
+		items = resolved.items;
+		privateIngredientNames = resolved.privateIngredientNames;
+
+		// New ingredients are checked against the editor's restrictions, as when creating a recipe.
+		const restrictions = (await loadDietaryRestrictions([userId]))[0] ?? noRestrictions;
+		dietWarnings = dietaryConflicts(body.name ?? existing.name, resolved.dietaryTags, restrictions);
+		if (dietWarnings.length > 0 && restrictions.strict) {
+			return reply
+				.status(400)
+				.send({ error: `Recipe conflicts with your dietary restrictions: ${dietWarnings.join('; ')}`, dietWarnings });
+		}
+	} else {
+		const privateItems = await prisma.recipeItem.findMany({
+			where: { recipeId: id, ingredient: { ownerId: { not: null } } },
+			select: { ingredient: { select: { name: true } } },
+		});
+		privateIngredientNames = privateItems.map((it) => it.ingredient.name);
+	}
+
+	// Omitting visibility or household keeps the current one, even on PUT, so saving a form never unshares.
+	if ((visibility !== 'PRIVATE' || householdId) && privateIngredientNames.length > 0) {
+		return reply.status(400).send({ error: privateIngredientsError([...new Set(privateIngredientNames)]) });
+	}
+
+	// Likewise, clients that do not send steps keep the current ones.
+	if (body.steps) {
+		const ingredientIds = items
+			? items.map((it) => it.ingredientId)
+			: (await prisma.recipeItem.findMany({ where: { recipeId: id }, select: { ingredientId: true } })).map(
+					(it) => it.ingredientId
+				);
+		const unknownStepIngredient = findUnknownStepIngredient(body.steps, ingredientIds);
+		if (unknownStepIngredient) {
+			return reply.status(400).send({ error: `Step uses an ingredient the recipe does not: ${unknownStepIngredient}` });
+		}
+	}
+
+	const updated = await prisma.$transaction(async (tx) => {
+		if (items) {
+			await tx.recipeItem.deleteMany({ where: { recipeId: id } });
+			await tx.recipeItem.createMany({
+				data: items.map((it) => ({ recipeId: id, ...it })),
+			});
+		}
+		if (body.steps) {
+			await tx.recipeStep.deleteMany({ where: { recipeId: id } });
+			await tx.recipeStep.createMany({
+				data: stepCreateData(body.steps).map((step) => ({ recipeId: id, ...step })),
+			});
+		}
+
+		return tx.recipe.update({
+			where: { id },
+			data: {
+				...(body.name !== undefined ? { name: body.name } : {}),
+				...(body.servings !== undefined ? { servings: body.servings } : {}),
+				...(partial && body.notes === undefined ? {} : { notes: body.notes?.trim() || null }),
+				visibility,
+				householdId,
+				...(body.slotTags !== undefined ? { slotTags: [...new Set(body.slotTags)] } : {}),
+				...(body.prepMinutes !== undefined ? { prepMinutes: body.prepMinutes } : {}),
+				...(body.cookMinutes !== undefined ? { cookMinutes: body.cookMinutes } : {}),
+			},
+			include: recipeDetailInclude,
+		});
+	});
+
+	return { ...toRecipeDetail(updated, await loadRecipeViewer(userId)), dietWarnings };
+}
+
+app.put('/recipes/:id', { preHandler: (app as any).authenticate }, async (req: any, reply) => {
+	return updateRecipe(req, reply, false);
+});
+
+app.patch('/recipes/:id', { preHandler: (app as any).authenticate }, async (req: any, reply) => {
+	return updateRecipe(req, reply, true);
+});
+
+// Replaces the list of users a recipe is shared with. Shares only grant access while the
+// recipe's visibility is SHARED.
+app.put('/recipes/:id/shares', { preHandler: (app as any).authenticate }, async (req: any, reply) => {
+	const Params = z.object({ id: z.string().min(1) });
+	const Body = z.object({ emails: z.array(z.string().trim().email()).max(100) });
+	const { id } = Params.parse(req.params);
+	const body = Body.parse(req.body);
+	const userId = req.user.sub as string;
+
+	const recipe = await prisma.recipe.findFirst({ where: { id, userId }, select: { id: true } });
+	if (!recipe) {
+		return reply.code(404).send({ error: 'Recipe not found' });
+	}
+
+	const emails = [...new Set(body.emails)];
+	const users = await prisma.user.findMany({
+		where: { email: { in: emails } },
+		select: { id: true, email: true },
+	});
+	const known = new Set(users.map((u) => u.email));
+	const unknown = emails.filter((email) => !known.has(email));
+	if (unknown.length > 0) {
+		return reply.code(400).send({ error: `No user with email: ${unknown.join(', ')}` });
+	}
+
+	const shareWith = users.filter((u) => u.id !== userId);
+	await prisma.$transaction([
+		prisma.recipeShare.deleteMany({ where: { recipeId: id } }),
+		prisma.recipeShare.createMany({ data: shareWith.map((u) => ({ recipeId: id, userId: u.id })) }),
+	]);
+
+	return { sharedWith: shareWith };
+});
+
+// Copies an accessible recipe into the user's own recipes. The copy is private and independent.
+app.post('/recipes/:id/fork', { preHandler: (app as any).authenticate }, async (req: any, reply) => {
+	const Params = z.object({ id: z.string().min(1) });
+	const Body = z.object({ name: z.string().trim().min(1).optional() });
+	const { id } = Params.parse(req.params);
+	const body = Body.parse(req.body ?? {});
+	const userId = req.user.sub as string;
+
+	const source = await prisma.recipe.findFirst({
+		where: { id, ...accessibleRecipesWhere(userId) },
+		include: { items: true, steps: { orderBy: { position: 'asc' } } },
+	});
+	if (!source) {
+		return reply.code(404).send({ error: 'Recipe not found' });
+	}
+
+	const fork = await prisma.recipe.create({
+		data: {
+			userId,
+			name: body.name ?? source.name,
+			servings: source.servings,
+			notes: source.notes,
+			slotTags: source.slotTags,
+			prepMinutes: source.prepMinutes,
+			cookMinutes: source.cookMinutes,
+			forkedFromId: source.id,
+			items: {
+				create: source.items.map((it) => ({
+					ingredientId: it.ingredientId,
+					quantityG: it.quantityG,
+					quantity: it.quantity,
+					unit: it.unit,
+				})),
+			},
+			steps: {
+				create: source.steps.map((step) => ({
+					position: step.position,
+					text: step.text,
+					durationSeconds: step.durationSeconds,
+					ingredientIds: step.ingredientIds,
+				})),
+			},
+		},
+		include: recipeDetailInclude,
+	});
+
+	return toRecipeDetail(fork, await loadRecipeViewer(userId));
+});
+
+app.delete('/recipes/:id', { preHandler: (app as any).authenticate }, async (req: any, reply) => {
+	const Params = z.object({ id: z.string().min(1) });
+	const { id } = Params.parse(req.params);
+	const userId = req.user.sub as string;
+	// Household owners may clean up recipes of their household; members only their own.
+	const deletable: Prisma.RecipeWhereInput = {
+		id,
+		OR: [{ userId }, { household: { members: { some: { userId, role: 'OWNER' } } } }],
+	};
+
+	const recipe = await prisma.recipe.findFirst({
+		where: deletable,
+		select: { _count: { select: { plannedMeals: true } } },
+	});
+	if (!recipe) {
+		return reply.code(404).send({ error: 'Recipe not found' });
+	}
+	if (recipe._count.plannedMeals > 0) {
+		return reply.code(409).send({ error: 'Recipe is used in meal plans and cannot be deleted' });
+	}
+
+	// The foreign key still guards against the recipe being planned in the meantime.
+	try {
+		const { count } = await prisma.recipe.deleteMany({ where: deletable });
+		if (count === 0) {
+			return reply.code(404).send({ error: 'Recipe not found' });
+		}
+		return reply.code(204).send();
+	} catch (error) {
+		if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2003') {
+			return reply
+				.code(409)
+				.send({ error: 'Recipe is used in meal plans and cannot be deleted' });
+		}
+
+		throw error;
+	}
+});
+
+const mealPlanInclude = {
+	user: { select: { id: true, email: true } },
+	meals: {
+		include: {
+			recipe: { include: recipeDetailInclude },
+			ingredient: true,
+			attendees: {
+				include: { user: { select: { id: true, email: true } } },
+				orderBy: { user: { email: 'asc' } },
+			},
+			batch: { select: { id: true, cookOn: true, cookedAt: true } },
+		},
+		orderBy: { position: 'asc' },
+	},
+} as const;
+
+type MealPlanWithMeals = Prisma.MealPlanGetPayload<{ include: typeof mealPlanInclude }>;
+
+type PlannedMealInput = {
+	date: Date;
+	slot: string;
+	position: number;
+	recipeId: string | null;
+	ingredientId: string | null;
+	servings: number;
+	quantityG: number | null;
+	attendees: PlannedMealAttendeeInput[];
+	cookGroup: string | null;
+	batchId: string | null;
+};
+
+type PlannedMealAttendeeInput = { userId: string; servings: number };
+
+// Templates do not keep attendees: household membership may change before they are applied.
+// Copies and templates never keep batches, which are cooked on a specific date.
+type RelativePlanEntry = Omit<PlannedMealInput, 'date' | 'attendees' | 'batchId'> & {
+	dayOffset: number;
+	attendees?: PlannedMealAttendeeInput[];
+};
+
+// Resolves the plan a request targets; null when the user is not a member of the household.
+async function resolvePlanScope(userId: string, householdId: string | undefined): Promise<PlanScope | null> {
+	if (!householdId) return { userId, householdId: null };
+	return (await isHouseholdMember(userId, householdId)) ? { userId, householdId } : null;
+}
+
+const householdIdSchema = z.string().min(1).optional();
+
+const plannedMealAttendeeSchema = z.object({
+	userId: z.string().min(1),
+	servings: z.number().positive().max(100),
+});
+
+// Client-chosen key linking the meals of one cooking session within a plan.
+const cookGroupSchema = z.string().trim().min(1).max(64);
+
+function attendeeServings(attendees: PlannedMealAttendeeInput[]): number {
+	return attendees.reduce((total, a) => total + a.servings, 0);
+}
+
+async function householdMemberIds(householdId: string): Promise<Set<string>> {
+	const members = await prisma.householdMember.findMany({
+		where: { householdId },
+		select: { userId: true },
+	});
+	return new Set(members.map((m) => m.userId));
+}
+
+/**
+ * Checks each meal against the dietary restrictions of whoever eats it: its attendees, or for
+ * meals without attendees everyone the plan feeds. Conflicts are warnings unless one of the
+ * people concerned asked for strict checking.
+ */
+async function findPlanDietaryConflicts(
+	scope: PlanScope,
+	meals: PlannedMealInput[]
+): Promise<{ warnings: string[]; strict: boolean }> {
+	const eaterIds = scope.householdId ? [...(await householdMemberIds(scope.householdId))] : [scope.userId];
+	const people = await loadDietaryRestrictions(eaterIds);
+	if (people.length === 0) return { warnings: [], strict: false };
+
+	const recipeIds = [...new Set(meals.flatMap((meal) => (meal.recipeId ? [meal.recipeId] : [])))];
+	const ingredientIds = [...new Set(meals.flatMap((meal) => (meal.ingredientId ? [meal.ingredientId] : [])))];
+	const tagSelect = { allergens: true, dietTags: true } as const;
+	const [recipes, ingredients] = await Promise.all([
+		prisma.recipe.findMany({
+			where: { id: { in: recipeIds } },
+			select: { id: true, name: true, items: { select: { ingredient: { select: tagSelect } } } },
+		}),
+		prisma.ingredient.findMany({
+			where: { id: { in: ingredientIds } },
+			select: { id: true, name: true, ...tagSelect },
+		}),
+	]);
+	const foodById = new Map<string, { name: string; tags: DietaryTags }>([
+		...recipes.map((recipe) => [recipe.id, { name: recipe.name, tags: recipeDietaryTags(recipe.items) }] as const),
+		...ingredients.map((ingredient) => [ingredient.id, { name: ingredient.name, tags: ingredient }] as const),
+	]);
+
+	const warnings = new Set<string>();
+	let strict = false;
+	for (const meal of meals) {
+		const food = foodById.get((meal.recipeId ?? meal.ingredientId)!);
+		if (!food) continue;
+		const attendeeIds = new Set(meal.attendees.filter((a) => a.servings > 0).map((a) => a.userId));
+		for (const person of people) {
+			if (meal.attendees.length > 0 && !attendeeIds.has(person.userId)) continue;
+			const conflicts = dietaryConflicts(food.name, food.tags, person);
+			const prefix = `${formatDateOnly(meal.date)} ${meal.slot}${scope.householdId ? ` (${person.email})` : ''}`;
+			for (const conflict of conflicts) warnings.add(`${prefix}: ${conflict}`);
+			if (conflicts.length > 0 && person.strict) strict = true;
+		}
+	}
+	return { warnings: [...warnings], strict };
+}
+
+// Meals served from a batch must use its recipe, come after it is cooked and together not
+// exceed its yield. The week's meals replace the saved ones; portions of other weeks still count.
+async function findBatchAssignmentError(
+	scope: PlanScope,
+	weekStart: Date,
+	meals: PlannedMealInput[]
+): Promise<string | null> {
+	const batchIds = [...new Set(meals.flatMap((meal) => (meal.batchId ? [meal.batchId] : [])))];
+	if (batchIds.length === 0) return null;
+
+	const batches = await prisma.cookingBatch.findMany({
+		where: { id: { in: batchIds }, ...planScopeWhere(scope) },
+		include: {
+			recipe: { select: { name: true } },
+			meals: { select: { servings: true, plan: { select: { weekStart: true } } } },
+		},
+	});
+	const batchesById = new Map(batches.map((batch) => [batch.id, batch]));
+
+	for (const meal of meals) {
+		if (!meal.batchId) continue;
+		const batch = batchesById.get(meal.batchId);
+		if (!batch) {
+			return `Cooking batch not found: ${meal.batchId}`;
+		}
+		if (batch.recipeId !== meal.recipeId) {
+			return `Meals from the ${batch.recipe.name} batch must use that recipe`;
+		}
+		if (meal.date.getTime() < batch.cookOn.getTime()) {
+			return `${formatDateOnly(meal.date)} is before the ${batch.recipe.name} batch is cooked on ${formatDateOnly(batch.cookOn)}`;
+		}
+	}
+
+	for (const batch of batches) {
+		const elsewhere = batch.meals
+			.filter((meal) => meal.plan.weekStart.getTime() !== weekStart.getTime())
+			.reduce((total, meal) => total + meal.servings, 0);
+		const assigned = meals
+			.filter((meal) => meal.batchId === batch.id)
+			.reduce((total, meal) => total + meal.servings, elsewhere);
+		if (assigned > batch.servings + 1e-9) {
+			return `The ${batch.recipe.name} batch of ${formatDateOnly(batch.cookOn)} yields ${batch.servings} servings, but ${round1(assigned)} are assigned`;
+		}
+	}
+
+	return null;
+}
+
+type PlanMealsCheck = { error: string; dietWarnings?: string[] } | { error: null; dietWarnings: string[] };
+
+/**
+ * Checks a week's meals before they are saved, whether they were typed in, copied from another
+ * week or taken from a template. Dietary conflicts only fail the check in strict mode; otherwise
+ * they come back as warnings.
+ */
+async function checkPlanMeals(
+	scope: PlanScope,
+	weekStart: Date,
+	meals: PlannedMealInput[],
+	context: Awaited<ReturnType<typeof loadPlanContext>>
+): Promise<PlanMealsCheck> {
+	const activeSlots = new Set(context.slots.filter((slot) => slot.active).map((slot) => slot.key));
+	const inactive = meals.find((meal) => !activeSlots.has(meal.slot));
+	if (inactive) {
+		return { error: `Unknown or inactive meal slot: ${inactive.slot}` };
+	}
+
+	const attendeeIds = new Set(meals.flatMap((meal) => meal.attendees.map((a) => a.userId)));
+	if (attendeeIds.size > 0) {
+		if (!scope.householdId) {
+			return { error: 'Attendees can only be assigned in household meal plans' };
+		}
+		const memberIds = await householdMemberIds(scope.householdId);
+		const stranger = [...attendeeIds].find((id) => !memberIds.has(id));
+		if (stranger) {
+			return { error: `Attendee is not a household member: ${stranger}` };
+		}
+	}
+
+	const recipeIds = [...new Set(meals.flatMap((meal) => (meal.recipeId ? [meal.recipeId] : [])))];
+
+	if (recipeIds.length > 0) {
+		const recipes = await prisma.recipe.findMany({
+			where: { id: { in: recipeIds }, ...accessibleRecipesWhere(scope.userId) },
+			select: { id: true },
+		});
+		if (recipes.length !== recipeIds.length) {
+			return { error: 'One or more recipes were not found for this user' };
+		}
+	}
+
+	const batchError = await findBatchAssignmentError(scope, weekStart, meals);
+	if (batchError) {
+		return { error: batchError };
+	}
+
+	// Other household members cannot see the user's private ingredients.
+	const unknownIngredientId = await findUnknownIngredientId(
+		scope.householdId ? null : scope.userId,
+		meals.flatMap((meal) => (meal.ingredientId ? [meal.ingredientId] : []))
+	);
+	if (unknownIngredientId) {
+		return { error: `Unknown ingredientId: ${unknownIngredientId}` };
+	}
+
+	const diet = await findPlanDietaryConflicts(scope, meals);
+	if (diet.strict) {
+		return {
+			error: `Meal plan conflicts with dietary restrictions: ${diet.warnings.join('; ')}`,
+			dietWarnings: diet.warnings,
+		};
+	}
+
+	return { error: null, dietWarnings: diet.warnings };
+}
+
+async function writePlanMeals(scope: PlanScope, weekStart: Date, meals: PlannedMealInput[]) {
+	return prisma.$transaction(async (tx) => {
+		const existing = await tx.mealPlan.findFirst({
+			where: { ...planScopeWhere(scope), weekStart },
+			select: { id: true },
+		});
+
+		const planId =
+			existing?.id ??
+			(
+				await tx.mealPlan.create({
+					data: { userId: scope.userId, householdId: scope.householdId, weekStart },
+					select: { id: true },
+				})
+			).id;
+
+		// Meals are rewritten on every save; entries that are still planned keep their cooked state
+		// and their food log entries.
+		const previous = await tx.plannedMeal.findMany({
+			where: { planId },
+			select: { id: true, date: true, slot: true, recipeId: true, ingredientId: true, cookedAt: true },
+		});
+		const previousIds = previous.map((meal) => meal.id);
+		const mealKey = (meal: Pick<PlannedMealInput, 'date' | 'slot' | 'recipeId' | 'ingredientId'>) =>
+			`${formatDateOnly(meal.date)}:${meal.slot}:${meal.recipeId ?? ''}:${meal.ingredientId ?? ''}`;
+
+		for (const { attendees, ...meal } of meals) {
+			const match = previous.findIndex((p) => mealKey(p) === mealKey(meal));
+			const kept = match >= 0 ? previous.splice(match, 1)[0] : undefined;
+			const created = await tx.plannedMeal.create({
+				data: { planId, ...meal, cookedAt: kept?.cookedAt ?? null, attendees: { create: attendees } },
+				select: { id: true },
+			});
+			if (kept) {
+				await tx.foodLogEntry.updateMany({
+					where: { plannedMealId: kept.id },
+					data: { plannedMealId: created.id },
+				});
+			}
+		}
+
+		await tx.plannedMeal.deleteMany({ where: { id: { in: previousIds } } });
+
+		return tx.mealPlan.findUniqueOrThrow({
+			where: { id: planId },
+			include: mealPlanInclude,
+		});
+	});
+}
+
+function plannedMealNutrition(meal: MealPlanWithMeals['meals'][number]): Nutrition {
+	if (meal.recipe) {
+		return scale(recipeTotal(meal.recipe.items), meal.servings / meal.recipe.servings);
+	}
+	if (meal.ingredient && meal.quantityG !== null) {
+		return forQuantity(meal.ingredient, meal.quantityG);
+	}
+	return zeroNutrition;
+}
+
+type MealEater = { userId: string; email: string; servings: number };
+
+// Attendees of a meal; in a personal plan an unassigned meal is eaten entirely by the plan's user.
+// Meals of a household plan without attendees count for nobody.
+function mealEaters(plan: MealPlanWithMeals, meal: MealPlanWithMeals['meals'][number]): MealEater[] {
+	if (meal.attendees.length > 0) {
+		return meal.attendees.map((a) => ({ userId: a.userId, email: a.user.email, servings: a.servings }));
+	}
+	return plan.householdId ? [] : [{ userId: plan.user.id, email: plan.user.email, servings: meal.servings }];
+}
+
+async function loadTargetProfile(userId: string): Promise<TargetProfile | null> {
+	const profile = await prisma.userProfile.findUnique({
+		where: { userId },
+		include: { weekdayTargets: { orderBy: { weekday: 'asc' } } },
+	});
+
+	if (!profile) {
+		return null;
+	}
+
+	return {
+		tolerancePct: profile.targetTolerancePct,
+		daily: {
+			kcal: profile.kcalTarget,
+			protein: profile.proteinTarget,
+			carbs: profile.carbsTarget,
+			fat: profile.fatTarget,
+		},
+		weekdays: profile.weekdayTargets.map((w) => ({
+			weekday: w.weekday,
+			kcal: w.kcal,
+			protein: w.protein,
+			carbs: w.carbs,
+			fat: w.fat,
+		})),
+	};
+}
+
+// Household plans use the default meal slots so every member plans against the same grid.
+async function loadPlanSlots(scope: PlanScope) {
+	return scope.householdId
+		? { customized: false, slots: await loadDefaultMealSlots() }
+		: loadMealSlots(scope.userId);
+}
+
+async function loadPlanContext(scope: PlanScope) {
+	const [targets, { slots }] = await Promise.all([loadTargetProfile(scope.userId), loadPlanSlots(scope)]);
+	return { scope, targets, slots };
+}
+
+function toMealPlanResponse(
+	plan: MealPlanWithMeals | null,
+	weekStart: Date,
+	{ scope, targets, slots }: { scope: PlanScope; targets: TargetProfile | null; slots: MealSlotConfig[] }
+) {
+	const meals = (plan?.meals ?? [])
+		.map((meal) => ({
+			id: meal.id,
+			date: formatDateOnly(meal.date),
+			slot: meal.slot,
+			position: meal.position,
+			cookedAt: meal.cookedAt,
+			type: meal.recipe ? ('recipe' as const) : ('ingredient' as const),
+			recipeId: meal.recipeId,
+			ingredientId: meal.ingredientId,
+			name: meal.recipe?.name ?? meal.ingredient?.name ?? '',
+			servings: meal.servings,
+			quantityG: meal.quantityG,
+			attendees: meal.attendees.map((a) => ({ userId: a.userId, email: a.user.email, servings: a.servings })),
+			cookGroup: meal.cookGroup,
+			batch: meal.batch
+				? { id: meal.batch.id, cookOn: formatDateOnly(meal.batch.cookOn), cooked: meal.batch.cookedAt !== null }
+				: null,
+			eaters: plan ? mealEaters(plan, meal) : [],
+			nutrition: plannedMealNutrition(meal),
+		}))
+		.sort((a, b) => {
+			const dateCompare = a.date.localeCompare(b.date);
+			if (dateCompare !== 0) return dateCompare;
+			const slotCompare = slotRank(a.slot, slots) - slotRank(b.slot, slots);
+			if (slotCompare !== 0) return slotCompare;
+			return a.position - b.position;
+		});
+
+	// The earliest meal of a cook group cooks every serving of the group; the later ones are leftovers.
+	const groupServings = new Map<string, number>();
+	for (const meal of meals) {
+		if (meal.cookGroup) groupServings.set(meal.cookGroup, (groupServings.get(meal.cookGroup) ?? 0) + meal.servings);
+	}
+	const cookedGroups = new Set<string>();
+	const mealsWithCooking = meals.map((meal) => {
+		const leftover = meal.cookGroup !== null && cookedGroups.has(meal.cookGroup);
+		if (meal.cookGroup) cookedGroups.add(meal.cookGroup);
+		return {
+			...meal,
+			leftover,
+			cookServings: meal.cookGroup && !leftover ? (groupServings.get(meal.cookGroup) ?? meal.servings) : null,
+		};
+	});
+
+	const cells: Array<{ date: string; slot: string; items: typeof mealsWithCooking }> = [];
+	for (const meal of mealsWithCooking) {
+		const last = cells[cells.length - 1];
+		if (last && last.date === meal.date && last.slot === meal.slot) {
+			last.items.push(meal);
+		} else {
+			cells.push({ date: meal.date, slot: meal.slot, items: [meal] });
+		}
+	}
+
+	const people = new Map<string, string>();
+	for (const meal of meals) {
+		for (const eater of meal.eaters) people.set(eater.userId, eater.email);
+	}
+	const sortedPeople = [...people].sort(([, a], [, b]) => a.localeCompare(b));
+
+	const days = Array.from({ length: 7 }, (_, idx) => {
+		const day = addDaysUtc(weekStart, idx);
+		const date = formatDateOnly(day);
+		const dayMeals = meals.filter((meal) => meal.date === date);
+		const nutrition = sum(dayMeals.map((meal) => meal.nutrition));
+		// Each person gets their servings' share of every meal they eat.
+		const perPerson = sortedPeople.map(([userId, email]) => ({
+			userId,
+			email,
+			nutrition: sum(
+				dayMeals.flatMap((meal) =>
+					meal.eaters
+						.filter((eater) => eater.userId === userId)
+						.map((eater) => scale(meal.nutrition, eater.servings / meal.servings))
+				)
+			),
+		}));
+		// The targets are the viewer's, so a household plan is judged on what the viewer eats of it,
+		// as the generator does; a personal plan on the whole day.
+		const viewerEats = scope.householdId
+			? dayMeals.some((meal) => meal.eaters.some((eater) => eater.userId === scope.userId))
+			: dayMeals.length > 0;
+		const targetNutrition = scope.householdId
+			? (perPerson.find((person) => person.userId === scope.userId)?.nutrition ?? sum([]))
+			: nutrition;
+		const target = targets ? resolveTarget(targets, day) : null;
+		const comparison =
+			targets && target && viewerEats
+				? compareToTarget(targetNutrition, target, targets.tolerancePct)
+				: { status: {}, offTarget: false };
+
+		return {
+			date,
+			nutrition,
+			people: perPerson,
+			targetNutrition,
+			target,
+			targetStatus: comparison.status,
+			offTarget: comparison.offTarget,
+		};
+	});
+
+	return {
+		id: plan?.id ?? null,
+		weekStart: formatDateOnly(weekStart),
+		version: 2,
+		// v1 shape: one entry per planned recipe, without ingredient entries.
+		meals: meals
+			.filter((meal) => meal.recipeId !== null)
+			.map((meal) => ({
+				date: meal.date,
+				slot: meal.slot,
+				recipeId: meal.recipeId,
+				recipeName: meal.name,
+				servings: meal.servings,
+				nutrition: roundNutrition(meal.nutrition),
+			})),
+		cells: cells.map((cell) => ({
+			date: cell.date,
+			slot: cell.slot,
+			items: cell.items.map(({ date: _date, slot: _slot, eaters: _eaters, ...item }) => ({
+				...item,
+				nutrition: roundNutrition(item.nutrition),
+			})),
+			nutrition: roundNutrition(sum(cell.items.map((item) => item.nutrition))),
+		})),
+		days: days.map((day) => ({
+			...day,
+			nutrition: roundNutrition(day.nutrition),
+			people: day.people.map((person) => ({ ...person, nutrition: roundNutrition(person.nutrition) })),
+		})),
+		week: roundNutrition(sum(days.map((day) => day.nutrition))),
+	};
+}
+
+app.get('/meal-plans', { preHandler: (app as any).authenticate }, async (req: any, reply) => {
+	const Query = z.object({
+		weekStart: z.string(),
+		householdId: householdIdSchema,
+	});
+
+	const query = Query.parse(req.query);
+	const weekStart = parseDateOnly(query.weekStart);
+	if (!weekStart) {
+		return reply.code(400).send({ error: 'weekStart must be YYYY-MM-DD' });
+	}
+
+	const scope = await resolvePlanScope(req.user.sub as string, query.householdId);
+	if (!scope) {
+		return reply.code(404).send({ error: 'Household not found' });
+	}
+
+	const plan = await prisma.mealPlan.findFirst({
+		where: { ...planScopeWhere(scope), weekStart },
+		include: mealPlanInclude,
+	});
+
+	return toMealPlanResponse(plan, weekStart, await loadPlanContext(scope));
+});
+
+app.get('/meal-plans/shopping-list', { preHandler: (app as any).authenticate }, async (req: any, reply) => {
+	const Query = z.object({
+		weekStart: z.string(),
+		format: z.enum(['json', 'csv', 'text']).default('json'),
+		householdId: householdIdSchema,
+	});
+
+	const query = Query.parse(req.query);
+	const weekStart = parseDateOnly(query.weekStart);
+	if (!weekStart) {
+		return reply.code(400).send({ error: 'weekStart must be YYYY-MM-DD' });
+	}
+
+	const scope = await resolvePlanScope(req.user.sub as string, query.householdId);
+	if (!scope) {
+		return reply.code(404).send({ error: 'Household not found' });
+	}
+
+	const plan = await prisma.mealPlan.findFirst({
+		where: { ...planScopeWhere(scope), weekStart },
+		include: {
+			// Cooked meals already took their ingredients out of the pantry; batch meals are bought
+			// for with their batch.
+			meals: {
+				where: { cookedAt: null, batchId: null },
+				include: {
+					recipe: { include: { items: { include: { ingredient: true } } } },
+					ingredient: true,
+				},
+			},
+			shoppingListChecks: { select: { ingredientId: true } },
+		},
+	});
+
+	// A batch is bought for once, in the week it is cooked, whoever eats its portions.
+	const batches = await prisma.cookingBatch.findMany({
+		where: { ...planScopeWhere(scope), cookedAt: null, cookOn: { gte: weekStart, lt: addDaysUtc(weekStart, 7) } },
+		include: { recipe: { include: { items: { include: { ingredient: true } } } } },
+	});
+
+	const groups = buildShoppingList(
+		[
+			...(plan?.meals ?? []).flatMap(plannedMealLines),
+			...batches.flatMap((batch) =>
+				plannedMealLines({ servings: batch.servings, recipe: batch.recipe, ingredient: null, quantityG: null })
+			),
+		],
+		new Set((plan?.shoppingListChecks ?? []).map((check) => check.ingredientId)),
+		pantryTotals(await loadPantryStock(scope.userId))
+	);
+
+	if (query.format === 'csv') {
+		return reply
+			.header('Content-Type', 'text/csv; charset=utf-8')
+			.header('Content-Disposition', `attachment; filename="shopping-list-${query.weekStart}.csv"`)
+			.send(shoppingListToCsv(groups));
+	}
+
+	if (query.format === 'text') {
+		return reply
+			.header('Content-Type', 'text/plain; charset=utf-8')
+			.header('Content-Disposition', `attachment; filename="shopping-list-${query.weekStart}.txt"`)
+			.send(shoppingListToText(query.weekStart, groups));
+	}
+
+	return {
+		planId: plan?.id ?? null,
+		weekStart: query.weekStart,
+		groups,
+	};
+});
+
+// Pantry stock that is not expired, optionally limited to some ingredients.
+async function loadPantryStock(
+	userId: string,
+	ingredientIds?: string[],
+	client: Prisma.TransactionClient = prisma
+): Promise<PantryStock[]> {
+	const stock = await client.pantryItem.findMany({
+		where: { userId, ...(ingredientIds ? { ingredientId: { in: ingredientIds } } : {}) },
+		select: { id: true, ingredientId: true, quantityG: true, expiresOn: true, createdAt: true },
+	});
+	const today = todayUtc();
+	return stock.filter((item) => !isExpired(item, today));
+}
+
+type CookedLine = { ingredientId: string; name: string; quantityG: number };
+
+/**
+ * Takes what cooking `lines` needs out of the cook's own pantry, also for household meals.
+ * `markCooked` flags the cooked rows inside the same transaction and returns null when they
+ * were cooked concurrently, in which case the pantry is left untouched.
+ */
+async function cookFromPantry(
+	userId: string,
+	lines: ShoppingListLine[],
+	markCooked: (tx: Prisma.TransactionClient) => Promise<Date | null>
+): Promise<{ cookedAt: Date; deducted: CookedLine[]; missing: CookedLine[] } | null> {
+	const names = new Map(lines.map((line) => [line.ingredient.id, line.ingredient.name]));
+	const needs = new Map<string, number>();
+	for (const line of lines) {
+		needs.set(line.ingredient.id, (needs.get(line.ingredient.id) ?? 0) + line.quantityG);
+	}
+
+	const result = await prisma.$transaction(async (tx) => {
+		const cookedAt = await markCooked(tx);
+		if (!cookedAt) {
+			return null;
+		}
+
+		const deduction = planPantryDeduction(await loadPantryStock(userId, [...needs.keys()], tx), needs);
+		for (const update of deduction.updates) {
+			await tx.pantryItem.update({ where: { id: update.id }, data: { quantityG: update.quantityG } });
+		}
+		await tx.pantryItem.deleteMany({ where: { id: { in: deduction.emptied } } });
+
+		return { cookedAt, deduction };
+	});
+
+	if (!result) {
+		return null;
+	}
+
+	const toLines = (quantities: Map<string, number>) =>
+		[...quantities].map(([ingredientId, quantityG]) => ({
+			ingredientId,
+			name: names.get(ingredientId) ?? '',
+			quantityG: round1(quantityG),
+		}));
+
+	return {
+		cookedAt: result.cookedAt,
+		deducted: toLines(result.deduction.deducted),
+		// Needed for the meal but not (or no longer) in the pantry.
+		missing: toLines(result.deduction.missing),
+	};
+}
+
+app.post('/meal-plans/meals/:id/cook', { preHandler: (app as any).authenticate }, async (req: any, reply) => {
+	const Params = z.object({ id: z.string().min(1) });
+	const { id } = Params.parse(req.params);
+	const userId = req.user.sub as string;
+
+	const meal = await prisma.plannedMeal.findFirst({
+		where: {
+			id,
+			plan: { OR: [{ userId, householdId: null }, { household: memberOf(userId) }] },
+		},
+		include: {
+			recipe: { include: { items: { include: { ingredient: true } } } },
+			ingredient: true,
+		},
+	});
+
+	if (!meal) {
+		return reply.code(404).send({ error: 'Planned meal not found' });
+	}
+	if (meal.cookedAt) {
+		return reply.code(409).send({ error: 'Meal was already cooked' });
+	}
+	if (meal.batchId) {
+		return reply.code(409).send({ error: 'Meals from a cooking batch are cooked with their batch' });
+	}
+
+	// Cooking one meal of a cook group cooks the servings of the whole group at once.
+	const cookedMeals = meal.cookGroup
+		? await prisma.plannedMeal.findMany({
+				where: { planId: meal.planId, cookGroup: meal.cookGroup, cookedAt: null },
+				include: {
+					recipe: { include: { items: { include: { ingredient: true } } } },
+					ingredient: true,
+				},
+			})
+		: [meal];
+	const mealIds = cookedMeals.map((m) => m.id);
+
+	const cooked = await cookFromPantry(userId, cookedMeals.flatMap(plannedMealLines), async (tx) => {
+		const cookedAt = new Date();
+		const { count } = await tx.plannedMeal.updateMany({
+			where: { id: { in: mealIds }, cookedAt: null },
+			data: { cookedAt },
+		});
+		return count === 0 ? null : cookedAt;
+	});
+
+	if (!cooked) {
+		return reply.code(409).send({ error: 'Meal was already cooked' });
+	}
+
+	return { id, mealIds, ...cooked };
+});
+
+app.put(
+	'/meal-plans/shopping-list/items/:ingredientId',
+	{ preHandler: (app as any).authenticate },
+	async (req: any, reply) => {
+		const Params = z.object({ ingredientId: z.string().min(1) });
+		const Body = z.object({
+			weekStart: z.string(),
+			checked: z.boolean(),
+			householdId: householdIdSchema,
+		});
+
+		const { ingredientId } = Params.parse(req.params);
+		const body = Body.parse(req.body);
+		const weekStart = parseDateOnly(body.weekStart);
+		if (!weekStart) {
+			return reply.code(400).send({ error: 'weekStart must be YYYY-MM-DD' });
+		}
+
+		const scope = await resolvePlanScope(req.user.sub as string, body.householdId);
+		if (!scope) {
+			return reply.code(404).send({ error: 'Household not found' });
+		}
+
+		const plan = await prisma.mealPlan.findFirst({
+			where: { ...planScopeWhere(scope), weekStart },
+			select: { id: true },
+		});
+
+		if (!plan) {
+			return reply.code(404).send({ error: 'Meal plan not found' });
+		}
+
+		if (!body.checked) {
+			await prisma.shoppingListCheck.deleteMany({ where: { planId: plan.id, ingredientId } });
+			return { ingredientId, checked: false };
+		}
+
+		try {
+			await prisma.shoppingListCheck.upsert({
+				where: { planId_ingredientId: { planId: plan.id, ingredientId } },
+				update: {},
+				create: { planId: plan.id, ingredientId },
+			});
+		} catch (error) {
+			if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2003') {
+				return reply.code(404).send({ error: 'Ingredient not found' });
+			}
+			throw error;
+		}
+
+		return { ingredientId, checked: true };
+	}
+);
+
+app.put('/meal-plans', { preHandler: (app as any).authenticate }, async (req: any, reply) => {
+	const Body = z.object({
+		weekStart: z.string(),
+		householdId: householdIdSchema,
+		meals: z.array(
+			z.union([
+				z.object({
+					date: z.string(),
+					slot: mealSlotSchema,
+					recipeId: z.string().min(1),
+					servings: z.number().positive().max(100).default(1),
+					// Household plans only; the meal's servings become the sum of the attendees' servings.
+					attendees: z.array(plannedMealAttendeeSchema).max(50).optional(),
+					cookGroup: cookGroupSchema.optional(),
+					// Serve the meal from a cooking batch of the same plan scope.
+					batchId: z.string().min(1).optional(),
+				}),
+				z.object({
+					date: z.string(),
+					slot: mealSlotSchema,
+					ingredientId: z.string().min(1),
+					quantityG: z.number().positive().max(10000),
+				}),
+			])
+		),
+	});
+
+	const body = Body.parse(req.body);
+	const weekStart = parseDateOnly(body.weekStart);
+	if (!weekStart) {
+		return reply.code(400).send({ error: 'weekStart must be YYYY-MM-DD' });
+	}
+
+	const meals: PlannedMealInput[] = [];
+	const slotCounts = new Map<string, number>();
+	for (const meal of body.meals) {
+		const date = parseDateOnly(meal.date);
+		if (!date) {
+			return reply.code(400).send({ error: `Meal date must be YYYY-MM-DD: ${meal.date}` });
+		}
+		if (!isWithinWeek(date, weekStart)) {
+			return reply.code(400).send({ error: `Meal date is outside selected week: ${meal.date}` });
+		}
+
+		const key = `${meal.date}:${meal.slot}`;
+		const position = slotCounts.get(key) ?? 0;
+		if (position >= MAX_ENTRIES_PER_SLOT) {
+			return reply
+				.code(400)
+				.send({ error: `Too many entries for ${meal.slot} on ${meal.date} (max ${MAX_ENTRIES_PER_SLOT})` });
+		}
+		slotCounts.set(key, position + 1);
+
+		if ('recipeId' in meal) {
+			const attendees = meal.attendees ?? [];
+			if (meal.cookGroup && meal.batchId) {
+				return reply.code(400).send({ error: `A meal from a cooking batch cannot start a cook group: ${meal.date}` });
+			}
+			if (new Set(attendees.map((a) => a.userId)).size !== attendees.length) {
+				return reply.code(400).send({ error: `Duplicate attendee for ${meal.slot} on ${meal.date}` });
+			}
+			meals.push({
+				date,
+				slot: meal.slot,
+				position,
+				recipeId: meal.recipeId,
+				ingredientId: null,
+				servings: attendees.length > 0 ? attendeeServings(attendees) : meal.servings,
+				quantityG: null,
+				attendees,
+				cookGroup: meal.cookGroup ?? null,
+				batchId: meal.batchId ?? null,
+			});
+		} else {
+			meals.push({
+				date,
+				slot: meal.slot,
+				position,
+				recipeId: null,
+				ingredientId: meal.ingredientId,
+				servings: 1,
+				quantityG: meal.quantityG,
+				attendees: [],
+				cookGroup: null,
+				batchId: null,
+			});
+		}
+	}
+
+	const groupRecipes = new Map<string, string | null>();
+	for (const meal of meals) {
+		if (!meal.cookGroup) continue;
+		const recipeId = groupRecipes.get(meal.cookGroup);
+		if (recipeId !== undefined && recipeId !== meal.recipeId) {
+			return reply.code(400).send({ error: `Meals cooked together must use the same recipe: ${meal.cookGroup}` });
+		}
+		groupRecipes.set(meal.cookGroup, meal.recipeId);
+	}
+
+	const userId = req.user.sub as string;
+	const scope = await resolvePlanScope(userId, body.householdId);
+	if (!scope) {
+		return reply.code(404).send({ error: 'Household not found' });
+	}
+
+	const context = await loadPlanContext(scope);
+	const check = await checkPlanMeals(scope, weekStart, meals, context);
+	if (check.error) {
+		return reply.code(400).send(check);
+	}
+
+	const savedPlan = await writePlanMeals(scope, weekStart, meals);
+
+	return { ...toMealPlanResponse(savedPlan, savedPlan.weekStart, context), dietWarnings: check.dietWarnings };
+});
+
+// Recipes the generator may pick: the user's own, those of their households and those shared with them.
+function generatorRecipesWhere(userId: string): Prisma.RecipeWhereInput {
+	return {
+		OR: [
+			...(editableRecipesWhere(userId).OR as Prisma.RecipeWhereInput[]),
+			{ visibility: 'SHARED', shares: { some: { userId } } },
+		],
+	};
+}
+
+/**
+ * Fills the empty slots of a week with the user's recipes to approach their daily targets.
+ * Slots that already hold meals are kept as they are. Nothing is saved: the response is a
+ * preview whose `meals` can be sent to `PUT /meal-plans` to accept it.
+ */
+app.post('/meal-plans/generate', { preHandler: (app as any).authenticate }, async (req: any, reply) => {
+	const Body = z.object({
+		weekStart: z.string(),
+		householdId: householdIdSchema,
+		seed: z.number().int().min(0).max(2147483647).default(1),
+		maxRepeatsPerWeek: z.number().int().min(1).max(21).default(2),
+		excludedRecipeIds: z.array(z.string().min(1)).max(500).default([]),
+		// Only fill these slots; defaults to every active slot.
+		slots: z.array(mealSlotSchema).max(20).optional(),
+	});
+
+	const body = Body.parse(req.body);
+	const weekStart = parseDateOnly(body.weekStart);
+	if (!weekStart) {
+		return reply.code(400).send({ error: 'weekStart must be YYYY-MM-DD' });
+	}
+
+	const userId = req.user.sub as string;
+	const scope = await resolvePlanScope(userId, body.householdId);
+	if (!scope) {
+		return reply.code(404).send({ error: 'Household not found' });
+	}
+
+	const { targets, slots } = await loadPlanContext(scope);
+	if (!targets || !hasAnyTarget(targets)) {
+		return reply.code(400).send({ error: 'Set your daily targets in your profile before generating a plan' });
+	}
+
+	const activeSlots = slots.filter((slot) => slot.active).map((slot) => slot.key);
+	const unknownSlot = body.slots?.find((slot) => !activeSlots.includes(slot));
+	if (unknownSlot) {
+		return reply.code(400).send({ error: `Unknown or inactive meal slot: ${unknownSlot}` });
+	}
+	const fillSlots = body.slots ? activeSlots.filter((slot) => body.slots?.includes(slot)) : activeSlots;
+
+	const [plan, recipes] = await Promise.all([
+		prisma.mealPlan.findFirst({
+			where: { ...planScopeWhere(scope), weekStart },
+			include: mealPlanInclude,
+		}),
+		prisma.recipe.findMany({
+			where: { ...generatorRecipesWhere(userId), id: { notIn: body.excludedRecipeIds } },
+			include: { items: { include: { ingredient: true } } },
+			orderBy: { id: 'asc' },
+		}),
+	]);
+
+	// Saved meals are locked; only the user's share of them counts towards their targets.
+	const savedMeals = plan?.meals ?? [];
+	const lockedUses = new Map<string, number>();
+	for (const meal of savedMeals) {
+		if (meal.recipeId) lockedUses.set(meal.recipeId, (lockedUses.get(meal.recipeId) ?? 0) + 1);
+	}
+	const userShare = (meal: MealPlanWithMeals['meals'][number]) => {
+		const servings = plan
+			? mealEaters(plan, meal)
+					.filter((eater) => eater.userId === userId)
+					.reduce((total, eater) => total + eater.servings, 0)
+			: 0;
+		return scale(plannedMealNutrition(meal), servings / meal.servings);
+	};
+
+	const days: GeneratorDay[] = Array.from({ length: 7 }, (_, idx) => {
+		const day = addDaysUtc(weekStart, idx);
+		const date = formatDateOnly(day);
+		const dayMeals = savedMeals.filter((meal) => formatDateOnly(meal.date) === date);
+		return {
+			date,
+			target: resolveTarget(targets, day),
+			locked: sum(dayMeals.map(userShare)),
+			emptySlots: fillSlots.filter((slot) => !dayMeals.some((meal) => meal.slot === slot)),
+		};
+	});
+
+	const candidates: GeneratorCandidate[] = recipes.map((recipe) => ({
+		recipeId: recipe.id,
+		slotTags: recipe.slotTags,
+		perServing: scale(recipeTotal(recipe.items), 1 / recipe.servings),
+	}));
+	const result = generateMealPlan(days, candidates, {
+		seed: body.seed,
+		maxRepeatsPerWeek: body.maxRepeatsPerWeek,
+		lockedUses,
+	});
+
+	const recipesById = new Map(recipes.map((recipe) => [recipe.id, recipe]));
+	const candidatesById = new Map(candidates.map((candidate) => [candidate.recipeId, candidate]));
+	const perServingOf = (recipeId: string) => candidatesById.get(recipeId)?.perServing ?? zeroNutrition;
+	// In household plans generated meals are for the user who asked for them.
+	const generated = result.meals.map((meal) => ({
+		...meal,
+		name: recipesById.get(meal.recipeId)?.name ?? '',
+		attendees: scope.householdId ? [{ userId, servings: meal.servings }] : [],
+	}));
+
+	const savedEntries = savedMeals.map((meal) =>
+		meal.recipeId
+			? {
+					date: formatDateOnly(meal.date),
+					slot: meal.slot,
+					recipeId: meal.recipeId,
+					servings: meal.servings,
+					attendees: meal.attendees.map((a) => ({ userId: a.userId, servings: a.servings })),
+					...(meal.cookGroup ? { cookGroup: meal.cookGroup } : {}),
+					...(meal.batchId ? { batchId: meal.batchId } : {}),
+				}
+			: { date: formatDateOnly(meal.date), slot: meal.slot, ingredientId: meal.ingredientId, quantityG: meal.quantityG }
+	);
+
+	return {
+		weekStart: formatDateOnly(weekStart),
+		seed: body.seed,
+		generated: generated.map((meal) => ({
+			date: meal.date,
+			slot: meal.slot,
+			recipeId: meal.recipeId,
+			name: meal.name,
+			servings: meal.servings,
+		})),
+		unfilled: result.unfilled,
+		// Saved and generated meals in the shape PUT /meal-plans expects.
+		meals: [
+			...savedEntries,
+			...generated.map(({ name: _name, attendees, ...meal }) => (attendees.length > 0 ? { ...meal, attendees } : meal)),
+		],
+		days: days.map((day) => {
+			const nutrition = add(
+				day.locked,
+				sum(
+					result.meals
+						.filter((meal) => meal.date === day.date)
+						.map((meal) => scale(perServingOf(meal.recipeId), meal.servings))
+				)
+			);
+			const comparison = compareToTarget(nutrition, day.target, targets.tolerancePct);
+			return {
+				date: day.date,
+				nutrition: roundNutrition(nutrition),
+				target: day.target,
+				targetStatus: comparison.status,
+				offTarget: comparison.offTarget,
+			};
+		}),
+		score: Math.round(result.score * 1000) / 1000,
+	};
+});
+
+const planCopyModeSchema = z.enum(['overwrite', 'merge']);
+
+// Merge keeps every cell that already has entries in the target week and only fills empty ones.
+// The assembled week goes through the same checks as a saved one, so recipes and ingredients
+// that are no longer visible to the plan are rejected rather than copied.
+async function applyRelativeEntries(
+	scope: PlanScope,
+	weekStart: Date,
+	entries: RelativePlanEntry[],
+	mode: z.infer<typeof planCopyModeSchema>
+) {
+	const context = await loadPlanContext(scope);
+	const activeSlots = new Set(context.slots.filter((slot) => slot.active).map((slot) => slot.key));
+
+	const existing =
+		mode === 'merge'
+			? await prisma.mealPlan.findFirst({
+					where: { ...planScopeWhere(scope), weekStart },
+					include: { meals: { orderBy: { position: 'asc' }, include: { attendees: true } } },
+				})
+			: null;
+
+	const meals: PlannedMealInput[] = (existing?.meals ?? []).map((meal) => ({
+		date: meal.date,
+		slot: meal.slot,
+		position: meal.position,
+		recipeId: meal.recipeId,
+		ingredientId: meal.ingredientId,
+		servings: meal.servings,
+		quantityG: meal.quantityG,
+		attendees: meal.attendees.map((a) => ({ userId: a.userId, servings: a.servings })),
+		cookGroup: meal.cookGroup,
+		batchId: meal.batchId,
+	}));
+	// Copied attendees who have since left the household are dropped.
+	// Copied cook groups get new keys so they never join a group already in the target week.
+	const cookGroups = new Map<string, string>();
+	const copiedCookGroup = (key: string | null) => {
+		if (!key) return null;
+		if (!cookGroups.has(key)) cookGroups.set(key, randomUUID());
+		return cookGroups.get(key) ?? null;
+	};
+	const memberIds = scope.householdId ? await householdMemberIds(scope.householdId) : new Set<string>();
+	const filledCells = new Set(meals.map((meal) => `${formatDateOnly(meal.date)}:${meal.slot}`));
+
+	let skippedEntries = 0;
+	for (const entry of entries) {
+		const date = addDaysUtc(weekStart, entry.dayOffset);
+		if (!activeSlots.has(entry.slot)) {
+			skippedEntries += 1;
+			continue;
+		}
+		if (filledCells.has(`${formatDateOnly(date)}:${entry.slot}`)) {
+			continue;
+		}
+
+		const attendees = (entry.attendees ?? []).filter((a) => memberIds.has(a.userId));
+		meals.push({
+			date,
+			slot: entry.slot,
+			position: entry.position,
+			recipeId: entry.recipeId,
+			ingredientId: entry.ingredientId,
+			servings: attendees.length > 0 ? attendeeServings(attendees) : entry.servings,
+			quantityG: entry.quantityG,
+			attendees,
+			cookGroup: copiedCookGroup(entry.cookGroup),
+			batchId: null,
+		});
+	}
+
+	const check = await checkPlanMeals(scope, weekStart, meals, context);
+	if (check.error) {
+		return check;
+	}
+
+	const savedPlan = await writePlanMeals(scope, weekStart, meals);
+
+	return {
+		...toMealPlanResponse(savedPlan, savedPlan.weekStart, context),
+		skippedEntries,
+		dietWarnings: check.dietWarnings,
+	};
+}
+
+app.post('/meal-plans/copy', { preHandler: (app as any).authenticate }, async (req: any, reply) => {
+	const Body = z.object({
+		sourceWeekStart: z.string(),
+		targetWeekStart: z.string(),
+		mode: planCopyModeSchema.default('overwrite'),
+		householdId: householdIdSchema,
+	});
+
+	const body = Body.parse(req.body);
+	const sourceWeekStart = parseDateOnly(body.sourceWeekStart);
+	const targetWeekStart = parseDateOnly(body.targetWeekStart);
+	if (!sourceWeekStart || !targetWeekStart) {
+		return reply.code(400).send({ error: 'sourceWeekStart and targetWeekStart must be YYYY-MM-DD' });
+	}
+	if (sourceWeekStart.getTime() === targetWeekStart.getTime()) {
+		return reply.code(400).send({ error: 'Source and target week must differ' });
+	}
+
+	const scope = await resolvePlanScope(req.user.sub as string, body.householdId);
+	if (!scope) {
+		return reply.code(404).send({ error: 'Household not found' });
+	}
+
+	const source = await prisma.mealPlan.findFirst({
+		where: { ...planScopeWhere(scope), weekStart: sourceWeekStart },
+		include: { meals: { include: { attendees: true } } },
+	});
+
+	if (!source || source.meals.length === 0) {
+		return reply.code(404).send({ error: 'Source week has no planned meals' });
+	}
+
+	const entries = source.meals.map((meal) => ({
+		dayOffset: dayOffset(meal.date, sourceWeekStart),
+		slot: meal.slot,
+		position: meal.position,
+		recipeId: meal.recipeId,
+		ingredientId: meal.ingredientId,
+		servings: meal.servings,
+		quantityG: meal.quantityG,
+		attendees: meal.attendees.map((a) => ({ userId: a.userId, servings: a.servings })),
+		cookGroup: meal.cookGroup,
+	}));
+
+	const result = await applyRelativeEntries(scope, targetWeekStart, entries, body.mode);
+	if ('error' in result) {
+		return reply.code(400).send(result);
+	}
+	return result;
+});
+
+app.get('/meal-plan-templates', { preHandler: (app as any).authenticate }, async (req: any) => {
+	const userId = req.user.sub as string;
+
+	const templates = await prisma.mealPlanTemplate.findMany({
+		where: { userId },
+		orderBy: { name: 'asc' },
+		include: { _count: { select: { entries: true } } },
+	});
+
+	return templates.map((t) => ({
+		id: t.id,
+		name: t.name,
+		createdAt: t.createdAt,
+		entryCount: t._count.entries,
+	}));
+});
+
+app.post('/meal-plan-templates', { preHandler: (app as any).authenticate }, async (req: any, reply) => {
+	const Body = z.object({
+		name: z.string().trim().min(1).max(100),
+		weekStart: z.string(),
+		householdId: householdIdSchema,
+	});
+
+	const body = Body.parse(req.body);
+	const weekStart = parseDateOnly(body.weekStart);
+	if (!weekStart) {
+		return reply.code(400).send({ error: 'weekStart must be YYYY-MM-DD' });
+	}
+
+	const userId = req.user.sub as string;
+	const scope = await resolvePlanScope(userId, body.householdId);
+	if (!scope) {
+		return reply.code(404).send({ error: 'Household not found' });
+	}
+
+	const plan = await prisma.mealPlan.findFirst({
+		where: { ...planScopeWhere(scope), weekStart },
+		include: { meals: true },
+	});
+
+	if (!plan || plan.meals.length === 0) {
+		return reply.code(400).send({ error: 'Week has no planned meals to save as a template' });
+	}
+
+	try {
+		const template = await prisma.mealPlanTemplate.create({
+			data: {
+				userId,
+				name: body.name,
+				entries: {
+					create: plan.meals.map((meal) => ({
+						dayOffset: dayOffset(meal.date, weekStart),
+						slot: meal.slot,
+						position: meal.position,
+						recipeId: meal.recipeId,
+						ingredientId: meal.ingredientId,
+						servings: meal.servings,
+						quantityG: meal.quantityG,
+						cookGroup: meal.cookGroup,
+					})),
+				},
+			},
+			include: { _count: { select: { entries: true } } },
+		});
+
+		return {
+			id: template.id,
+			name: template.name,
+			createdAt: template.createdAt,
+			entryCount: template._count.entries,
+		};
+	} catch (error) {
+		if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+			return reply.code(409).send({ error: 'Template name already exists' });
+		}
+		throw error;
+	}
+});
+
+app.post(
+	'/meal-plan-templates/:id/apply',
+	{ preHandler: (app as any).authenticate },
+	async (req: any, reply) => {
+		const Params = z.object({ id: z.string().min(1) });
+		const Body = z.object({
+			weekStart: z.string(),
+			mode: planCopyModeSchema.default('overwrite'),
+			householdId: householdIdSchema,
+		});
+
+		const { id } = Params.parse(req.params);
+		const body = Body.parse(req.body);
+		const weekStart = parseDateOnly(body.weekStart);
+		if (!weekStart) {
+			return reply.code(400).send({ error: 'weekStart must be YYYY-MM-DD' });
+		}
+
+		const userId = req.user.sub as string;
+		const template = await prisma.mealPlanTemplate.findFirst({
+			where: { id, userId },
+			include: { entries: true },
+		});
+
+		if (!template) {
+			return reply.code(404).send({ error: 'Template not found' });
+		}
+
+		const scope = await resolvePlanScope(userId, body.householdId);
+		if (!scope) {
+			return reply.code(404).send({ error: 'Household not found' });
+		}
+
+		const result = await applyRelativeEntries(scope, weekStart, template.entries, body.mode);
+		if ('error' in result) {
+			return reply.code(400).send(result);
+		}
+		return result;
+	}
+);
+
+app.delete('/meal-plan-templates/:id', { preHandler: (app as any).authenticate }, async (req: any, reply) => {
+	const Params = z.object({ id: z.string().min(1) });
+	const { id } = Params.parse(req.params);
+	const userId = req.user.sub as string;
+
+	const { count } = await prisma.mealPlanTemplate.deleteMany({ where: { id, userId } });
+	if (count === 0) {
+		return reply.code(404).send({ error: 'Template not found' });
+	}
+	return reply.code(204).send();
+});
+
+const pantryItemInclude = {
+	ingredient: { select: { id: true, name: true, category: true } },
+} as const;
+
+type PantryItemWithIngredient = Prisma.PantryItemGetPayload<{ include: typeof pantryItemInclude }>;
+
+function toPantryItemResponse(item: PantryItemWithIngredient, today: Date) {
+	return {
+		id: item.id,
+		ingredientId: item.ingredientId,
+		ingredientName: item.ingredient.name,
+		category: item.ingredient.category,
+		quantityG: round1(item.quantityG),
+		expiresOn: item.expiresOn ? formatDateOnly(item.expiresOn) : null,
+		expired: isExpired(item, today),
+		createdAt: item.createdAt,
+		updatedAt: item.updatedAt,
+	};
+}
+
+const pantryQuantitySchema = z.number().positive().max(100000);
+const pantryExpirySchema = z.string().regex(DATE_ONLY_REGEX, 'expiresOn must be YYYY-MM-DD').nullable();
+
+function parseExpiry(value: string | null | undefined): Date | null | undefined {
+	if (value === undefined || value === null) return value;
+	return parseDateOnly(value) ?? undefined;
+}
+
+app.get('/pantry', { preHandler: (app as any).authenticate }, async (req: any) => {
+	const userId = req.user.sub as string;
+
+	const items = await prisma.pantryItem.findMany({
+		where: { userId },
+		include: pantryItemInclude,
+		orderBy: [{ ingredient: { name: 'asc' } }, { expiresOn: { sort: 'asc', nulls: 'last' } }],
+	});
+
+	const today = todayUtc();
+	return items.map((item) => toPantryItemResponse(item, today));
+});
+
+app.post('/pantry', { preHandler: (app as any).authenticate }, async (req: any, reply) => {
+	const Body = z.object({
+		ingredientId: z.string().min(1),
+		quantityG: pantryQuantitySchema,
+		expiresOn: pantryExpirySchema.optional(),
+	});
+
+	const body = Body.parse(req.body);
+	const userId = req.user.sub as string;
+
+	const expiresOn = parseExpiry(body.expiresOn);
+	if (body.expiresOn && !expiresOn) {
+		return reply.code(400).send({ error: 'expiresOn must be a valid date' });
+	}
+
+	if (await findUnknownIngredientId(userId, [body.ingredientId])) {
+		return reply.code(400).send({ error: `Unknown ingredientId: ${body.ingredientId}` });
+	}
+
+	const item = await prisma.pantryItem.create({
+		data: { userId, ingredientId: body.ingredientId, quantityG: body.quantityG, expiresOn: expiresOn ?? null },
+		include: pantryItemInclude,
+	});
+
+	return toPantryItemResponse(item, todayUtc());
+});
+
+app.patch('/pantry/:id', { preHandler: (app as any).authenticate }, async (req: any, reply) => {
+	const Params = z.object({ id: z.string().min(1) });
+	const Body = z.object({
+		quantityG: pantryQuantitySchema.optional(),
+		expiresOn: pantryExpirySchema.optional(),
+	});
+
+	const { id } = Params.parse(req.params);
+	const body = Body.parse(req.body);
+	const userId = req.user.sub as string;
+
+	const expiresOn = parseExpiry(body.expiresOn);
+	if (body.expiresOn && !expiresOn) {
+		return reply.code(400).send({ error: 'expiresOn must be a valid date' });
+	}
+
+	const { count } = await prisma.pantryItem.updateMany({
+		where: { id, userId },
+		data: {
+			...(body.quantityG !== undefined ? { quantityG: body.quantityG } : {}),
+			...(expiresOn !== undefined ? { expiresOn } : {}),
+		},
+	});
+	if (count === 0) {
+		return reply.code(404).send({ error: 'Pantry item not found' });
+	}
+
+	const item = await prisma.pantryItem.findUniqueOrThrow({ where: { id }, include: pantryItemInclude });
+	return toPantryItemResponse(item, todayUtc());
+});
+
+app.delete('/pantry/:id', { preHandler: (app as any).authenticate }, async (req: any, reply) => {
+	const Params = z.object({ id: z.string().min(1) });
+	const { id } = Params.parse(req.params);
+	const userId = req.user.sub as string;
+
+	const { count } = await prisma.pantryItem.deleteMany({ where: { id, userId } });
+	if (count === 0) {
+		return reply.code(404).send({ error: 'Pantry item not found' });
+	}
+	return reply.code(204).send();
+});
+
+const cookingBatchInclude = {
+	recipe: { select: { id: true, name: true } },
+	meals: {
+		select: { id: true, date: true, slot: true, servings: true },
+		orderBy: { date: 'asc' },
+	},
+} as const;
+
+type CookingBatchWithMeals = Prisma.CookingBatchGetPayload<{ include: typeof cookingBatchInclude }>;
+
+// Batches of the user's personal plans and of their households' plans.
+function accessibleBatchesWhere(userId: string): Prisma.CookingBatchWhereInput {
+	return { OR: [{ userId, householdId: null }, { household: memberOf(userId) }] };
+}
+
+function toCookingBatchResponse(batch: CookingBatchWithMeals) {
+	const assignedServings = batch.meals.reduce((total, meal) => total + meal.servings, 0);
+	return {
+		id: batch.id,
+		householdId: batch.householdId,
+		recipeId: batch.recipeId,
+		recipeName: batch.recipe.name,
+		cookOn: formatDateOnly(batch.cookOn),
+		servings: batch.servings,
+		assignedServings: round1(assignedServings),
+		remainingServings: round1(Math.max(batch.servings - assignedServings, 0)),
+		cookedAt: batch.cookedAt,
+		meals: batch.meals.map((meal) => ({
+			id: meal.id,
+			date: formatDateOnly(meal.date),
+			slot: meal.slot,
+			servings: meal.servings,
+		})),
+	};
+}
+
+const batchServingsSchema = z.number().positive().max(200);
+
+app.get('/cooking-batches', { preHandler: (app as any).authenticate }, async (req: any, reply) => {
+	const Query = z.object({
+		householdId: householdIdSchema,
+		from: z.string().optional(),
+		to: z.string().optional(),
+	});
+
+	const query = Query.parse(req.query);
+	const from = query.from === undefined ? undefined : parseDateOnly(query.from);
+	const to = query.to === undefined ? undefined : parseDateOnly(query.to);
+	if (from === null || to === null) {
+		return reply.code(400).send({ error: 'from and to must be YYYY-MM-DD' });
+	}
+
+	const scope = await resolvePlanScope(req.user.sub as string, query.householdId);
+	if (!scope) {
+		return reply.code(404).send({ error: 'Household not found' });
+	}
+
+	const batches = await prisma.cookingBatch.findMany({
+		where: {
+			...planScopeWhere(scope),
+			...(from || to ? { cookOn: { ...(from ? { gte: from } : {}), ...(to ? { lte: to } : {}) } } : {}),
+		},
+		include: cookingBatchInclude,
+		orderBy: [{ cookOn: 'asc' }, { createdAt: 'asc' }],
+	});
+
+	return batches.map(toCookingBatchResponse);
+});
+
+app.post('/cooking-batches', { preHandler: (app as any).authenticate }, async (req: any, reply) => {
+	const Body = z.object({
+		householdId: householdIdSchema,
+		recipeId: z.string().min(1),
+		cookOn: z.string(),
+		servings: batchServingsSchema,
+	});
+
+	const body = Body.parse(req.body);
+	const cookOn = parseDateOnly(body.cookOn);
+	if (!cookOn) {
+		return reply.code(400).send({ error: 'cookOn must be YYYY-MM-DD' });
+	}
+
+	const userId = req.user.sub as string;
+	const scope = await resolvePlanScope(userId, body.householdId);
+	if (!scope) {
+		return reply.code(404).send({ error: 'Household not found' });
+	}
+
+	const recipe = await prisma.recipe.findFirst({
+		where: { id: body.recipeId, ...accessibleRecipesWhere(userId) },
+		select: { id: true },
+	});
+	if (!recipe) {
+		return reply.code(400).send({ error: 'Recipe not found' });
+	}
+
+	const batch = await prisma.cookingBatch.create({
+		data: { userId, householdId: scope.householdId, recipeId: recipe.id, cookOn, servings: body.servings },
+		include: cookingBatchInclude,
+	});
+
+	return toCookingBatchResponse(batch);
+});
+
+// The yield cannot drop below the servings already assigned, and the batch cannot move after
+// a meal that eats from it.
+app.patch('/cooking-batches/:id', { preHandler: (app as any).authenticate }, async (req: any, reply) => {
+	const Params = z.object({ id: z.string().min(1) });
+	const Body = z.object({
+		cookOn: z.string().optional(),
+		servings: batchServingsSchema.optional(),
+	});
+
+	const { id } = Params.parse(req.params);
+	const body = Body.parse(req.body);
+	const userId = req.user.sub as string;
+
+	const cookOn = body.cookOn === undefined ? undefined : parseDateOnly(body.cookOn);
+	if (cookOn === null) {
+		return reply.code(400).send({ error: 'cookOn must be YYYY-MM-DD' });
+	}
+
+	const batch = await prisma.cookingBatch.findFirst({
+		where: { id, ...accessibleBatchesWhere(userId) },
+		include: cookingBatchInclude,
+	});
+	if (!batch) {
+		return reply.code(404).send({ error: 'Cooking batch not found' });
+	}
+
+	const assigned = batch.meals.reduce((total, meal) => total + meal.servings, 0);
+	if (body.servings !== undefined && body.servings + 1e-9 < assigned) {
+		return reply.code(400).send({ error: `${round1(assigned)} servings of this batch are already planned` });
+	}
+	const firstMeal = batch.meals[0];
+	if (cookOn && firstMeal && cookOn.getTime() > firstMeal.date.getTime()) {
+		return reply.code(400).send({ error: `A meal on ${formatDateOnly(firstMeal.date)} already eats from this batch` });
+	}
+
+	const updated = await prisma.cookingBatch.update({
+		where: { id },
+		data: {
+			...(cookOn ? { cookOn } : {}),
+			...(body.servings !== undefined ? { servings: body.servings } : {}),
+		},
+		include: cookingBatchInclude,
+	});
+
+	return toCookingBatchResponse(updated);
+});
+
+// Meals that ate from a deleted batch stay planned as regular meals.
+app.delete('/cooking-batches/:id', { preHandler: (app as any).authenticate }, async (req: any, reply) => {
+	const Params = z.object({ id: z.string().min(1) });
+	const { id } = Params.parse(req.params);
+	const userId = req.user.sub as string;
+
+	const { count } = await prisma.cookingBatch.deleteMany({ where: { id, ...accessibleBatchesWhere(userId) } });
+	if (count === 0) {
+		return reply.code(404).send({ error: 'Cooking batch not found' });
+	}
+	return reply.code(204).send();
+});
+
+app.post('/cooking-batches/:id/cook', { preHandler: (app as any).authenticate }, async (req: any, reply) => {
+	const Params = z.object({ id: z.string().min(1) });
+	const { id } = Params.parse(req.params);
+	const userId = req.user.sub as string;
+
+	const batch = await prisma.cookingBatch.findFirst({
+		where: { id, ...accessibleBatchesWhere(userId) },
+		include: { recipe: { include: { items: { include: { ingredient: true } } } } },
+	});
+	if (!batch) {
+		return reply.code(404).send({ error: 'Cooking batch not found' });
+	}
+	if (batch.cookedAt) {
+		return reply.code(409).send({ error: 'Batch was already cooked' });
+	}
+
+	const lines = plannedMealLines({ servings: batch.servings, recipe: batch.recipe, ingredient: null, quantityG: null });
+	const cooked = await cookFromPantry(userId, lines, async (tx) => {
+		const cookedAt = new Date();
+		const { count } = await tx.cookingBatch.updateMany({ where: { id, cookedAt: null }, data: { cookedAt } });
+		return count === 0 ? null : cookedAt;
+	});
+
+	if (!cooked) {
+		return reply.code(409).send({ error: 'Batch was already cooked' });
+	}
+
+	return { id, ...cooked };
+});
+
+const foodLogStatusSchema = z.enum(['EATEN', 'SKIPPED', 'SUBSTITUTED']);
+
+const loggedFoodSchema = z.union([
+	z.object({ recipeId: z.string().min(1), servings: z.number().positive().max(100) }),
+	z.object({ ingredientId: z.string().min(1), quantityG: z.number().positive().max(10000) }),
+]);
+
+type LoggedFood = {
+	recipeId: string | null;
+	ingredientId: string | null;
+	servings: number | null;
+	quantityG: number | null;
+	name: string;
+	nutrition: Nutrition;
+};
+
+function toFoodLogResponse(entry: FoodLogEntry) {
+	return {
+		id: entry.id,
+		date: formatDateOnly(entry.date),
+		slot: entry.slot,
+		status: entry.status,
+		plannedMealId: entry.plannedMealId,
+		recipeId: entry.recipeId,
+		ingredientId: entry.ingredientId,
+		name: entry.name,
+		servings: entry.servings,
+		quantityG: entry.quantityG,
+		loggedAt: entry.loggedAt,
+		nutrition: roundNutrition(readNutrition(entry.nutrition)),
+	};
+}
+
+// Looks up food the user logs by hand; null when the recipe or ingredient is not visible to them.
+async function resolveLoggedFood(userId: string, food: z.infer<typeof loggedFoodSchema>): Promise<LoggedFood | null> {
+	if ('recipeId' in food) {
+		const recipe = await prisma.recipe.findFirst({
+			where: { id: food.recipeId, ...accessibleRecipesWhere(userId) },
+			include: { items: { include: { ingredient: true } } },
+		});
+		if (!recipe) return null;
+		return {
+			recipeId: recipe.id,
+			ingredientId: null,
+			servings: food.servings,
+			quantityG: null,
+			name: recipe.name,
+			nutrition: scale(recipeTotal(recipe.items), food.servings / recipe.servings),
+		};
+	}
+
+	const ingredient = await prisma.ingredient.findFirst({
+		where: { id: food.ingredientId, ...visibleIngredientsWhere(userId) },
+	});
+	if (!ingredient) return null;
+	return {
+		recipeId: null,
+		ingredientId: ingredient.id,
+		servings: null,
+		quantityG: food.quantityG,
+		name: ingredient.name,
+		nutrition: forQuantity(ingredient, food.quantityG),
+	};
+}
+
+const MAX_FOOD_LOG_DAYS = 31;
+
+app.get('/food-log', { preHandler: (app as any).authenticate }, async (req: any, reply) => {
+	const Query = z.object({
+		from: z.string(),
+		to: z.string().optional(),
+	});
+
+	const query = Query.parse(req.query);
+	const from = parseDateOnly(query.from);
+	const to = query.to === undefined ? from : parseDateOnly(query.to);
+	if (!from || !to) {
+		return reply.code(400).send({ error: 'from and to must be YYYY-MM-DD' });
+	}
+	if (to < from || to.getTime() - from.getTime() > DAY_MS * (MAX_FOOD_LOG_DAYS - 1)) {
+		return reply.code(400).send({ error: `Date range must cover 1 to ${MAX_FOOD_LOG_DAYS} days` });
+	}
+
+	const userId = req.user.sub as string;
+	const { slots } = await loadMealSlots(userId);
+	const entries = await prisma.foodLogEntry.findMany({
+		where: { userId, date: { gte: from, lte: to } },
+		orderBy: [{ date: 'asc' }, { loggedAt: 'asc' }],
+	});
+
+	return {
+		from: formatDateOnly(from),
+		to: formatDateOnly(to),
+		entries: entries
+			.map(toFoodLogResponse)
+			.sort((a, b) => a.date.localeCompare(b.date) || slotRank(a.slot, slots) - slotRank(b.slot, slots)),
+	};
+});
+
+app.post('/food-log', { preHandler: (app as any).authenticate }, async (req: any, reply) => {
+	const Body = z.intersection(z.object({ date: z.string(), slot: mealSlotSchema }), loggedFoodSchema);
+
+	const body = Body.parse(req.body);
+	const date = parseDateOnly(body.date);
+	if (!date) {
+		return reply.code(400).send({ error: 'date must be YYYY-MM-DD' });
+	}
+
+	const userId = req.user.sub as string;
+	const { slots } = await loadMealSlots(userId);
+	if (!slots.some((slot) => slot.active && slot.key === body.slot)) {
+		return reply.code(400).send({ error: `Unknown or inactive meal slot: ${body.slot}` });
+	}
+
+	const food = await resolveLoggedFood(userId, body);
+	if (!food) {
+		return reply.code(400).send({ error: 'Recipe or ingredient not found' });
+	}
+
+	const entry = await prisma.foodLogEntry.create({
+		data: { userId, date, slot: body.slot, status: 'EATEN', ...food },
+	});
+
+	return toFoodLogResponse(entry);
+});
+
+app.delete('/food-log/:id', { preHandler: (app as any).authenticate }, async (req: any, reply) => {
+	const Params = z.object({ id: z.string().min(1) });
+	const { id } = Params.parse(req.params);
+	const userId = req.user.sub as string;
+
+	const { count } = await prisma.foodLogEntry.deleteMany({ where: { id, userId } });
+	if (count === 0) {
+		return reply.code(404).send({ error: 'Food log entry not found' });
+	}
+	return reply.code(204).send();
+});
+
+/**
+ * Logs what happened to a planned meal for the current user, replacing an earlier entry.
+ * Eaten meals default to the user's attendee servings (or the planned servings in a personal plan).
+ */
+app.post('/meal-plans/meals/:id/log', { preHandler: (app as any).authenticate }, async (req: any, reply) => {
+	const Params = z.object({ id: z.string().min(1) });
+	const Body = z.object({
+		status: foodLogStatusSchema,
+		servings: z.number().positive().max(100).optional(),
+		quantityG: z.number().positive().max(10000).optional(),
+		substitute: loggedFoodSchema.optional(),
+	});
+
+	const { id } = Params.parse(req.params);
+	const body = Body.parse(req.body);
+	const userId = req.user.sub as string;
+
+	const meal = await prisma.plannedMeal.findFirst({
+		where: {
+			id,
+			plan: { OR: [{ userId, householdId: null }, { household: memberOf(userId) }] },
+		},
+		include: {
+			plan: { select: { householdId: true } },
+			recipe: { include: { items: { include: { ingredient: true } } } },
+			ingredient: true,
+			attendees: { where: { userId } },
+		},
+	});
+
+	if (!meal) {
+		return reply.code(404).send({ error: 'Planned meal not found' });
+	}
+
+	const name = meal.recipe?.name ?? meal.ingredient?.name ?? '';
+	let food: LoggedFood;
+	if (body.status === 'SUBSTITUTED') {
+		if (!body.substitute) {
+			return reply.code(400).send({ error: 'substitute is required for substituted meals' });
+		}
+		const substitute = await resolveLoggedFood(userId, body.substitute);
+		if (!substitute) {
+			return reply.code(400).send({ error: 'Substitute recipe or ingredient not found' });
+		}
+		food = substitute;
+	} else if (body.status === 'SKIPPED') {
+		food = { recipeId: null, ingredientId: null, servings: null, quantityG: null, name, nutrition: zeroNutrition };
+	} else if (meal.recipe) {
+		const servings =
+			body.servings ?? meal.attendees[0]?.servings ?? (meal.plan.householdId ? 1 : meal.servings);
+		food = {
+			recipeId: meal.recipe.id,
+			ingredientId: null,
+			servings,
+			quantityG: null,
+			name,
+			nutrition: scale(recipeTotal(meal.recipe.items), servings / meal.recipe.servings),
+		};
+	} else if (meal.ingredient && meal.quantityG !== null) {
+		const quantityG = body.quantityG ?? meal.quantityG;
+		food = {
+			recipeId: null,
+			ingredientId: meal.ingredient.id,
+			servings: null,
+			quantityG,
+			name,
+			nutrition: forQuantity(meal.ingredient, quantityG),
+		};
+	} else {
+		return reply.code(409).send({ error: 'Planned meal has no food to log' });
+	}
+
+	const data = { ...food, status: body.status, date: meal.date, slot: meal.slot, loggedAt: new Date() };
+	const entry = await prisma.foodLogEntry.upsert({
+		where: { plannedMealId_userId: { plannedMealId: meal.id, userId } },
+		update: data,
+		create: { ...data, userId, plannedMealId: meal.id },
+	});
+
+	return toFoodLogResponse(entry);
+});
+
+// Planned vs. eaten kcal per day, over the user's personal plan and their share of household plans.
+app.get('/food-log/adherence', { preHandler: (app as any).authenticate }, async (req: any, reply) => {
+	const Query = z.object({ weekStart: z.string() });
+
+	const query = Query.parse(req.query);
+	const weekStart = parseDateOnly(query.weekStart);
+	if (!weekStart) {
+		return reply.code(400).send({ error: 'weekStart must be YYYY-MM-DD' });
+	}
+
+	const userId = req.user.sub as string;
+	const [plans, entries] = await Promise.all([
+		prisma.mealPlan.findMany({
+			where: { weekStart, OR: [{ userId, householdId: null }, { household: memberOf(userId) }] },
+			include: mealPlanInclude,
+		}),
+		prisma.foodLogEntry.findMany({
+			where: { userId, date: { gte: weekStart, lte: addDaysUtc(weekStart, 6) } },
+		}),
+	]);
+
+	const planned = plans.flatMap((plan) =>
+		plan.meals.flatMap((meal) =>
+			mealEaters(plan, meal)
+				.filter((eater) => eater.userId === userId)
+				.map((eater) => ({
+					id: meal.id,
+					date: formatDateOnly(meal.date),
+					kcal: plannedMealNutrition(meal).kcal * (eater.servings / meal.servings),
+				}))
+		)
+	);
+	const logged = entries.map((entry) => ({
+		date: formatDateOnly(entry.date),
+		status: entry.status,
+		plannedMealId: entry.plannedMealId,
+		kcal: readNutrition(entry.nutrition).kcal,
+	}));
+	const loggedMealIds = new Set(logged.flatMap((entry) => (entry.plannedMealId ? [entry.plannedMealId] : [])));
+
+	const summarize = (dayPlanned: typeof planned, dayLogged: typeof logged) => {
+		const plannedKcal = dayPlanned.reduce((total, meal) => total + meal.kcal, 0);
+		const eatenKcal = dayLogged.reduce((total, entry) => total + entry.kcal, 0);
+		return {
+			plannedKcal: round1(plannedKcal),
+			eatenKcal: round1(eatenKcal),
+			adherencePct: plannedKcal > 0 ? round1((eatenKcal / plannedKcal) * 100) : null,
+			plannedMeals: dayPlanned.length,
+			eaten: dayLogged.filter((entry) => entry.status === 'EATEN' && entry.plannedMealId).length,
+			skipped: dayLogged.filter((entry) => entry.status === 'SKIPPED').length,
+			substituted: dayLogged.filter((entry) => entry.status === 'SUBSTITUTED').length,
+			unlogged: dayPlanned.filter((meal) => !loggedMealIds.has(meal.id)).length,
+			unplanned: dayLogged.filter((entry) => !entry.plannedMealId).length,
+		};
+	};
+
+	const days = Array.from({ length: 7 }, (_, idx) => {
+		const date = formatDateOnly(addDaysUtc(weekStart, idx));
+		return {
+			date,
+			...summarize(
+				planned.filter((meal) => meal.date === date),
+				logged.filter((entry) => entry.date === date)
+			),
+		};
+	});
+
+	return {
+		weekStart: formatDateOnly(weekStart),
+		days,
+		week: summarize(planned, logged),
+	};
+});
+
+const householdInclude = {
+	members: {
+		include: { user: { select: { id: true, email: true } } },
+		orderBy: { joinedAt: 'asc' },
+	},
+	invitations: { where: { acceptedAt: null }, orderBy: { createdAt: 'asc' } },
+} as const;
+
+type HouseholdWithMembers = Prisma.HouseholdGetPayload<{ include: typeof householdInclude }>;
+
+function toHouseholdResponse(household: HouseholdWithMembers, viewerId: string) {
+	const role = household.members.find((m) => m.userId === viewerId)?.role ?? null;
+	return {
+		id: household.id,
+		name: household.name,
+		createdAt: household.createdAt,
+		role,
+		members: household.members.map((m) => ({
+			userId: m.userId,
+			email: m.user.email,
+			role: m.role,
+			joinedAt: m.joinedAt,
+		})),
+		// Pending invitations are only listed for owners, who manage them.
+		invitations:
+			role === 'OWNER'
+				? household.invitations.map((i) => ({
+						id: i.id,
+						email: i.email,
+						createdAt: i.createdAt,
+						expiresAt: i.expiresAt,
+					}))
+				: [],
+	};
+}
+
+async function householdRole(userId: string, householdId: string) {
+	const member = await prisma.householdMember.findUnique({
+		where: { householdId_userId: { householdId, userId } },
+		select: { role: true },
 	});
+	return member?.role ?? null;
+}
 
-	const body = Body.parse(req.body);
+app.get('/households', { preHandler: (app as any).authenticate }, async (req: any) => {
 	const userId = req.user.sub as string;
-	const notes = body.notes?.trim() || null;
 
-	const ingredientIds = [...new Set(body.items.map((i) => i.ingredientId))];
-	const ingredients = await prisma.ingredient.findMany({
-		where: { id: { in: ingredientIds } },
+	const households = await prisma.household.findMany({
+		where: memberOf(userId),
+		orderBy: { createdAt: 'asc' },
+		include: householdInclude,
 	});
 
-	const byId = new Map(ingredients.map((i) => [i.id, i]));
+	return households.map((h) => toHouseholdResponse(h, userId));
+});
 
-	for (const it of body.items) {
-		if (!byId.has(it.ingredientId)) {
-			return reply.status(400).send({ error: `Unknown ingredientId: ${it.ingredientId}` });
-		}
-	}
+app.post('/households', { preHandler: (app as any).authenticate }, async (req: any) => {
+	const Body = z.object({ name: z.string().trim().min(1).max(100) });
+	const body = Body.parse(req.body);
+	const userId = req.user.sub as string;
 
-	const created = await prisma.$transaction(async (tx) => {
-		return tx.recipe.create({
-			data: {
-				userId,
-				name: body.name,
-				servings: body.servings,
-				notes,
-				items: {
-					create: body.items.map((it) => ({
-						ingredientId: it.ingredientId,
-						quantityG: it.quantityG,
-					})),
-				},
-			},
-			include: { items: true },
-		});
+	const household = await prisma.household.create({
+		data: { name: body.name, members: { create: { userId, role: 'OWNER' } } },
+		include: householdInclude,
 	});
 
-	const totals = body.items.reduce(
-		(acc, it) => {
-			const ing = byId.get(it.ingredientId)!;
-			const factor = it.quantityG / 100;
-
-			return add(acc, {
-				kcal: ing.kcalPer100g * factor,
-				protein: ing.proteinPer100g * factor,
-				carbs: ing.carbsPer100g * factor,
-				fat: ing.fatPer100g * factor,
-			});
-		},
-		{ kcal: 0, protein: 0, carbs: 0, fat: 0 }
-	);
-
-	const perServing = {
-		kcal: totals.kcal / body.servings,
-		protein: totals.protein / body.servings,
-		carbs: totals.carbs / body.servings,
-		fat: totals.fat / body.servings,
-	};
-
-	return {
-		recipe: created,
-		nutrition: {
-			total: roundNutrition(totals),
-			perServing: roundNutrition(perServing),
-		},
-	};
+	return toHouseholdResponse(household, userId);
 });
 
-app.get('/recipes', { preHandler: (app as any).authenticate }, async (req: any) => {
+app.get('/households/:id', { preHandler: (app as any).authenticate }, async (req: any, reply) => {
+	const Params = z.object({ id: z.string().min(1) });
+	const { id } = Params.parse(req.params);
 	const userId = req.user.sub as string;
 
-	const recipes = await prisma.recipe.findMany({
-		where: { userId },
-		orderBy: { createdAt: 'desc' },
-		include: {
-			items: { include: { ingredient: true } },
-		},
+	const household = await prisma.household.findFirst({
+		where: { id, ...memberOf(userId) },
+		include: householdInclude,
 	});
 
-	return recipes.map((r) => {
-		const totals = r.items.reduce(
-			(acc, it) => {
-				const factor = it.quantityG / 100;
+	if (!household) {
+		return reply.code(404).send({ error: 'Household not found' });
+	}
 
-				acc.kcal += it.ingredient.kcalPer100g * factor;
-				acc.protein += it.ingredient.proteinPer100g * factor;
-				acc.carbs += it.ingredient.carbsPer100g * factor;
-				acc.fat += it.ingredient.fatPer100g * factor;
+	return toHouseholdResponse(household, userId);
+});
 
-				return acc;
-			},
-			{ kcal: 0, protein: 0, carbs: 0, fat: 0 }
-		);
-
-		const perServingTotals = {
-			kcal: totals.kcal / r.servings,
-			protein: totals.protein / r.servings,
-			carbs: totals.carbs / r.servings,
-			fat: totals.fat / r.servings,
-		};
+app.patch('/households/:id', { preHandler: (app as any).authenticate }, async (req: any, reply) => {
+	const Params = z.object({ id: z.string().min(1) });
+	const Body = z.object({ name: z.string().trim().min(1).max(100) });
+	const { id } = Params.parse(req.params);
+	const body = Body.parse(req.body);
+	const userId = req.user.sub as string;
 
-		return {
-			id: r.id,
-			name: r.name,
-			servings: r.servings,
-			notes: r.notes,
-			createdAt: r.createdAt,
-			nutrition: {
-				total: roundNutrition(totals),
-				perServing: roundNutrition(perServingTotals),
-			},
-		};
+	const role = await householdRole(userId, id);
+	if (!role) {
+		return reply.code(404).send({ error: 'Household not found' });
+	}
+	if (role !== 'OWNER') {
+		return reply.code(403).send({ error: 'Only household owners can rename the household' });
+	}
+
+	const household = await prisma.household.update({
+		where: { id },
+		data: { name: body.name },
+		include: householdInclude,
 	});
+
+	return toHouseholdResponse(household, userId);
 });
 
-app.get('/meal-plans', { preHandler: (app as any).authenticate }, async (req: any, reply) => {
-	const Query = z.object({
-		weekStart: z.string(),
-	});
+// Deletes the household with its meal plans; its recipes stay with their creators.
+app.delete('/households/:id', { preHandler: (app as any).authenticate }, async (req: any, reply) => {
+	const Params = z.object({ id: z.string().min(1) });
+	const { id } = Params.parse(req.params);
+	const userId = req.user.sub as string;
 
-	const query = Query.parse(req.query);
-	const weekStart = parseDateOnly(query.weekStart);
-	if (!weekStart) {
-		return reply.code(400).send({ error: 'weekStart must be YYYY-MM-DD' });
+	const role = await householdRole(userId, id);
+	if (!role) {
+		return reply.code(404).send({ error: 'Household not found' });
+	}
+	if (role !== 'OWNER') {
+		return reply.code(403).send({ error: 'Only household owners can delete the household' });
 	}
 
+	await prisma.household.delete({ where: { id } });
+	return reply.code(204).send();
+});
+
+/**
+ * Invites someone by email. There is no mail delivery, so the accept token is returned once
+ * here for the owner to pass on; only its hash is stored.
+ */
+app.post('/households/:id/invitations', { preHandler: (app as any).authenticate }, async (req: any, reply) => {
+	const Params = z.object({ id: z.string().min(1) });
+	const Body = z.object({ email: z.string().trim().email() });
+	const { id } = Params.parse(req.params);
+	const body = Body.parse(req.body);
 	const userId = req.user.sub as string;
 
-	const plan = await prisma.mealPlan.findFirst({
-		where: { userId, weekStart },
-		include: {
-			meals: {
-				include: {
-					recipe: { select: { id: true, name: true } },
-				},
-			},
-		},
+	const role = await householdRole(userId, id);
+	if (!role) {
+		return reply.code(404).send({ error: 'Household not found' });
+	}
+	if (role !== 'OWNER') {
+		return reply.code(403).send({ error: 'Only household owners can invite members' });
+	}
+
+	const email = body.email.toLowerCase();
+	const alreadyMember = await prisma.householdMember.findFirst({
+		where: { householdId: id, user: { email: { equals: email, mode: 'insensitive' } } },
+		select: { userId: true },
 	});
+	if (alreadyMember) {
+		return reply.code(409).send({ error: 'This user is already a member' });
+	}
 
-	const meals = (plan?.meals ?? [])
-		.map((meal) => ({
-			date: formatDateOnly(meal.date),
-			slot: meal.slot,
-			recipeId: meal.recipe.id,
-			recipeName: meal.recipe.name,
-		}))
-		.sort((a, b) => {
-			const dateCompare = a.date.localeCompare(b.date);
-			if (dateCompare !== 0) return dateCompare;
-			return slotRank(a.slot) - slotRank(b.slot);
-		});
+	const { token, tokenHash } = createInvitationToken();
+	const invitation = await prisma.householdInvitation.create({
+		data: { householdId: id, email, tokenHash, invitedById: userId, expiresAt: invitationExpiry() },
+	});
 
 	return {
-		id: plan?.id ?? null,
-		weekStart: query.weekStart,
-		meals,
+		id: invitation.id,
+		email: invitation.email,
+		createdAt: invitation.createdAt,
+		expiresAt: invitation.expiresAt,
+		token,
 	};
 });
 
-app.put('/meal-plans', { preHandler: (app as any).authenticate }, async (req: any, reply) => {
-	const Body = z.object({
-		weekStart: z.string(),
-		meals: z.array(
-			z.object({
-				date: z.string(),
-				slot: mealSlotSchema,
-				recipeId: z.string().min(1),
-			})
-		),
-	});
-
-	const body = Body.parse(req.body);
-	const weekStart = parseDateOnly(body.weekStart);
-	if (!weekStart) {
-		return reply.code(400).send({ error: 'weekStart must be YYYY-MM-DD' });
-	}
-
-	const meals: Array<{ date: Date; slot: z.infer<typeof mealSlotSchema>; recipeId: string }> = [];
-	for (const meal of body.meals) {
-		const date = parseDateOnly(meal.date);
-		if (!date) {
-			return reply.code(400).send({ error: `Meal date must be YYYY-MM-DD: ${meal.date}` });
-		}
-		if (!isWithinWeek(date, weekStart)) {
-			return reply.code(400).send({ error: `Meal date is outside selected week: ${meal.date}` });
+app.delete(
+	'/households/:id/invitations/:invitationId',
+	{ preHandler: (app as any).authenticate },
+	async (req: any, reply) => {
+		const Params = z.object({ id: z.string().min(1), invitationId: z.string().min(1) });
+		const { id, invitationId } = Params.parse(req.params);
+		const userId = req.user.sub as string;
+
+		if ((await householdRole(userId, id)) !== 'OWNER') {
+			return reply.code(404).send({ error: 'Invitation not found' });
 		}
-		meals.push({ ...meal, date });
-	}
 
-	const seenSlots = new Set<string>();
-	for (const meal of meals) {
-		const key = `${formatDateOnly(meal.date)}:${meal.slot}`;
-		if (seenSlots.has(key)) {
-			return reply.code(400).send({ error: `Duplicate slot for date ${formatDateOnly(meal.date)}` });
+		const { count } = await prisma.householdInvitation.deleteMany({
+			where: { id: invitationId, householdId: id, acceptedAt: null },
+		});
+		if (count === 0) {
+			return reply.code(404).send({ error: 'Invitation not found' });
 		}
-		seenSlots.add(key);
+		return reply.code(204).send();
 	}
+);
 
+// Accepts an invitation addressed to the signed-in user's email.
+app.post('/households/invitations/accept', { preHandler: (app as any).authenticate }, async (req: any, reply) => {
+	const Body = z.object({ token: z.string().min(1) });
+	const body = Body.parse(req.body);
 	const userId = req.user.sub as string;
-	const recipeIds = [...new Set(meals.map((meal) => meal.recipeId))];
 
-	if (recipeIds.length > 0) {
-		const recipes = await prisma.recipe.findMany({
-			where: { userId, id: { in: recipeIds } },
-			select: { id: true },
-		});
-		if (recipes.length !== recipeIds.length) {
-			return reply.code(400).send({ error: 'One or more recipes were not found for this user' });
-		}
+	const invitation = await prisma.householdInvitation.findUnique({
+		where: { tokenHash: hashInvitationToken(body.token) },
+	});
+	if (!invitation || invitation.acceptedAt) {
+		return reply.code(404).send({ error: 'Invitation not found' });
+	}
+	if (invitation.expiresAt.getTime() < Date.now()) {
+		return reply.code(410).send({ error: 'Invitation has expired' });
 	}
 
-	const savedPlan = await prisma.$transaction(async (tx) => {
-		const existing = await tx.mealPlan.findFirst({
-			where: { userId, weekStart },
-			select: { id: true },
+	const user = await prisma.user.findUniqueOrThrow({ where: { id: userId }, select: { email: true } });
+	if (user.email.toLowerCase() !== invitation.email) {
+		return reply.code(403).send({ error: 'This invitation was sent to a different email address' });
+	}
+
+	const household = await prisma.$transaction(async (tx) => {
+		await tx.householdInvitation.update({ where: { id: invitation.id }, data: { acceptedAt: new Date() } });
+		await tx.householdMember.upsert({
+			where: { householdId_userId: { householdId: invitation.householdId, userId } },
+			update: {},
+			create: { householdId: invitation.householdId, userId },
 		});
+		return tx.household.findUniqueOrThrow({ where: { id: invitation.householdId }, include: householdInclude });
+	});
 
-		const planId =
-			existing?.id ??
-			(
-				await tx.mealPlan.create({
-					data: { userId, weekStart },
-					select: { id: true },
-				})
-			).id;
+	return toHouseholdResponse(household, userId);
+});
 
-		await tx.plannedMeal.deleteMany({ where: { planId } });
+app.patch(
+	'/households/:id/members/:userId',
+	{ preHandler: (app as any).authenticate },
+	async (req: any, reply) => {
+		const Params = z.object({ id: z.string().min(1), userId: z.string().min(1) });
+		const Body = z.object({ role: z.enum(['OWNER', 'MEMBER']) });
+		const { id, userId: memberId } = Params.parse(req.params);
+		const body = Body.parse(req.body);
+		const userId = req.user.sub as string;
 
-		if (meals.length > 0) {
-			await tx.plannedMeal.createMany({
-				data: meals.map((meal) => ({
-					planId,
-					date: meal.date,
-					slot: meal.slot,
-					recipeId: meal.recipeId,
-				})),
-			});
+		const role = await householdRole(userId, id);
+		if (!role) {
+			return reply.code(404).send({ error: 'Household not found' });
+		}
+		if (role !== 'OWNER') {
+			return reply.code(403).send({ error: 'Only household owners can change roles' });
 		}
 
-		return tx.mealPlan.findUniqueOrThrow({
-			where: { id: planId },
-			include: {
-				meals: {
-					include: {
-						recipe: { select: { id: true, name: true } },
-					},
-				},
-			},
+		const member = await prisma.householdMember.findUnique({
+			where: { householdId_userId: { householdId: id, userId: memberId } },
 		});
-	});
+		if (!member) {
+			return reply.code(404).send({ error: 'Member not found' });
+		}
 
-	const savedMeals = savedPlan.meals
-		.map((meal) => ({
-			date: formatDateOnly(meal.date),
-			slot: meal.slot,
-			recipeId: meal.recipe.id,
-			recipeName: meal.recipe.name,
-		}))
-		.sort((a, b) => {
-			const dateCompare = a.date.localeCompare(b.date);
-			if (dateCompare !== 0) return dateCompare;
-			return slotRank(a.slot) - slotRank(b.slot);
+		if (member.role === 'OWNER' && body.role === 'MEMBER') {
+			const ownerCount = await prisma.householdMember.count({ where: { householdId: id, role: 'OWNER' } });
+			if (ownerCount <= 1) {
+				return reply.code(409).send({ error: 'A household needs at least one owner' });
+			}
+		}
+
+		await prisma.householdMember.update({
+			where: { householdId_userId: { householdId: id, userId: memberId } },
+			data: { role: body.role },
 		});
 
-	return {
-		id: savedPlan.id,
-		weekStart: formatDateOnly(savedPlan.weekStart),
-		meals: savedMeals,
-	};
-});
+		const household = await prisma.household.findUniqueOrThrow({ where: { id }, include: householdInclude });
+		return toHouseholdResponse(household, userId);
+	}
+);
+
+// Owners can remove anyone; members can only leave themselves.
+app.delete(
+	'/households/:id/members/:userId',
+	{ preHandler: (app as any).authenticate },
+	async (req: any, reply) => {
+		const Params = z.object({ id: z.string().min(1), userId: z.string().min(1) });
+		const { id, userId: memberId } = Params.parse(req.params);
+		const userId = req.user.sub as string;
+
+		const role = await householdRole(userId, id);
+		if (!role) {
+			return reply.code(404).send({ error: 'Household not found' });
+		}
+		if (role !== 'OWNER' && memberId !== userId) {
+			return reply.code(403).send({ error: 'Only household owners can remove other members' });
+		}
+
+		const member = await prisma.householdMember.findUnique({
+			where: { householdId_userId: { householdId: id, userId: memberId } },
+		});
+		if (!member) {
+			return reply.code(404).send({ error: 'Member not found' });
+		}
+
+		if (member.role === 'OWNER') {
+			const ownerCount = await prisma.householdMember.count({ where: { householdId: id, role: 'OWNER' } });
+			if (ownerCount <= 1) {
+				return reply
+					.code(409)
+					.send({ error: 'The last owner cannot leave. Make someone else owner or delete the household.' });
+			}
+		}
+
+		await prisma.householdMember.delete({
+			where: { householdId_userId: { householdId: id, userId: memberId } },
+		});
+		return reply.code(204).send();
+	}
+);
 
 app.post('/admin/bootstrap-self', { preHandler: (app as any).authenticate }, async (req: any, reply) => {
 	const adminCount = await prisma.user.count({ where: { role: 'ADMIN' } });
@@ -426,6 +3770,31 @@ app.post('/admin/bootstrap-self', { preHandler: (app as any).authenticate }, asy
 	return updated;
 });
 
+app.get('/admin/meal-slots', { preHandler: [(app as any).authenticate, requireAdmin] }, async () => {
+	return { slots: await loadDefaultMealSlots() };
+});
+
+app.put(
+	'/admin/meal-slots',
+	{ preHandler: [(app as any).authenticate, requireAdmin] },
+	async (req, reply) => {
+		const Body = z.object({ slots: mealSlotConfigSchema });
+		const body = Body.parse(req.body);
+
+		const configError = findMealSlotConfigError(body.slots);
+		if (configError) {
+			return reply.code(400).send({ error: configError });
+		}
+
+		await prisma.$transaction(async (tx) => {
+			await tx.mealSlot.deleteMany({ where: { userId: null } });
+			await tx.mealSlot.createMany({ data: body.slots });
+		});
+
+		return { slots: await loadDefaultMealSlots() };
+	}
+);
+
 app.get('/admin/users', { preHandler: [(app as any).authenticate, requireAdmin] }, async () => {
 	return prisma.user.findMany({
 		orderBy: [{ role: 'desc' }, { createdAt: 'asc' }],
@@ -512,6 +3881,138 @@ app.get('/me', { preHandler: (app as any).authenticate }, async (req: any) => {
 	});
 });
 
-app.listen({ port: 3001, host: '0.0.0.0' }).then(() => {
-	console.log('API running on http://localhost:3001');
+app.get('/meal-slots', { preHandler: (app as any).authenticate }, async (req: any, reply) => {
+	const Query = z.object({ householdId: householdIdSchema });
+	const query = Query.parse(req.query);
+
+	const scope = await resolvePlanScope(req.user.sub as string, query.householdId);
+	if (!scope) {
+		return reply.code(404).send({ error: 'Household not found' });
+	}
+	return loadPlanSlots(scope);
+});
+
+app.put('/me/meal-slots', { preHandler: (app as any).authenticate }, async (req: any, reply) => {
+	const Body = z.object({ slots: mealSlotConfigSchema });
+	const body = Body.parse(req.body);
+	const userId = req.user.sub as string;
+
+	const configError = findMealSlotConfigError(body.slots);
+	if (configError) {
+		return reply.code(400).send({ error: configError });
+	}
+
+	await prisma.$transaction(async (tx) => {
+		await tx.mealSlot.deleteMany({ where: { userId } });
+		await tx.mealSlot.createMany({
+			data: body.slots.map((slot) => ({ userId, ...slot })),
+		});
+	});
+
+	return loadMealSlots(userId);
+});
+
+app.delete('/me/meal-slots', { preHandler: (app as any).authenticate }, async (req: any) => {
+	const userId = req.user.sub as string;
+	await prisma.mealSlot.deleteMany({ where: { userId } });
+	return loadMealSlots(userId);
+});
+
+app.get('/me/targets', { preHandler: (app as any).authenticate }, async (req: any) => {
+	const userId = req.user.sub as string;
+	return (await loadTargetProfile(userId)) ?? { tolerancePct: 10, daily: emptyTarget, weekdays: [] };
+});
+
+app.put('/me/targets', { preHandler: (app as any).authenticate }, async (req: any, reply) => {
+	const TargetValues = z.object({
+		kcal: z.number().min(0).nullable(),
+		protein: z.number().min(0).nullable(),
+		carbs: z.number().min(0).nullable(),
+		fat: z.number().min(0).nullable(),
+	});
+	const Body = z.object({
+		tolerancePct: z.number().min(0).max(100),
+		daily: TargetValues,
+		weekdays: z.array(TargetValues.extend({ weekday: z.number().int().min(1).max(7) })).max(7),
+	});
+
+	const body = Body.parse(req.body);
+	const userId = req.user.sub as string;
+
+	const seenWeekdays = new Set<number>();
+	for (const w of body.weekdays) {
+		if (seenWeekdays.has(w.weekday)) {
+			return reply.code(400).send({ error: `Duplicate target for weekday ${w.weekday}` });
+		}
+		seenWeekdays.add(w.weekday);
+	}
+
+	const profileData = {
+		kcalTarget: body.daily.kcal,
+		proteinTarget: body.daily.protein,
+		carbsTarget: body.daily.carbs,
+		fatTarget: body.daily.fat,
+		targetTolerancePct: body.tolerancePct,
+	};
+
+	await prisma.$transaction(async (tx) => {
+		await tx.userProfile.upsert({
+			where: { userId },
+			update: profileData,
+			create: { userId, ...profileData },
+		});
+
+		await tx.weekdayNutritionTarget.deleteMany({ where: { userId } });
+
+		if (body.weekdays.length > 0) {
+			await tx.weekdayNutritionTarget.createMany({
+				data: body.weekdays.map((w) => ({ userId, ...w })),
+			});
+		}
+	});
+
+	return loadTargetProfile(userId);
+});
+
+async function loadOwnRestrictions(userId: string): Promise<DietaryRestrictions> {
+	const profile = await prisma.userProfile.findUnique({
+		where: { userId },
+		select: { avoidAllergens: true, requiredDiets: true, strictDiet: true },
+	});
+	return profile
+		? { avoidAllergens: profile.avoidAllergens, requiredDiets: profile.requiredDiets, strict: profile.strictDiet }
+		: noRestrictions;
+}
+
+app.get('/me/dietary-restrictions', { preHandler: (app as any).authenticate }, async (req: any) => {
+	return loadOwnRestrictions(req.user.sub as string);
+});
+
+app.put('/me/dietary-restrictions', { preHandler: (app as any).authenticate }, async (req: any) => {
+	const Body = z.object({
+		avoidAllergens: allergensSchema,
+		requiredDiets: dietTagsSchema,
+		strict: z.boolean().default(false),
+	});
+	const body = Body.parse(req.body);
+	const userId = req.user.sub as string;
+
+	const profileData = {
+		avoidAllergens: body.avoidAllergens,
+		requiredDiets: body.requiredDiets,
+		strictDiet: body.strict,
+	};
+	await prisma.userProfile.upsert({
+		where: { userId },
+		update: profileData,
+		create: { userId, ...profileData },
+	});
+
+	return loadOwnRestrictions(userId);
 });
+
+ensureDatabaseConstraints()
+	.then(() => app.listen({ port: 3001, host: '0.0.0.0' }))
+	.then(() => {
+		console.log('API running on http://localhost:3001');
+	});
@@ -0,0 +1,122 @@
+import { round1 } from './nutrition.js';
+import { toCsv } from './csv.js';
+
+type ShoppingListIngredient = { id: string; name: string; category: string | null };
+
+export type ShoppingListLine = {
+  quantityG: number;
+  ingredient: ShoppingListIngredient;
+};
+
+export type ShoppingListMeal = {
+  servings: number;
+  quantityG: number | null;
+  ingredient: ShoppingListIngredient | null;
+  recipe: {
+    servings: number;
+    items: ShoppingListLine[];
+  } | null;
+};
+
+export type ShoppingListItem = {
+  ingredientId: string;
+  name: string;
+  quantityG: number;
+  inPantryG: number;
+  toBuyG: number;
+  checked: boolean;
+};
+
+export type ShoppingListGroup = {
+  category: string;
+  items: ShoppingListItem[];
+};
+
+const UNCATEGORIZED = 'Other';
+
+export function plannedMealLines(meal: ShoppingListMeal): ShoppingListLine[] {
+  if (meal.recipe) {
+    const factor = meal.servings / meal.recipe.servings;
+    return meal.recipe.items.map((it) => ({ ingredient: it.ingredient, quantityG: it.quantityG * factor }));
+  }
+
+  if (meal.ingredient && meal.quantityG !== null) {
+    return [{ ingredient: meal.ingredient, quantityG: meal.quantityG }];
+  }
+
+  return [];
+}
+
+// `pantry` holds grams in stock per ingredient id; only the rest needs to be bought.
+export function buildShoppingList(
+  lines: ShoppingListLine[],
+  checkedIngredientIds: Set<string>,
+  pantry: Map<string, number> = new Map()
+): ShoppingListGroup[] {
+  const totals = new Map<string, { name: string; category: string; quantityG: number }>();
+
+  for (const line of lines) {
+    const entry = totals.get(line.ingredient.id) ?? {
+      name: line.ingredient.name,
+      category: line.ingredient.category?.trim() || UNCATEGORIZED,
+      quantityG: 0,
+    };
+    entry.quantityG += line.quantityG;
+    totals.set(line.ingredient.id, entry);
+  }
+
+  const groups = new Map<string, ShoppingListItem[]>();
+  for (const [ingredientId, entry] of totals) {
+    const items = groups.get(entry.category) ?? [];
+    const inPantryG = Math.min(pantry.get(ingredientId) ?? 0, entry.quantityG);
+    items.push({
+      ingredientId,
+      name: entry.name,
+      quantityG: round1(entry.quantityG),
+      inPantryG: round1(inPantryG),
+      toBuyG: round1(entry.quantityG - inPantryG),
+      checked: checkedIngredientIds.has(ingredientId),
+    });
+    groups.set(entry.category, items);
+  }
+
+  return [...groups]
+    .map(([category, items]) => ({
+      category,
+      items: items.sort((a, b) => a.name.localeCompare(b.name)),
+    }))
+    .sort((a, b) => {
+      if (a.category === UNCATEGORIZED) return 1;
+      if (b.category === UNCATEGORIZED) return -1;
+      return a.category.localeCompare(b.category);
+    });
+}
+
+export function shoppingListToCsv(groups: ShoppingListGroup[]): string {
+  const rows = [['category', 'ingredient', 'quantity_g', 'in_pantry_g', 'to_buy_g', 'checked']];
+  for (const group of groups) {
+    for (const item of group.items) {
+      rows.push([
+        group.category,
+        item.name,
+        String(item.quantityG),
+        String(item.inPantryG),
+        String(item.toBuyG),
+        item.checked ? 'yes' : 'no',
+      ]);
+    }
+  }
+  return toCsv(rows);
+}
+
+export function shoppingListToText(weekStart: string, groups: ShoppingListGroup[]): string {
+  const lines = [`Shopping list - week of ${weekStart}`];
+  for (const group of groups) {
+    lines.push('', group.category);
+    for (const item of group.items) {
+      const pantryNote = item.inPantryG > 0 ? ` (${item.inPantryG} g in pantry)` : '';
+      lines.push(`[${item.checked ? 'x' : ' '}] ${item.name} - ${item.toBuyG} g${pantryNote}`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,55 @@
+import type { NutrientKey, Nutrition } from './nutrition.js';
+
+// Targets cover energy and the three macros only.
+export type TargetNutrientKey = Extract<NutrientKey, 'kcal' | 'protein' | 'carbs' | 'fat'>;
+export type NutritionTarget = Record<TargetNutrientKey, number | null>;
+export type TargetStatus = 'under' | 'ok' | 'over';
+
+export type TargetProfile = {
+  tolerancePct: number;
+  daily: NutritionTarget;
+  weekdays: Array<NutritionTarget & { weekday: number }>;
+};
+
+const targetKeys: TargetNutrientKey[] = ['kcal', 'protein', 'carbs', 'fat'];
+
+export const emptyTarget: NutritionTarget = { kcal: null, protein: null, carbs: null, fat: null };
+
+export function isoWeekday(date: Date): number {
+  const day = date.getUTCDay();
+  return day === 0 ? 7 : day;
+}
+
+export function resolveTarget(profile: TargetProfile, date: Date): NutritionTarget {
+  const override = profile.weekdays.find((w) => w.weekday === isoWeekday(date));
+  return {
+    kcal: override?.kcal ?? profile.daily.kcal,
+    protein: override?.protein ?? profile.daily.protein,
+    carbs: override?.carbs ?? profile.daily.carbs,
+    fat: override?.fat ?? profile.daily.fat,
+  };
+}
+
+// False for a profile that only holds other settings, such as dietary restrictions.
+export function hasAnyTarget(profile: TargetProfile): boolean {
+  return [profile.daily, ...profile.weekdays].some((target) => targetKeys.some((key) => target[key] !== null));
+}
+
+export function compareToTarget(actual: Nutrition, target: NutritionTarget, tolerancePct: number) {
+  const status: Partial<Record<TargetNutrientKey, TargetStatus>> = {};
+
+  for (const key of targetKeys) {
+    const goal = target[key];
+    if (goal === null) continue;
+
+    const margin = (goal * tolerancePct) / 100;
+    if (actual[key] < goal - margin) status[key] = 'under';
+    else if (actual[key] > goal + margin) status[key] = 'over';
+    else status[key] = 'ok';
+  }
+
+  return {
+    status,
+    offTarget: Object.values(status).some((s) => s !== 'ok'),
+  };
+}
@@ -0,0 +1,95 @@
+export type UnitKind = 'mass' | 'volume' | 'portion';
+
+export type UnitOption = {
+  unit: string;
+  label: string;
+  kind: UnitKind;
+  // Grams for a quantity of 1 in this unit.
+  grams: number;
+};
+
+export type PortionDefinition = {
+  unit: string;
+  label: string | null;
+  grams: number;
+};
+
+export type ConvertibleIngredient = {
+  densityGPerMl: number | null;
+  portions: PortionDefinition[];
+};
+
+const massUnits: Array<{ unit: string; label: string; grams: number }> = [
+  { unit: 'g', label: 'g', grams: 1 },
+  { unit: 'kg', label: 'kg', grams: 1000 },
+  { unit: 'oz', label: 'oz', grams: 28.3495 },
+  { unit: 'lb', label: 'lb', grams: 453.592 },
+];
+
+const volumeUnits: Array<{ unit: string; label: string; ml: number }> = [
+  { unit: 'ml', label: 'ml', ml: 1 },
+  { unit: 'l', label: 'l', ml: 1000 },
+  { unit: 'tsp', label: 'tsp', ml: 4.92892 },
+  { unit: 'tbsp', label: 'tbsp', ml: 14.7868 },
+  { unit: 'cup', label: 'cup', ml: 240 },
+];
+
+export const UNIT_KEY_REGEX = /^[a-z][a-z0-9_]{0,31}$/;
+
+export function normalizeUnit(unit: string) {
+  return unit.trim().toLowerCase();
+}
+
+/**
+ * Units an ingredient can be measured in. Ingredient portions take precedence over
+ * generic units with the same key (e.g. a "tbsp" portion for oil beats the density-based one),
+ * and volume units are only offered when the ingredient has a density.
+ */
+export function availableUnits(ingredient: ConvertibleIngredient): UnitOption[] {
+  const options = new Map<string, UnitOption>();
+
+  for (const m of massUnits) {
+    options.set(m.unit, { unit: m.unit, label: m.label, kind: 'mass', grams: m.grams });
+  }
+
+  if (ingredient.densityGPerMl !== null && ingredient.densityGPerMl > 0) {
+    for (const v of volumeUnits) {
+      options.set(v.unit, {
+        unit: v.unit,
+        label: v.label,
+        kind: 'volume',
+        grams: v.ml * ingredient.densityGPerMl,
+      });
+    }
+  }
+
+  for (const p of ingredient.portions) {
+    options.set(p.unit, { unit: p.unit, label: p.label || p.unit, kind: 'portion', grams: p.grams });
+  }
+
+  return [...options.values()];
+}
+
+export function toGrams(ingredient: ConvertibleIngredient, quantity: number, unit: string): number | null {
+  const key = normalizeUnit(unit);
+  const option = availableUnits(ingredient).find((o) => o.unit === key);
+  if (!option) return null;
+  return Math.round(quantity * option.grams * 100) / 100;
+}
+
+/**
+ * Rounds a scaled quantity to what a cook can measure: grams and millilitres to 0.1 below 10,
+ * to whole units below 100 and to 5 above; kilograms and litres to 0.01; spoons, cups,
+ * ounces, pounds and portions to quarters.
+ */
+export function roundQuantity(quantity: number, unit: string): number {
+  const key = normalizeUnit(unit);
+  const roundTo = (step: number) => Math.max(Math.round(quantity / step) * step, quantity > 0 ? step : 0);
+
+  if (key === 'g' || key === 'ml') {
+    if (quantity < 10) return Math.round(roundTo(0.1) * 10) / 10;
+    return quantity < 100 ? roundTo(1) : roundTo(5);
+  }
+  if (key === 'kg' || key === 'l') return Math.round(roundTo(0.01) * 100) / 100;
+  return roundTo(0.25);
+}
@@ -7,10 +7,21 @@ import ProtectedRoute from './auth/ProtectedRoute';
 import AdminBootstrapPage from './pages/AdminBootstrapPage';
 import AdminIngredientsPage from './pages/AdminIngredientsPage';
 import AdminUsersPage from './pages/AdminUsersPage';
+import BatchCookingPage from './pages/BatchCookingPage';
+import CookModePage from './pages/CookModePage';
+import DiaryPage from './pages/DiaryPage';
+import HouseholdsPage from './pages/HouseholdsPage';
 import LoginPage from './pages/LoginPage';
+import MealSlotsPage from './pages/MealSlotsPage';
+import MyIngredientsPage from './pages/MyIngredientsPage';
+import PantryPage from './pages/PantryPage';
 import RegisterPage from './pages/RegisterPage';
 import RecipeCreate from './pages/RecipeCreate';
+import RecipeLibraryPage from './pages/RecipeLibraryPage';
+import RecipeViewPage from './pages/RecipeViewPage';
 import RecipesList from './pages/RecipesList';
+import ShoppingListPage from './pages/ShoppingListPage';
+import TargetsPage from './pages/TargetsPage';
 import WeeklyMealPlanPage from './pages/WeeklyMealPlanPage';
 
 export default function App() {
@@ -34,14 +45,41 @@ export default function App() {
 							<Button color="inherit" component={RouterLink} to="/recipes/new">
 								New Recipe
 							</Button>
+							<Button color="inherit" component={RouterLink} to="/recipes/library">
+								Library
+							</Button>
+							<Button color="inherit" component={RouterLink} to="/my-ingredients">
+								My Ingredients
+							</Button>
 							<Button color="inherit" component={RouterLink} to="/meal-planner">
 								Meal Planner
 							</Button>
+							<Button color="inherit" component={RouterLink} to="/shopping-list">
+								Shopping List
+							</Button>
+							<Button color="inherit" component={RouterLink} to="/targets">
+								Targets
+							</Button>
+							<Button color="inherit" component={RouterLink} to="/diary">
+								Diary
+							</Button>
+							<Button color="inherit" component={RouterLink} to="/pantry">
+								Pantry
+							</Button>
+							<Button color="inherit" component={RouterLink} to="/batches">
+								Batches
+							</Button>
+							<Button color="inherit" component={RouterLink} to="/households">
+								Households
+							</Button>
 							{isAdmin ? (
 								<>
 									<Button color="inherit" component={RouterLink} to="/admin/ingredients">
 										Ingredients Admin
 									</Button>
+									<Button color="inherit" component={RouterLink} to="/admin/meal-slots">
+										Default Slots
+									</Button>
 									<Button color="inherit" component={RouterLink} to="/admin/users">
 										Manage Admins
 									</Button>
@@ -92,6 +130,38 @@ export default function App() {
 							</ProtectedRoute>
 						}
 					/>
+					<Route
+						path="/recipes/library"
+						element={
+							<ProtectedRoute>
+								<RecipeLibraryPage />
+							</ProtectedRoute>
+						}
+					/>
+					<Route
+						path="/recipes/:id"
+						element={
+							<ProtectedRoute>
+								<RecipeViewPage />
+							</ProtectedRoute>
+						}
+					/>
+					<Route
+						path="/recipes/:id/cook"
+						element={
+							<ProtectedRoute>
+								<CookModePage />
+							</ProtectedRoute>
+						}
+					/>
+					<Route
+						path="/recipes/:id/edit"
+						element={
+							<ProtectedRoute>
+								<RecipeCreate />
+							</ProtectedRoute>
+						}
+					/>
 					<Route
 						path="/meal-planner"
 						element={
@@ -100,6 +170,70 @@ export default function App() {
 							</ProtectedRoute>
 						}
 					/>
+					<Route
+						path="/my-ingredients"
+						element={
+							<ProtectedRoute>
+								<MyIngredientsPage />
+							</ProtectedRoute>
+						}
+					/>
+					<Route
+						path="/shopping-list"
+						element={
+							<ProtectedRoute>
+								<ShoppingListPage />
+							</ProtectedRoute>
+						}
+					/>
+					<Route
+						path="/targets"
+						element={
+							<ProtectedRoute>
+								<TargetsPage />
+							</ProtectedRoute>
+						}
+					/>
+					<Route
+						path="/diary"
+						element={
+							<ProtectedRoute>
+								<DiaryPage />
+							</ProtectedRoute>
+						}
+					/>
+					<Route
+						path="/pantry"
+						element={
+							<ProtectedRoute>
+								<PantryPage />
+							</ProtectedRoute>
+						}
+					/>
+					<Route
+						path="/batches"
+						element={
+							<ProtectedRoute>
+								<BatchCookingPage />
+							</ProtectedRoute>
+						}
+					/>
+					<Route
+						path="/households"
+						element={
+							<ProtectedRoute>
+								<HouseholdsPage />
+							</ProtectedRoute>
+						}
+					/>
+					<Route
+						path="/meal-slots"
+						element={
+							<ProtectedRoute>
+								<MealSlotsPage scope="user" />
+							</ProtectedRoute>
+						}
+					/>
 					<Route
 						path="/admin/bootstrap"
 						element={
@@ -116,6 +250,14 @@ export default function App() {
 							</AdminRoute>
 						}
 					/>
+					<Route
+						path="/admin/meal-slots"
+						element={
+							<AdminRoute>
+								<MealSlotsPage scope="admin" />
+							</AdminRoute>
+						}
+					/>
 					<Route
 						path="/admin/users"
 						element={
@@ -0,0 +1,47 @@
+import { useId } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { FormControl, InputLabel, MenuItem, Select } from '@mui/material';
+
+import { dietaryTagLabel, fetchDietaryTags } from '../lib/dietary';
+
+/** Picks allergen or diet keys from the catalogue the API knows. */
+export default function DietaryTagSelect({
+	kind,
+	label,
+	value,
+	onChange,
+	size,
+}: {
+	kind: 'allergens' | 'diets';
+	label: string;
+	value: string[];
+	onChange: (keys: string[]) => void;
+	size?: 'small' | 'medium';
+}) {
+	const labelId = useId();
+	const { data } = useQuery({
+		queryKey: ['dietary-tags'],
+		queryFn: fetchDietaryTags,
+	});
+	const tags = data?.[kind];
+
+	return (
+		<FormControl size={size ?? 'medium'} sx={{ minWidth: 200 }} fullWidth>
+			<InputLabel id={labelId}>{label}</InputLabel>
+			<Select
+				multiple
+				labelId={labelId}
+				label={label}
+				value={value}
+				onChange={(e) => onChange(typeof e.target.value === 'string' ? e.target.value.split(',') : e.target.value)}
+				renderValue={(selected) => selected.map((key) => dietaryTagLabel(tags, key)).join(', ')}
+			>
+				{(tags ?? []).map((tag) => (
+					<MenuItem key={tag.key} value={tag.key}>
+						{tag.label}
+					</MenuItem>
+				))}
+			</Select>
+		</FormControl>
+	);
+}
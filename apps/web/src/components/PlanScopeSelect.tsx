@@ -0,0 +1,50 @@
+import { useQuery } from '@tanstack/react-query';
+import { FormControl, InputLabel, MenuItem, Select } from '@mui/material';
+
+import { apiFetch } from '../lib/api';
+
+type HouseholdOption = {
+	id: string;
+	name: string;
+};
+
+async function fetchHouseholds(): Promise<HouseholdOption[]> {
+	return apiFetch<HouseholdOption[]>('/households');
+}
+
+/** Switches between the personal plan ('') and the plans of the user's households. */
+export default function PlanScopeSelect({
+	value,
+	onChange,
+}: {
+	value: string;
+	onChange: (householdId: string) => void;
+}) {
+	const { data } = useQuery({
+		queryKey: ['households'],
+		queryFn: fetchHouseholds,
+	});
+
+	if (!data?.length) {
+		return null;
+	}
+
+	return (
+		<FormControl size="small" sx={{ minWidth: 200 }}>
+			<InputLabel id="plan-scope-label">Plan</InputLabel>
+			<Select
+				labelId="plan-scope-label"
+				label="Plan"
+				value={value}
+				onChange={(e) => onChange(e.target.value)}
+			>
+				<MenuItem value="">Personal</MenuItem>
+				{data.map((household) => (
+					<MenuItem key={household.id} value={household.id}>
+						{household.name}
+					</MenuItem>
+				))}
+			</Select>
+		</FormControl>
+	);
+}
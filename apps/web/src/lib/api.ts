@@ -15,7 +15,7 @@ export function registerTokenGetter(getter: () => string | null): void {
 	tokenGetter = getter;
 }
 
-export async function apiFetch<T>(path: string, init?: RequestInit): Promise<T> {
+async function request(path: string, init?: RequestInit): Promise<Response> {
 	const headers = new Headers(init?.headers ?? {});
 	const token = tokenGetter?.();
 
@@ -37,9 +37,20 @@ export async function apiFetch<T>(path: string, init?: RequestInit): Promise<T>
 		throw new ApiError(text || response.statusText || 'Request failed', response.status);
 	}
 
+	return response;
+}
+
+export async function apiFetch<T>(path: string, init?: RequestInit): Promise<T> {
+	const response = await request(path, init);
+
 	if (response.status === 204) {
 		return undefined as T;
 	}
 
 	return response.json() as Promise<T>;
 }
+
+export async function apiFetchText(path: string, init?: RequestInit): Promise<string> {
+	const response = await request(path, init);
+	return response.text();
+}
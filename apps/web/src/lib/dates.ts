@@ -0,0 +1,46 @@
+export function parseDateOnly(value: string): Date {
+	const [year, month, day] = value.split('-').map(Number);
+	return new Date(Date.UTC(year, month - 1, day));
+}
+
+export function formatDateOnly(date: Date): string {
+	return date.toISOString().slice(0, 10);
+}
+
+export function addDaysUtc(date: Date, days: number): Date {
+	const next = new Date(date);
+	next.setUTCDate(next.getUTCDate() + days);
+	return next;
+}
+
+export function startOfWeekMonday(date: Date): Date {
+	const day = date.getUTCDay();
+	const offset = day === 0 ? -6 : 1 - day;
+	return addDaysUtc(date, offset);
+}
+
+export function todayDateOnly(): string {
+	return new Date().toISOString().slice(0, 10);
+}
+
+export function currentWeekStart(): string {
+	return formatDateOnly(startOfWeekMonday(parseDateOnly(todayDateOnly())));
+}
+
+export function weekStartOf(value: string): string {
+	return formatDateOnly(startOfWeekMonday(parseDateOnly(value)));
+}
+
+export function buildWeekDates(weekStart: string): string[] {
+	const start = parseDateOnly(weekStart);
+	return Array.from({ length: 7 }, (_, idx) => formatDateOnly(addDaysUtc(start, idx)));
+}
+
+export function formatDisplayDate(date: string): string {
+	return new Intl.DateTimeFormat(undefined, {
+		weekday: 'short',
+		month: 'short',
+		day: 'numeric',
+		timeZone: 'UTC',
+	}).format(parseDateOnly(date));
+}
@@ -0,0 +1,22 @@
+import { apiFetch } from './api';
+
+export type DietaryTag = { key: string; label: string };
+
+export type DietaryTagCatalog = {
+	allergens: DietaryTag[];
+	diets: DietaryTag[];
+};
+
+export type DietaryRestrictions = {
+	avoidAllergens: string[];
+	requiredDiets: string[];
+	strict: boolean;
+};
+
+export async function fetchDietaryTags(): Promise<DietaryTagCatalog> {
+	return apiFetch<DietaryTagCatalog>('/dietary-tags');
+}
+
+export function dietaryTagLabel(tags: DietaryTag[] | undefined, key: string): string {
+	return tags?.find((tag) => tag.key === key)?.label ?? key;
+}
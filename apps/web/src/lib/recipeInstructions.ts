@@ -0,0 +1,51 @@
+// The `instructions` shape in recipe details that this app understands. Recipes with another
+// version fall back to their notes.
+export const RECIPE_INSTRUCTIONS_VERSION = 1;
+
+export type RecipeStepItem = {
+	id: string;
+	ingredientId: string;
+	ingredientName: string;
+	quantityG: number;
+	quantity: number | null;
+	unit: string | null;
+};
+
+export type RecipeStep = {
+	id: string;
+	position: number;
+	text: string;
+	durationSeconds: number | null;
+	items: RecipeStepItem[];
+};
+
+export type RecipeInstructions = {
+	version: number;
+	prepMinutes: number | null;
+	cookMinutes: number | null;
+	steps: RecipeStep[];
+};
+
+export function readableSteps(instructions: RecipeInstructions | undefined): RecipeStep[] {
+	return instructions?.version === RECIPE_INSTRUCTIONS_VERSION ? instructions.steps : [];
+}
+
+export function formatStepItem(item: RecipeStepItem): string {
+	const amount = item.quantity !== null && item.unit ? `${item.quantity} ${item.unit}` : `${item.quantityG} g`;
+	return `${amount} ${item.ingredientName}`;
+}
+
+// "1:05:00" for an hour and five minutes, "4:30" below an hour.
+export function formatTimer(seconds: number): string {
+	const h = Math.floor(seconds / 3600);
+	const m = Math.floor((seconds % 3600) / 60);
+	const s = seconds % 60;
+	const pad = (n: number) => String(n).padStart(2, '0');
+	return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${m}:${pad(s)}`;
+}
+
+export function formatMinutes(minutes: number): string {
+	if (minutes < 60) return `${minutes} min`;
+	const rest = minutes % 60;
+	return rest === 0 ? `${minutes / 60} h` : `${Math.floor(minutes / 60)} h ${rest} min`;
+}
@@ -1,14 +1,28 @@
 ﻿import { useMemo, useState } from 'react';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import EditOutlinedIcon from '@mui/icons-material/EditOutlined';
+import HistoryIcon from '@mui/icons-material/History';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
 import {
+	Accordion,
+	AccordionDetails,
+	AccordionSummary,
 	Alert,
 	Box,
 	Button,
 	Card,
 	CardContent,
 	CircularProgress,
+	Dialog,
+	DialogActions,
+	DialogContent,
+	DialogTitle,
+	FormControl,
 	IconButton,
+	InputLabel,
+	MenuItem,
+	Select,
 	Stack,
 	Table,
 	TableBody,
@@ -20,7 +34,8 @@ import {
 	Typography,
 } from '@mui/material';
 
-import { ApiError, apiFetch } from '../lib/api';
+import DietaryTagSelect from '../components/DietaryTagSelect';
+import { ApiError, apiFetch, apiFetchText } from '../lib/api';
 
 type Ingredient = {
 	id: string;
@@ -29,6 +44,33 @@ type Ingredient = {
 	proteinPer100g: number;
 	carbsPer100g: number;
 	fatPer100g: number;
+	category: string | null;
+	allergens: string[];
+	dietTags: string[];
+	densityGPerMl: number | null;
+	portions: Portion[];
+	source: string | null;
+	sourceId: string | null;
+	ownerId: string | null;
+} & ExtraNutrients;
+
+type PrivateIngredient = Ingredient & {
+	owner: { id: string; email: string };
+	recipeItemCount: number;
+};
+
+type Portion = {
+	unit: string;
+	label: string | null;
+	grams: number;
+};
+
+type ExtraNutrients = {
+	fiberPer100g: number;
+	sugarsPer100g: number;
+	saturatedFatPer100g: number;
+	sodiumPer100g: number;
+	micronutrientsPer100g: Record<string, number>;
 };
 
 type IngredientInput = {
@@ -37,12 +79,156 @@ type IngredientInput = {
 	proteinPer100g: number;
 	carbsPer100g: number;
 	fatPer100g: number;
+	category?: string;
+	allergens?: string[];
+	dietTags?: string[];
+	densityGPerMl?: number | null;
+	portions?: Array<{ unit: string; label?: string; grams: number }>;
+} & ExtraNutrients;
+
+type NutrientDefinition = {
+	key: string;
+	label: string;
+	unit: string;
+};
+
+type NutrientCatalog = {
+	core: NutrientDefinition[];
+	micronutrients: NutrientDefinition[];
+};
+
+const emptyExtraNutrients: ExtraNutrients = {
+	fiberPer100g: 0,
+	sugarsPer100g: 0,
+	saturatedFatPer100g: 0,
+	sodiumPer100g: 0,
+	micronutrientsPer100g: {},
+};
+
+const EXTRA_CORE_FIELDS: Array<{
+	field: Exclude<keyof ExtraNutrients, 'micronutrientsPer100g'>;
+	label: string;
+}> = [
+	{ field: 'fiberPer100g', label: 'Fiber (g) / 100g' },
+	{ field: 'sugarsPer100g', label: 'Sugars (g) / 100g' },
+	{ field: 'saturatedFatPer100g', label: 'Saturated fat (g) / 100g' },
+	{ field: 'sodiumPer100g', label: 'Sodium (mg) / 100g' },
+];
+
+type IngredientSnapshot = Omit<
+	Ingredient,
+	'id' | 'densityGPerMl' | 'portions' | 'source' | 'sourceId' | 'ownerId'
+>;
+
+type RevisionValue = string | number | string[] | Record<string, number> | null;
+
+type IngredientRevision = {
+	id: string;
+	action: 'BASELINE' | 'CREATE' | 'UPDATE' | 'REVERT' | 'PROMOTE';
+	changedAt: string;
+	changedBy: { id: string; email: string } | null;
+	revertedFromId: string | null;
+	values: IngredientSnapshot;
+	changes: Array<{
+		field: keyof IngredientSnapshot;
+		from: RevisionValue;
+		to: RevisionValue;
+	}>;
+};
+
+type IngredientHistory = {
+	ingredientId: string;
+	recipeCount: number;
+	revisions: IngredientRevision[];
+};
+
+const FIELD_LABELS: Record<keyof IngredientSnapshot, string> = {
+	name: 'Name',
+	category: 'Category',
+	kcalPer100g: 'kcal / 100g',
+	proteinPer100g: 'Protein / 100g',
+	carbsPer100g: 'Carbs / 100g',
+	fatPer100g: 'Fat / 100g',
+	fiberPer100g: 'Fiber / 100g',
+	sugarsPer100g: 'Sugars / 100g',
+	saturatedFatPer100g: 'Saturated fat / 100g',
+	sodiumPer100g: 'Sodium (mg) / 100g',
+	micronutrientsPer100g: 'Micronutrients / 100g',
+	allergens: 'Allergens',
+	dietTags: 'Diets',
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+	usda_fdc: 'USDA FDC',
+	open_food_facts: 'Open Food Facts',
+};
+
+const ACTION_LABELS: Record<IngredientRevision['action'], string> = {
+	BASELINE: 'Initial values',
+	CREATE: 'Created',
+	UPDATE: 'Edited',
+	REVERT: 'Reverted',
+	PROMOTE: 'Promoted to shared',
 };
 
 async function fetchIngredients(): Promise<Ingredient[]> {
 	return apiFetch<Ingredient[]>('/ingredients');
 }
 
+type ImportMode = 'upsert' | 'create';
+
+type ImportRowStatus = 'create' | 'update' | 'unchanged' | 'duplicate' | 'error';
+
+type ImportReport = {
+	dryRun: boolean;
+	applied: boolean;
+	summary: Record<ImportRowStatus, number>;
+	rows: Array<{
+		row: number;
+		name: string | null;
+		status: ImportRowStatus;
+		changes?: string[];
+		errors?: string[];
+	}>;
+};
+
+type ImportRequest = {
+	dryRun: boolean;
+	mode: ImportMode;
+	csv?: string;
+	items?: unknown[];
+};
+
+const IMPORT_STATUS_LABELS: Record<ImportRowStatus, string> = {
+	create: 'New',
+	update: 'Update',
+	unchanged: 'Unchanged',
+	duplicate: 'Duplicate',
+	error: 'Error',
+};
+
+async function importIngredients(payload: ImportRequest): Promise<ImportReport> {
+	return apiFetch<ImportReport>('/ingredients/import', {
+		method: 'POST',
+		body: JSON.stringify(payload),
+	});
+}
+
+async function downloadIngredients(format: 'csv' | 'json'): Promise<void> {
+	const content = await apiFetchText(`/ingredients/export?format=${format}`);
+	const type = format === 'csv' ? 'text/csv' : 'application/json';
+	const url = URL.createObjectURL(new Blob([content], { type }));
+	const link = document.createElement('a');
+	link.href = url;
+	link.download = `ingredients.${format}`;
+	link.click();
+	URL.revokeObjectURL(url);
+}
+
+async function fetchNutrients(): Promise<NutrientCatalog> {
+	return apiFetch<NutrientCatalog>('/nutrients');
+}
+
 async function createIngredient(payload: IngredientInput): Promise<Ingredient> {
 	return apiFetch<Ingredient>('/ingredients', {
 		method: 'POST',
@@ -50,6 +236,34 @@ async function createIngredient(payload: IngredientInput): Promise<Ingredient> {
 	});
 }
 
+async function updateIngredient(id: string, payload: IngredientInput): Promise<Ingredient> {
+	return apiFetch<Ingredient>(`/ingredients/${id}`, {
+		method: 'PATCH',
+		body: JSON.stringify(payload),
+	});
+}
+
+async function fetchIngredientHistory(id: string): Promise<IngredientHistory> {
+	return apiFetch<IngredientHistory>(`/ingredients/${id}/revisions`);
+}
+
+async function revertIngredient(id: string, revisionId: string): Promise<Ingredient> {
+	return apiFetch<Ingredient>(`/ingredients/${id}/revisions/${revisionId}/revert`, {
+		method: 'POST',
+	});
+}
+
+async function fetchPrivateIngredients(): Promise<PrivateIngredient[]> {
+	return apiFetch<PrivateIngredient[]>('/admin/ingredients/private');
+}
+
+async function promoteIngredient({ id, name }: { id: string; name?: string }): Promise<Ingredient> {
+	return apiFetch<Ingredient>(`/admin/ingredients/${id}/promote`, {
+		method: 'POST',
+		body: JSON.stringify(name ? { name } : {}),
+	});
+}
+
 async function deleteIngredient(id: string): Promise<void> {
 	await apiFetch<void>(`/ingredients/${id}`, {
 		method: 'DELETE',
@@ -64,6 +278,12 @@ export default function AdminIngredientsPage() {
 	const [proteinPer100g, setProteinPer100g] = useState<number>(0);
 	const [carbsPer100g, setCarbsPer100g] = useState<number>(0);
 	const [fatPer100g, setFatPer100g] = useState<number>(0);
+	const [category, setCategory] = useState('');
+	const [extra, setExtra] = useState<ExtraNutrients>(emptyExtraNutrients);
+	const [allergens, setAllergens] = useState<string[]>([]);
+	const [dietTags, setDietTags] = useState<string[]>([]);
+	const [editing, setEditing] = useState<Ingredient | null>(null);
+	const [historyFor, setHistoryFor] = useState<Ingredient | null>(null);
 
 	const { data, isLoading, error } = useQuery({
 		queryKey: ['ingredients'],
@@ -79,6 +299,10 @@ export default function AdminIngredientsPage() {
 			setProteinPer100g(0);
 			setCarbsPer100g(0);
 			setFatPer100g(0);
+			setCategory('');
+			setExtra(emptyExtraNutrients);
+			setAllergens([]);
+			setDietTags([]);
 			setFormError(null);
 		},
 		onError: (err) => {
@@ -99,7 +323,8 @@ export default function AdminIngredientsPage() {
 
 	const submitting = createMutation.isPending;
 
-	const rows = useMemo(() => data ?? [], [data]);
+	// The list also carries the admin's own private ingredients; those are managed on My Ingredients.
+	const rows = useMemo(() => (data ?? []).filter((ingredient) => ingredient.ownerId === null), [data]);
 
 	const submit = (event: React.FormEvent<HTMLFormElement>) => {
 		event.preventDefault();
@@ -110,7 +335,7 @@ export default function AdminIngredientsPage() {
 			return;
 		}
 
-		const values = [kcalPer100g, proteinPer100g, carbsPer100g, fatPer100g];
+		const values = [kcalPer100g, proteinPer100g, carbsPer100g, fatPer100g, ...extraNutrientValues(extra)];
 		if (values.some((value) => Number.isNaN(value) || value < 0)) {
 			setFormError('Nutrition values must be numbers >= 0.');
 			return;
@@ -122,6 +347,10 @@ export default function AdminIngredientsPage() {
 			proteinPer100g,
 			carbsPer100g,
 			fatPer100g,
+			category: category.trim() || undefined,
+			allergens,
+			dietTags,
+			...extra,
 		});
 	};
 
@@ -149,6 +378,13 @@ export default function AdminIngredientsPage() {
 								required
 								fullWidth
 							/>
+							<TextField
+								label="Category (optional)"
+								value={category}
+								onChange={(e) => setCategory(e.target.value)}
+								placeholder="e.g. Dairy"
+								fullWidth
+							/>
 							<TextField
 								label="kcal / 100g"
 								type="number"
@@ -178,6 +414,11 @@ export default function AdminIngredientsPage() {
 								inputProps={{ min: 0, step: '0.1' }}
 							/>
 						</Stack>
+						<ExtraNutrientFields value={extra} onChange={setExtra} />
+						<Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+							<DietaryTagSelect kind="allergens" label="Allergens" value={allergens} onChange={setAllergens} />
+							<DietaryTagSelect kind="diets" label="Suitable diets" value={dietTags} onChange={setDietTags} />
+						</Stack>
 						<Box sx={{ display: 'flex', justifyContent: 'flex-end' }}>
 							<Button type="submit" variant="contained" disabled={submitting}>
 								{submitting ? 'Creating...' : 'Create ingredient'}
@@ -187,6 +428,10 @@ export default function AdminIngredientsPage() {
 				</CardContent>
 			</Card>
 
+			<ImportExportCard />
+
+			<PrivateIngredientsCard />
+
 			{isLoading ? (
 				<Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
 					<CircularProgress />
@@ -199,6 +444,7 @@ export default function AdminIngredientsPage() {
 						<TableHead>
 							<TableRow>
 								<TableCell>Name</TableCell>
+								<TableCell>Category</TableCell>
 								<TableCell align="right">kcal / 100g</TableCell>
 								<TableCell align="right">Protein / 100g</TableCell>
 								<TableCell align="right">Carbs / 100g</TableCell>
@@ -209,7 +455,7 @@ export default function AdminIngredientsPage() {
 						<TableBody>
 							{rows.length === 0 ? (
 								<TableRow>
-									<TableCell colSpan={6}>
+									<TableCell colSpan={7}>
 										<Typography variant="body2" color="text.secondary">
 											No ingredients yet.
 										</Typography>
@@ -218,12 +464,32 @@ export default function AdminIngredientsPage() {
 							) : (
 								rows.map((ingredient) => (
 									<TableRow key={ingredient.id}>
-										<TableCell>{ingredient.name}</TableCell>
+										<TableCell>
+											{ingredient.name}
+											{ingredient.source ? (
+												<Typography variant="caption" color="text.secondary" display="block">
+													{SOURCE_LABELS[ingredient.source] ?? ingredient.source} #{ingredient.sourceId}
+												</Typography>
+											) : null}
+										</TableCell>
+										<TableCell>{ingredient.category ?? '-'}</TableCell>
 										<TableCell align="right">{n(ingredient.kcalPer100g)}</TableCell>
 										<TableCell align="right">{n(ingredient.proteinPer100g)}</TableCell>
 										<TableCell align="right">{n(ingredient.carbsPer100g)}</TableCell>
 										<TableCell align="right">{n(ingredient.fatPer100g)}</TableCell>
 										<TableCell align="right">
+											<IconButton
+												aria-label={`Edit ${ingredient.name}`}
+												onClick={() => setEditing(ingredient)}
+											>
+												<EditOutlinedIcon />
+											</IconButton>
+											<IconButton
+												aria-label={`History of ${ingredient.name}`}
+												onClick={() => setHistoryFor(ingredient)}
+											>
+												<HistoryIcon />
+											</IconButton>
 											<IconButton
 												aria-label={`Delete ${ingredient.name}`}
 												color="error"
@@ -244,14 +510,716 @@ export default function AdminIngredientsPage() {
 			{deleteMutation.isError ? (
 				<Alert severity="error">
 					{deleteMutation.error instanceof ApiError && deleteMutation.error.status === 409
-						? 'This ingredient is already used in recipes and cannot be deleted.'
+						? 'This ingredient is already used in recipes or meal plans and cannot be deleted.'
 						: String(deleteMutation.error)}
 				</Alert>
 			) : null}
+
+			{editing ? (
+				<EditIngredientDialog
+					key={editing.id}
+					ingredient={editing}
+					onClose={() => setEditing(null)}
+				/>
+			) : null}
+
+			{historyFor ? (
+				<IngredientHistoryDialog
+					key={historyFor.id}
+					ingredient={historyFor}
+					onClose={() => setHistoryFor(null)}
+				/>
+			) : null}
 		</Stack>
 	);
 }
 
+function ImportExportCard() {
+	const qc = useQueryClient();
+	const [fileName, setFileName] = useState<string | null>(null);
+	const [content, setContent] = useState<Pick<ImportRequest, 'csv' | 'items'> | null>(null);
+	const [mode, setMode] = useState<ImportMode>('upsert');
+	const [fileError, setFileError] = useState<string | null>(null);
+	const [report, setReport] = useState<ImportReport | null>(null);
+
+	const importMutation = useMutation({
+		mutationFn: importIngredients,
+		onSuccess: async (result) => {
+			setReport(result);
+			if (result.applied) {
+				await qc.invalidateQueries({ queryKey: ['ingredients'] });
+			}
+		},
+	});
+
+	const exportMutation = useMutation({ mutationFn: downloadIngredients });
+
+	const onFile = async (file: File | undefined) => {
+		setReport(null);
+		setFileError(null);
+		setContent(null);
+		setFileName(file?.name ?? null);
+		if (!file) return;
+
+		const text = await file.text();
+		if (!file.name.toLowerCase().endsWith('.json')) {
+			setContent({ csv: text });
+			return;
+		}
+
+		try {
+			const items: unknown = JSON.parse(text);
+			if (!Array.isArray(items)) {
+				setFileError('JSON file must contain an array of ingredients.');
+				return;
+			}
+			setContent({ items });
+		} catch {
+			setFileError('File is not valid JSON.');
+		}
+	};
+
+	const run = (dryRun: boolean) => {
+		if (!content) return;
+		importMutation.mutate({ ...content, dryRun, mode });
+	};
+
+	const canApply = report?.dryRun === true && report.summary.error === 0;
+
+	return (
+		<Card variant="outlined">
+			<CardContent>
+				<Stack spacing={2}>
+					<Typography variant="subtitle1">Import / export</Typography>
+					<Stack direction={{ xs: 'column', md: 'row' }} spacing={2} alignItems={{ md: 'center' }}>
+						<Button variant="outlined" component="label">
+							{fileName ?? 'Choose CSV or JSON file'}
+							<input
+								hidden
+								type="file"
+								accept=".csv,.json,text/csv,application/json"
+								onChange={(e) => void onFile(e.target.files?.[0])}
+							/>
+						</Button>
+						<FormControl size="small" sx={{ minWidth: 220 }}>
+							<InputLabel id="import-mode-label">Existing names</InputLabel>
+							<Select
+								labelId="import-mode-label"
+								label="Existing names"
+								value={mode}
+								onChange={(e) => {
+									setMode(e.target.value as ImportMode);
+									setReport(null);
+								}}
+							>
+								<MenuItem value="upsert">Update existing</MenuItem>
+								<MenuItem value="create">Skip as duplicates</MenuItem>
+							</Select>
+						</FormControl>
+						<Button onClick={() => run(true)} disabled={!content || importMutation.isPending}>
+							Preview
+						</Button>
+						<Button
+							variant="contained"
+							onClick={() => run(false)}
+							disabled={!canApply || importMutation.isPending}
+						>
+							Import
+						</Button>
+						<Box sx={{ flexGrow: 1 }} />
+						<Button onClick={() => exportMutation.mutate('csv')} disabled={exportMutation.isPending}>
+							Export CSV
+						</Button>
+						<Button onClick={() => exportMutation.mutate('json')} disabled={exportMutation.isPending}>
+							Export JSON
+						</Button>
+					</Stack>
+
+					{fileError ? <Alert severity="error">{fileError}</Alert> : null}
+					{importMutation.isError ? <Alert severity="error">{String(importMutation.error)}</Alert> : null}
+					{exportMutation.isError ? <Alert severity="error">{String(exportMutation.error)}</Alert> : null}
+
+					{report ? (
+						<Stack spacing={1}>
+							<Alert severity={report.summary.error > 0 ? 'warning' : report.applied ? 'success' : 'info'}>
+								{report.applied ? 'Imported: ' : 'Preview: '}
+								{report.summary.create} new, {report.summary.update} updated, {report.summary.unchanged}{' '}
+								unchanged, {report.summary.duplicate} duplicates, {report.summary.error} errors.
+								{report.summary.error > 0 ? ' Fix the errors before importing.' : ''}
+							</Alert>
+							<TableContainer sx={{ maxHeight: 320 }}>
+								<Table size="small" stickyHeader>
+									<TableHead>
+										<TableRow>
+											<TableCell>Row</TableCell>
+											<TableCell>Name</TableCell>
+											<TableCell>Result</TableCell>
+											<TableCell>Details</TableCell>
+										</TableRow>
+									</TableHead>
+									<TableBody>
+										{report.rows
+											.filter((row) => row.status !== 'unchanged')
+											.map((row) => (
+												<TableRow key={row.row}>
+													<TableCell>{row.row}</TableCell>
+													<TableCell>{row.name ?? '-'}</TableCell>
+													<TableCell>{IMPORT_STATUS_LABELS[row.status]}</TableCell>
+													<TableCell>
+														{[...(row.errors ?? []), ...(row.changes ?? [])].join(', ') || '-'}
+													</TableCell>
+												</TableRow>
+											))}
+									</TableBody>
+								</Table>
+							</TableContainer>
+						</Stack>
+					) : null}
+				</Stack>
+			</CardContent>
+		</Card>
+	);
+}
+
+function PrivateIngredientsCard() {
+	const qc = useQueryClient();
+	const [promoteError, setPromoteError] = useState<string | null>(null);
+
+	const { data, isLoading, error } = useQuery({
+		queryKey: ['ingredients', 'private'],
+		queryFn: fetchPrivateIngredients,
+	});
+
+	const promoteMutation = useMutation({
+		mutationFn: promoteIngredient,
+		onSuccess: async () => {
+			setPromoteError(null);
+			await qc.invalidateQueries({ queryKey: ['ingredients'] });
+		},
+		onError: (err) => {
+			if (err instanceof ApiError && err.status === 409) {
+				setPromoteError('A shared ingredient with this name already exists. Promote it under another name.');
+				return;
+			}
+			setPromoteError(String(err));
+		},
+	});
+
+	const onPromote = (ingredient: PrivateIngredient, rename: boolean) => {
+		if (!rename) {
+			promoteMutation.mutate({ id: ingredient.id });
+			return;
+		}
+		const name = window.prompt('Shared ingredient name', ingredient.name)?.trim();
+		if (!name) return;
+		promoteMutation.mutate({ id: ingredient.id, name });
+	};
+
+	const rows = data ?? [];
+
+	return (
+		<Card variant="outlined">
+			<CardContent>
+				<Stack spacing={2}>
+					<Typography variant="subtitle1">User-private ingredients</Typography>
+					<Typography variant="body2" color="text.secondary">
+						Promoting moves an ingredient into the shared catalogue. Recipes and plans that use it keep
+						working.
+					</Typography>
+					{promoteError ? <Alert severity="error">{promoteError}</Alert> : null}
+					{isLoading ? (
+						<Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+							<CircularProgress size={24} />
+						</Box>
+					) : error ? (
+						<Alert severity="error">{String(error)}</Alert>
+					) : rows.length === 0 ? (
+						<Typography variant="body2" color="text.secondary">
+							No private ingredients.
+						</Typography>
+					) : (
+						<TableContainer sx={{ maxHeight: 360 }}>
+							<Table size="small" stickyHeader>
+								<TableHead>
+									<TableRow>
+										<TableCell>Name</TableCell>
+										<TableCell>Owner</TableCell>
+										<TableCell align="right">kcal / 100g</TableCell>
+										<TableCell align="right">Protein / 100g</TableCell>
+										<TableCell align="right">Carbs / 100g</TableCell>
+										<TableCell align="right">Fat / 100g</TableCell>
+										<TableCell align="right">Recipe uses</TableCell>
+										<TableCell align="right">Actions</TableCell>
+									</TableRow>
+								</TableHead>
+								<TableBody>
+									{rows.map((ingredient) => (
+										<TableRow key={ingredient.id}>
+											<TableCell>{ingredient.name}</TableCell>
+											<TableCell>{ingredient.owner.email}</TableCell>
+											<TableCell align="right">{n(ingredient.kcalPer100g)}</TableCell>
+											<TableCell align="right">{n(ingredient.proteinPer100g)}</TableCell>
+											<TableCell align="right">{n(ingredient.carbsPer100g)}</TableCell>
+											<TableCell align="right">{n(ingredient.fatPer100g)}</TableCell>
+											<TableCell align="right">{ingredient.recipeItemCount}</TableCell>
+											<TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+												<Button
+													size="small"
+													onClick={() => onPromote(ingredient, false)}
+													disabled={promoteMutation.isPending}
+												>
+													Promote
+												</Button>
+												<Button
+													size="small"
+													onClick={() => onPromote(ingredient, true)}
+													disabled={promoteMutation.isPending}
+												>
+													Promote as...
+												</Button>
+											</TableCell>
+										</TableRow>
+									))}
+								</TableBody>
+							</Table>
+						</TableContainer>
+					)}
+				</Stack>
+			</CardContent>
+		</Card>
+	);
+}
+
+function EditIngredientDialog({
+	ingredient,
+	onClose,
+}: {
+	ingredient: Ingredient;
+	onClose: () => void;
+}) {
+	const qc = useQueryClient();
+	const [formError, setFormError] = useState<string | null>(null);
+	const [name, setName] = useState(ingredient.name);
+	const [category, setCategory] = useState(ingredient.category ?? '');
+	const [kcalPer100g, setKcalPer100g] = useState<number>(ingredient.kcalPer100g);
+	const [proteinPer100g, setProteinPer100g] = useState<number>(ingredient.proteinPer100g);
+	const [carbsPer100g, setCarbsPer100g] = useState<number>(ingredient.carbsPer100g);
+	const [fatPer100g, setFatPer100g] = useState<number>(ingredient.fatPer100g);
+	const [extra, setExtra] = useState<ExtraNutrients>({
+		fiberPer100g: ingredient.fiberPer100g,
+		sugarsPer100g: ingredient.sugarsPer100g,
+		saturatedFatPer100g: ingredient.saturatedFatPer100g,
+		sodiumPer100g: ingredient.sodiumPer100g,
+		micronutrientsPer100g: ingredient.micronutrientsPer100g,
+	});
+	const [allergens, setAllergens] = useState(ingredient.allergens);
+	const [dietTags, setDietTags] = useState(ingredient.dietTags);
+	const [density, setDensity] = useState(ingredient.densityGPerMl?.toString() ?? '');
+	const [portions, setPortions] = useState(() =>
+		ingredient.portions.map((p) => ({ unit: p.unit, label: p.label ?? '', grams: p.grams }))
+	);
+
+	const updateMutation = useMutation({
+		mutationFn: (payload: IngredientInput) => updateIngredient(ingredient.id, payload),
+		onSuccess: async () => {
+			await qc.invalidateQueries({ queryKey: ['ingredients'] });
+			await qc.invalidateQueries({ queryKey: ['ingredient-history', ingredient.id] });
+			await qc.invalidateQueries({ queryKey: ['recipes'] });
+			onClose();
+		},
+		onError: (err) => {
+			if (err instanceof ApiError && err.status === 409) {
+				setFormError('Ingredient name already exists.');
+				return;
+			}
+			setFormError(String(err));
+		},
+	});
+
+	const submit = (event: React.FormEvent<HTMLFormElement>) => {
+		event.preventDefault();
+		setFormError(null);
+
+		if (!name.trim()) {
+			setFormError('Name is required.');
+			return;
+		}
+
+		const values = [kcalPer100g, proteinPer100g, carbsPer100g, fatPer100g, ...extraNutrientValues(extra)];
+		if (values.some((value) => Number.isNaN(value) || value < 0)) {
+			setFormError('Nutrition values must be numbers >= 0.');
+			return;
+		}
+
+		const densityGPerMl = density.trim() === '' ? null : Number(density);
+		if (densityGPerMl !== null && (Number.isNaN(densityGPerMl) || densityGPerMl <= 0)) {
+			setFormError('Density must be a number > 0.');
+			return;
+		}
+
+		const units = portions.map((p) => p.unit.trim().toLowerCase());
+		if (units.some((unit) => !/^[a-z][a-z0-9_]*$/.test(unit))) {
+			setFormError('Portion units must start with a letter and use only letters, digits or underscores.');
+			return;
+		}
+		if (new Set(units).size !== units.length) {
+			setFormError('Portion units must be unique.');
+			return;
+		}
+		if (portions.some((p) => Number.isNaN(p.grams) || p.grams <= 0)) {
+			setFormError('Portion weights must be numbers > 0.');
+			return;
+		}
+
+		updateMutation.mutate({
+			name: name.trim(),
+			kcalPer100g,
+			proteinPer100g,
+			carbsPer100g,
+			fatPer100g,
+			category: category.trim(),
+			allergens,
+			dietTags,
+			...extra,
+			densityGPerMl,
+			portions: portions.map((p, idx) => ({
+				unit: units[idx]!,
+				label: p.label.trim() || undefined,
+				grams: p.grams,
+			})),
+		});
+	};
+
+	return (
+		<Dialog open onClose={onClose} fullWidth maxWidth="sm">
+			<Box component="form" onSubmit={submit}>
+				<DialogTitle>Edit {ingredient.name}</DialogTitle>
+				<DialogContent>
+					<Stack spacing={2} sx={{ pt: 1 }}>
+						{formError ? <Alert severity="error">{formError}</Alert> : null}
+						<Alert severity="info">
+							Changes apply to every recipe and meal plan that uses this ingredient.
+						</Alert>
+						<TextField
+							label="Name"
+							value={name}
+							onChange={(e) => setName(e.target.value)}
+							required
+							fullWidth
+						/>
+						<TextField
+							label="Category (optional)"
+							value={category}
+							onChange={(e) => setCategory(e.target.value)}
+							fullWidth
+						/>
+						<Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+							<TextField
+								label="kcal / 100g"
+								type="number"
+								value={kcalPer100g}
+								onChange={(e) => setKcalPer100g(Number(e.target.value))}
+								inputProps={{ min: 0, step: '0.1' }}
+							/>
+							<TextField
+								label="Protein / 100g"
+								type="number"
+								value={proteinPer100g}
+								onChange={(e) => setProteinPer100g(Number(e.target.value))}
+								inputProps={{ min: 0, step: '0.1' }}
+							/>
+							<TextField
+								label="Carbs / 100g"
+								type="number"
+								value={carbsPer100g}
+								onChange={(e) => setCarbsPer100g(Number(e.target.value))}
+								inputProps={{ min: 0, step: '0.1' }}
+							/>
+							<TextField
+								label="Fat / 100g"
+								type="number"
+								value={fatPer100g}
+								onChange={(e) => setFatPer100g(Number(e.target.value))}
+								inputProps={{ min: 0, step: '0.1' }}
+							/>
+						</Stack>
+						<ExtraNutrientFields value={extra} onChange={setExtra} />
+						<Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+							<DietaryTagSelect kind="allergens" label="Allergens" value={allergens} onChange={setAllergens} />
+							<DietaryTagSelect kind="diets" label="Suitable diets" value={dietTags} onChange={setDietTags} />
+						</Stack>
+						<Typography variant="subtitle2">Household units</Typography>
+						<TextField
+							label="Density (g / ml, optional)"
+							type="number"
+							value={density}
+							onChange={(e) => setDensity(e.target.value)}
+							helperText="Enables ml, tsp, tbsp and cup in recipes."
+							inputProps={{ min: 0, step: '0.01' }}
+						/>
+						{portions.map((portion, idx) => (
+							<Stack key={idx} direction="row" spacing={1} alignItems="center">
+								<TextField
+									label="Unit"
+									size="small"
+									value={portion.unit}
+									onChange={(e) =>
+										setPortions((prev) =>
+											prev.map((p, i) => (i === idx ? { ...p, unit: e.target.value } : p))
+										)
+									}
+									placeholder="e.g. egg"
+								/>
+								<TextField
+									label="Label (optional)"
+									size="small"
+									value={portion.label}
+									onChange={(e) =>
+										setPortions((prev) =>
+											prev.map((p, i) => (i === idx ? { ...p, label: e.target.value } : p))
+										)
+									}
+								/>
+								<TextField
+									label="Grams"
+									size="small"
+									type="number"
+									value={portion.grams}
+									onChange={(e) =>
+										setPortions((prev) =>
+											prev.map((p, i) => (i === idx ? { ...p, grams: Number(e.target.value) } : p))
+										)
+									}
+									inputProps={{ min: 0, step: '0.1' }}
+									sx={{ width: 120 }}
+								/>
+								<IconButton
+									aria-label="Remove portion"
+									color="error"
+									onClick={() => setPortions((prev) => prev.filter((_, i) => i !== idx))}
+								>
+									<DeleteOutlineIcon />
+								</IconButton>
+							</Stack>
+						))}
+						<Box>
+							<Button
+								size="small"
+								onClick={() => setPortions((prev) => [...prev, { unit: '', label: '', grams: 0 }])}
+							>
+								Add portion
+							</Button>
+						</Box>
+					</Stack>
+				</DialogContent>
+				<DialogActions>
+					<Button onClick={onClose}>Cancel</Button>
+					<Button type="submit" variant="contained" disabled={updateMutation.isPending}>
+						{updateMutation.isPending ? 'Saving...' : 'Save changes'}
+					</Button>
+				</DialogActions>
+			</Box>
+		</Dialog>
+	);
+}
+
+function IngredientHistoryDialog({
+	ingredient,
+	onClose,
+}: {
+	ingredient: Ingredient;
+	onClose: () => void;
+}) {
+	const qc = useQueryClient();
+
+	const { data, isLoading, error } = useQuery({
+		queryKey: ['ingredient-history', ingredient.id],
+		queryFn: () => fetchIngredientHistory(ingredient.id),
+	});
+
+	const revertMutation = useMutation({
+		mutationFn: (revisionId: string) => revertIngredient(ingredient.id, revisionId),
+		onSuccess: async () => {
+			await qc.invalidateQueries({ queryKey: ['ingredients'] });
+			await qc.invalidateQueries({ queryKey: ['ingredient-history', ingredient.id] });
+			await qc.invalidateQueries({ queryKey: ['recipes'] });
+		},
+	});
+
+	const onRevert = (revision: IngredientRevision) => {
+		const confirmRevert = window.confirm(
+			`Restore the values from ${new Date(revision.changedAt).toLocaleString()}?`
+		);
+		if (!confirmRevert) return;
+
+		revertMutation.mutate(revision.id);
+	};
+
+	return (
+		<Dialog open onClose={onClose} fullWidth maxWidth="md">
+			<DialogTitle>History of {ingredient.name}</DialogTitle>
+			<DialogContent>
+				{isLoading ? (
+					<Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+						<CircularProgress />
+					</Box>
+				) : error ? (
+					<Alert severity="error">{String(error)}</Alert>
+				) : data ? (
+					<Stack spacing={2}>
+						<Typography variant="body2" color="text.secondary">
+							Used in {data.recipeCount} recipe{data.recipeCount === 1 ? '' : 's'}.
+						</Typography>
+						{revertMutation.isError ? (
+							<Alert severity="error">
+								{revertMutation.error instanceof ApiError && revertMutation.error.status === 409
+									? 'Another ingredient already uses the name from this revision.'
+									: String(revertMutation.error)}
+							</Alert>
+						) : null}
+						{data.revisions.length === 0 ? (
+							<Typography variant="body2" color="text.secondary">
+								No changes recorded yet.
+							</Typography>
+						) : (
+							<Table size="small">
+								<TableHead>
+									<TableRow>
+										<TableCell>When</TableCell>
+										<TableCell>Who</TableCell>
+										<TableCell>Change</TableCell>
+										<TableCell align="right">Actions</TableCell>
+									</TableRow>
+								</TableHead>
+								<TableBody>
+									{data.revisions.map((revision, idx) => (
+										<TableRow key={revision.id}>
+											<TableCell>{new Date(revision.changedAt).toLocaleString()}</TableCell>
+											<TableCell>{revision.changedBy?.email ?? '-'}</TableCell>
+											<TableCell>
+												<Typography variant="body2">{ACTION_LABELS[revision.action]}</Typography>
+												{revision.changes.map((change) => (
+													<Typography key={change.field} variant="caption" display="block">
+														{FIELD_LABELS[change.field]}: {formatValue(change.from)} →{' '}
+														{formatValue(change.to)}
+													</Typography>
+												))}
+											</TableCell>
+											<TableCell align="right">
+												{idx === 0 ? (
+													<Typography variant="caption" color="text.secondary">
+														Current
+													</Typography>
+												) : (
+													<Button
+														size="small"
+														onClick={() => onRevert(revision)}
+														disabled={revertMutation.isPending}
+													>
+														Revert to this
+													</Button>
+												)}
+											</TableCell>
+										</TableRow>
+									))}
+								</TableBody>
+							</Table>
+						)}
+					</Stack>
+				) : null}
+			</DialogContent>
+			<DialogActions>
+				<Button onClick={onClose}>Close</Button>
+			</DialogActions>
+		</Dialog>
+	);
+}
+
+function ExtraNutrientFields({
+	value,
+	onChange,
+}: {
+	value: ExtraNutrients;
+	onChange: (value: ExtraNutrients) => void;
+}) {
+	const { data: catalog } = useQuery({
+		queryKey: ['nutrients'],
+		queryFn: fetchNutrients,
+		staleTime: Infinity,
+	});
+
+	const setMicronutrient = (key: string, raw: string) => {
+		const next = { ...value.micronutrientsPer100g };
+		if (raw === '') delete next[key];
+		else next[key] = Number(raw);
+		onChange({ ...value, micronutrientsPer100g: next });
+	};
+
+	return (
+		<Accordion variant="outlined" disableGutters>
+			<AccordionSummary expandIcon={<ExpandMoreIcon />}>
+				<Typography variant="body2">More nutrients (fiber, sugars, sodium, vitamins, minerals)</Typography>
+			</AccordionSummary>
+			<AccordionDetails>
+				<Stack spacing={2}>
+					<Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+						{EXTRA_CORE_FIELDS.map(({ field, label }) => (
+							<TextField
+								key={field}
+								label={label}
+								type="number"
+								value={value[field]}
+								onChange={(e) => onChange({ ...value, [field]: Number(e.target.value) })}
+								inputProps={{ min: 0, step: '0.1' }}
+								fullWidth
+							/>
+						))}
+					</Stack>
+					<Box
+						sx={{
+							display: 'grid',
+							gap: 2,
+							gridTemplateColumns: { xs: '1fr', sm: 'repeat(3, 1fr)' },
+						}}
+					>
+						{(catalog?.micronutrients ?? []).map((nutrient) => (
+							<TextField
+								key={nutrient.key}
+								label={`${nutrient.label} (${nutrient.unit}) / 100g`}
+								type="number"
+								size="small"
+								value={value.micronutrientsPer100g[nutrient.key] ?? ''}
+								onChange={(e) => setMicronutrient(nutrient.key, e.target.value)}
+								inputProps={{ min: 0, step: '0.1' }}
+							/>
+						))}
+					</Box>
+				</Stack>
+			</AccordionDetails>
+		</Accordion>
+	);
+}
+
+function extraNutrientValues(extra: ExtraNutrients): number[] {
+	return [
+		extra.fiberPer100g,
+		extra.sugarsPer100g,
+		extra.saturatedFatPer100g,
+		extra.sodiumPer100g,
+		...Object.values(extra.micronutrientsPer100g),
+	];
+}
+
+function formatValue(value: RevisionValue): string {
+	if (value === null || value === '') return '-';
+	if (Array.isArray(value)) return value.length === 0 ? '-' : value.join(', ');
+	if (typeof value === 'object') {
+		const entries = Object.entries(value);
+		return entries.length === 0 ? '-' : entries.map(([key, amount]) => `${key} ${n(amount)}`).join(', ');
+	}
+	return typeof value === 'number' ? n(value) : value;
+}
+
 function n(value: number): string {
 	return (Math.round(value * 10) / 10).toFixed(1);
 }
@@ -0,0 +1,307 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import {
+	Alert,
+	Box,
+	Button,
+	Card,
+	CardContent,
+	Chip,
+	CircularProgress,
+	FormControl,
+	IconButton,
+	InputLabel,
+	MenuItem,
+	Select,
+	Stack,
+	Table,
+	TableBody,
+	TableCell,
+	TableContainer,
+	TableHead,
+	TableRow,
+	TextField,
+	Typography,
+} from '@mui/material';
+
+import PlanScopeSelect from '../components/PlanScopeSelect';
+import { apiFetch } from '../lib/api';
+import { addDaysUtc, formatDateOnly, formatDisplayDate, parseDateOnly, todayDateOnly } from '../lib/dates';
+
+type CookingBatch = {
+	id: string;
+	recipeId: string;
+	recipeName: string;
+	cookOn: string;
+	servings: number;
+	assignedServings: number;
+	remainingServings: number;
+	cookedAt: string | null;
+	meals: Array<{ id: string; date: string; slot: string; servings: number }>;
+};
+
+type RecipeOption = { id: string; name: string };
+
+type CookResult = {
+	missing: Array<{ ingredientId: string; name: string; quantityG: number }>;
+};
+
+// Batches cooked in the last two weeks can still feed planned meals.
+const HISTORY_DAYS = 14;
+
+async function fetchBatches(householdId: string): Promise<CookingBatch[]> {
+	const from = formatDateOnly(addDaysUtc(parseDateOnly(todayDateOnly()), -HISTORY_DAYS));
+	const params = new URLSearchParams({ from });
+	if (householdId) params.set('householdId', householdId);
+	return apiFetch<CookingBatch[]>(`/cooking-batches?${params.toString()}`);
+}
+
+async function fetchRecipes(): Promise<RecipeOption[]> {
+	return apiFetch<RecipeOption[]>('/recipes?scope=all');
+}
+
+async function createBatch(payload: {
+	recipeId: string;
+	cookOn: string;
+	servings: number;
+	householdId?: string;
+}): Promise<CookingBatch> {
+	return apiFetch<CookingBatch>('/cooking-batches', {
+		method: 'POST',
+		body: JSON.stringify(payload),
+	});
+}
+
+async function updateBatch({ id, servings }: { id: string; servings: number }): Promise<CookingBatch> {
+	return apiFetch<CookingBatch>(`/cooking-batches/${id}`, {
+		method: 'PATCH',
+		body: JSON.stringify({ servings }),
+	});
+}
+
+async function deleteBatch(id: string): Promise<void> {
+	await apiFetch<void>(`/cooking-batches/${id}`, { method: 'DELETE' });
+}
+
+async function cookBatch(id: string): Promise<CookResult> {
+	return apiFetch<CookResult>(`/cooking-batches/${id}/cook`, { method: 'POST', body: JSON.stringify({}) });
+}
+
+export default function BatchCookingPage() {
+	const qc = useQueryClient();
+	const [householdId, setHouseholdId] = useState('');
+	const [recipeId, setRecipeId] = useState('');
+	const [cookOn, setCookOn] = useState(todayDateOnly());
+	const [servings, setServings] = useState(4);
+
+	const { data, isLoading, error } = useQuery({
+		queryKey: ['cooking-batches', householdId],
+		queryFn: () => fetchBatches(householdId),
+	});
+
+	const recipesQuery = useQuery({
+		queryKey: ['recipes', 'all'],
+		queryFn: fetchRecipes,
+	});
+
+	// Batches change what the planner offers and what is left to buy.
+	const refresh = async () => {
+		await qc.invalidateQueries({ queryKey: ['cooking-batches'] });
+		await qc.invalidateQueries({ queryKey: ['shopping-list'] });
+	};
+
+	const createMutation = useMutation({
+		mutationFn: createBatch,
+		onSuccess: async () => {
+			setRecipeId('');
+			await refresh();
+		},
+	});
+	const updateMutation = useMutation({ mutationFn: updateBatch, onSuccess: refresh });
+	const deleteMutation = useMutation({
+		mutationFn: deleteBatch,
+		onSuccess: async () => {
+			await refresh();
+			await qc.invalidateQueries({ queryKey: ['meal-plan'] });
+		},
+	});
+	const cookMutation = useMutation({
+		mutationFn: cookBatch,
+		onSuccess: async () => {
+			await refresh();
+			await qc.invalidateQueries({ queryKey: ['pantry'] });
+		},
+	});
+
+	const mutationError = createMutation.error ?? updateMutation.error ?? deleteMutation.error ?? cookMutation.error;
+
+	const submit = (event: React.FormEvent<HTMLFormElement>) => {
+		event.preventDefault();
+		if (!recipeId || !cookOn || !(servings > 0)) return;
+		createMutation.mutate({ recipeId, cookOn, servings, ...(householdId ? { householdId } : {}) });
+	};
+
+	const onDelete = (batch: CookingBatch) => {
+		const planned =
+			batch.meals.length > 0 ? ` ${batch.meals.length} planned meals will be shopped for on their own.` : '';
+		if (!window.confirm(`Delete the ${batch.recipeName} batch?${planned}`)) return;
+		deleteMutation.mutate(batch.id);
+	};
+
+	const rows = data ?? [];
+
+	return (
+		<Stack spacing={3}>
+			<Box>
+				<Typography variant="h5">Batch cooking</Typography>
+				<Typography variant="body2" color="text.secondary">
+					Cook a recipe once for several meals, then serve its portions from the meal planner. A batch is bought for
+					once, in the week it is cooked.
+				</Typography>
+			</Box>
+
+			<Card variant="outlined">
+				<CardContent>
+					<Stack component="form" direction={{ xs: 'column', md: 'row' }} spacing={2} onSubmit={submit}>
+						<PlanScopeSelect value={householdId} onChange={setHouseholdId} />
+						<FormControl size="small" sx={{ minWidth: 240, flexGrow: 1 }}>
+							<InputLabel id="batch-recipe-label">Recipe</InputLabel>
+							<Select
+								labelId="batch-recipe-label"
+								label="Recipe"
+								value={recipeId}
+								onChange={(e) => setRecipeId(e.target.value)}
+							>
+								{(recipesQuery.data ?? []).map((recipe) => (
+									<MenuItem key={recipe.id} value={recipe.id}>
+										{recipe.name}
+									</MenuItem>
+								))}
+							</Select>
+						</FormControl>
+						<TextField
+							label="Cook on"
+							type="date"
+							size="small"
+							value={cookOn}
+							onChange={(e) => setCookOn(e.target.value)}
+							slotProps={{ inputLabel: { shrink: true } }}
+							sx={{ width: 170 }}
+						/>
+						<TextField
+							label="Servings"
+							type="number"
+							size="small"
+							value={servings}
+							onChange={(e) => setServings(Number(e.target.value))}
+							slotProps={{ htmlInput: { min: 1, max: 200 } }}
+							sx={{ width: 110 }}
+						/>
+						<Button
+							type="submit"
+							variant="contained"
+							disabled={!recipeId || !cookOn || !(servings > 0) || createMutation.isPending}
+						>
+							Plan batch
+						</Button>
+					</Stack>
+				</CardContent>
+			</Card>
+
+			{mutationError ? <Alert severity="error">{String(mutationError)}</Alert> : null}
+			{cookMutation.isSuccess && cookMutation.data.missing.length > 0 ? (
+				<Alert severity="warning">
+					Marked as cooked. Not in your pantry:{' '}
+					{cookMutation.data.missing.map((line) => `${line.name} (${line.quantityG} g)`).join(', ')}
+				</Alert>
+			) : null}
+
+			{isLoading ? (
+				<Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+					<CircularProgress />
+				</Box>
+			) : error ? (
+				<Alert severity="error">{String(error)}</Alert>
+			) : (
+				<TableContainer component={Card} variant="outlined">
+					<Table size="small">
+						<TableHead>
+							<TableRow>
+								<TableCell>Recipe</TableCell>
+								<TableCell>Cook on</TableCell>
+								<TableCell>Servings</TableCell>
+								<TableCell>Planned</TableCell>
+								<TableCell align="right">Actions</TableCell>
+							</TableRow>
+						</TableHead>
+						<TableBody>
+							{rows.length === 0 ? (
+								<TableRow>
+									<TableCell colSpan={5}>
+										<Typography variant="body2" color="text.secondary">
+											No batches planned.
+										</Typography>
+									</TableCell>
+								</TableRow>
+							) : (
+								rows.map((batch) => (
+									<TableRow key={batch.id}>
+										<TableCell>
+											{batch.recipeName}
+											{batch.cookedAt ? <Chip size="small" color="success" label="Cooked" sx={{ ml: 1 }} /> : null}
+										</TableCell>
+										<TableCell>{formatDisplayDate(batch.cookOn)}</TableCell>
+										<TableCell>
+											<TextField
+												key={batch.servings}
+												type="number"
+												size="small"
+												defaultValue={batch.servings}
+												onBlur={(e) => {
+													const value = Number(e.target.value);
+													if (value > 0 && value !== batch.servings) {
+														updateMutation.mutate({ id: batch.id, servings: value });
+													}
+												}}
+												slotProps={{
+													htmlInput: { min: batch.assignedServings || 1, 'aria-label': `${batch.recipeName} servings` },
+												}}
+												sx={{ width: 100 }}
+											/>
+										</TableCell>
+										<TableCell>
+											{batch.assignedServings} planned, {batch.remainingServings} left
+											{batch.meals.length > 0 ? (
+												<Typography variant="caption" color="text.secondary" component="div">
+													{batch.meals.map((meal) => formatDisplayDate(meal.date)).join(', ')}
+												</Typography>
+											) : null}
+										</TableCell>
+										<TableCell align="right">
+											<Button
+												size="small"
+												onClick={() => cookMutation.mutate(batch.id)}
+												disabled={batch.cookedAt !== null || cookMutation.isPending}
+											>
+												Mark as cooked
+											</Button>
+											<IconButton
+												aria-label={`Delete ${batch.recipeName} batch`}
+												color="error"
+												onClick={() => onDelete(batch)}
+												disabled={deleteMutation.isPending}
+											>
+												<DeleteOutlineIcon />
+											</IconButton>
+										</TableCell>
+									</TableRow>
+								))
+							)}
+						</TableBody>
+					</Table>
+				</TableContainer>
+			)}
+		</Stack>
+	);
+}
@@ -0,0 +1,358 @@
+import { useEffect, useRef, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+	Alert,
+	Box,
+	Button,
+	Card,
+	CardContent,
+	Chip,
+	CircularProgress,
+	LinearProgress,
+	Stack,
+	Typography,
+} from '@mui/material';
+import { Link as RouterLink, useParams, useSearchParams } from 'react-router-dom';
+
+import { apiFetch } from '../lib/api';
+import { formatStepItem, formatTimer, readableSteps, type RecipeInstructions } from '../lib/recipeInstructions';
+
+type CookRecipe = {
+	id: string;
+	name: string;
+	servings: number;
+	scaledServings: number | null;
+	notes: string | null;
+	instructions: RecipeInstructions;
+};
+
+async function fetchCookRecipe(id: string, servings: number | null): Promise<CookRecipe> {
+	const query = servings ? `?servings=${servings}` : '';
+	return apiFetch<CookRecipe>(`/recipes/${id}${query}`);
+}
+
+// Keeps the screen on while cooking. The browser drops the lock whenever the tab is hidden,
+// so it is requested again when the tab comes back.
+function useScreenWakeLock() {
+	useEffect(() => {
+		if (!('wakeLock' in navigator)) return;
+		let lock: WakeLockSentinel | null = null;
+		let active = true;
+
+		const request = async () => {
+			try {
+				const next = await navigator.wakeLock.request('screen');
+				if (active) {
+					lock = next;
+				} else {
+					await next.release();
+				}
+			} catch {
+				// Denied (e.g. battery saver); cooking works without it.
+			}
+		};
+		const onVisibilityChange = () => {
+			if (document.visibilityState === 'visible') void request();
+		};
+
+		void request();
+		document.addEventListener('visibilitychange', onVisibilityChange);
+		return () => {
+			active = false;
+			document.removeEventListener('visibilitychange', onVisibilityChange);
+			void lock?.release();
+		};
+	}, []);
+}
+
+// A step's countdown. While running it counts down from wall-clock time, so it stays right when
+// the browser throttles a hidden tab; while paused or stopped `remaining` holds what is left.
+type StepTimerState = { remaining: number; endsAt: number | null };
+
+const ALARM_BEEPS = 3;
+
+function playAlarm(audio: AudioContext | null) {
+	if (!audio) return;
+	for (let beep = 0; beep < ALARM_BEEPS; beep++) {
+		const oscillator = audio.createOscillator();
+		const gain = audio.createGain();
+		oscillator.frequency.value = 880;
+		gain.gain.value = 0.2;
+		oscillator.connect(gain).connect(audio.destination);
+		const at = audio.currentTime + beep * 0.4;
+		oscillator.start(at);
+		oscillator.stop(at + 0.25);
+	}
+}
+
+export default function CookModePage() {
+	const { id = '' } = useParams();
+	const [searchParams] = useSearchParams();
+	const requested = Number(searchParams.get('servings'));
+	const servings = requested > 0 ? requested : null;
+	const [index, setIndex] = useState(0);
+	// Timers live here rather than in the step so they keep running while the cook moves on.
+	const [timers, setTimers] = useState<Record<string, StepTimerState>>({});
+	const [now, setNow] = useState(() => Date.now());
+	const [finishedIds, setFinishedIds] = useState<string[]>([]);
+	// Browsers only play sound from an audio context created in response to a click.
+	const audioRef = useRef<AudioContext | null>(null);
+
+	useScreenWakeLock();
+
+	const { data, isLoading, error } = useQuery({
+		queryKey: ['recipe', id, 'scaled', servings],
+		queryFn: () => fetchCookRecipe(id, servings),
+	});
+	const steps = readableSteps(data?.instructions);
+
+	useEffect(() => {
+		const onKeyDown = (event: KeyboardEvent) => {
+			if (event.key === 'ArrowRight') setIndex((prev) => Math.min(prev + 1, Math.max(steps.length - 1, 0)));
+			if (event.key === 'ArrowLeft') setIndex((prev) => Math.max(prev - 1, 0));
+		};
+		window.addEventListener('keydown', onKeyDown);
+		return () => window.removeEventListener('keydown', onKeyDown);
+	}, [steps.length]);
+
+	// Ticks only while a timer runs; a timer that reaches zero stops and rings.
+	useEffect(() => {
+		const running = Object.entries(timers).flatMap(([stepId, timer]) =>
+			timer.endsAt !== null ? [{ stepId, endsAt: timer.endsAt }] : []
+		);
+		if (running.length === 0) return;
+
+		const interval = window.setInterval(() => {
+			const tick = Date.now();
+			setNow(tick);
+			const expired = running.filter((timer) => timer.endsAt <= tick).map((timer) => timer.stepId);
+			if (expired.length === 0) return;
+
+			setTimers((prev) => ({
+				...prev,
+				...Object.fromEntries(expired.map((stepId) => [stepId, { remaining: 0, endsAt: null }])),
+			}));
+			setFinishedIds((prev) => [...prev.filter((stepId) => !expired.includes(stepId)), ...expired]);
+			playAlarm(audioRef.current);
+			navigator.vibrate?.([300, 100, 300]);
+		}, 250);
+		return () => window.clearInterval(interval);
+	}, [timers]);
+
+	const remainingOf = (stepId: string, seconds: number) => {
+		const timer = timers[stepId];
+		if (!timer) return seconds;
+		return timer.endsAt === null ? timer.remaining : Math.max(Math.ceil((timer.endsAt - now) / 1000), 0);
+	};
+
+	const isRunning = (stepId: string) => (timers[stepId]?.endsAt ?? null) !== null;
+
+	const startTimer = (stepId: string, seconds: number) => {
+		audioRef.current ??= new AudioContext();
+		void audioRef.current.resume();
+		const startedAt = Date.now();
+		setNow(startedAt);
+		setTimers((prev) => ({
+			...prev,
+			[stepId]: { remaining: 0, endsAt: startedAt + (prev[stepId]?.remaining ?? seconds) * 1000 },
+		}));
+	};
+
+	const pauseTimer = (stepId: string, seconds: number) => {
+		setTimers((prev) => ({ ...prev, [stepId]: { remaining: remainingOf(stepId, seconds), endsAt: null } }));
+	};
+
+	const resetTimer = (stepId: string) => {
+		setTimers((prev) => Object.fromEntries(Object.entries(prev).filter(([key]) => key !== stepId)));
+		setFinishedIds((prev) => prev.filter((key) => key !== stepId));
+	};
+
+	if (isLoading) {
+		return (
+			<Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+				<CircularProgress />
+			</Box>
+		);
+	}
+
+	if (error || !data) {
+		return <Alert severity="error">{String(error ?? 'Recipe not found')}</Alert>;
+	}
+
+	const backTo = `/recipes/${data.id}${data.scaledServings !== null ? `?servings=${data.scaledServings}` : ''}`;
+	const cookFor = data.scaledServings ?? data.servings;
+	const position = Math.min(index, steps.length - 1);
+	const current = steps[position];
+	const stepNumber = (stepId: string) => steps.findIndex((step) => step.id === stepId) + 1;
+	// Timers of other steps stay in view so parallel ones are not forgotten.
+	const otherTimers = steps.filter(
+		(step) => step.id !== current?.id && step.durationSeconds !== null && isRunning(step.id)
+	);
+
+	return (
+		<Stack spacing={3} sx={{ maxWidth: 900, mx: 'auto' }}>
+			<Stack direction="row" justifyContent="space-between" alignItems="center">
+				<Box>
+					<Typography variant="h5">{data.name}</Typography>
+					<Typography variant="body2" color="text.secondary">
+						Cooking {cookFor} {cookFor === 1 ? 'serving' : 'servings'}
+					</Typography>
+				</Box>
+				<Button component={RouterLink} to={backTo}>
+					Exit cook mode
+				</Button>
+			</Stack>
+
+			{finishedIds.map((stepId) => (
+				<Alert
+					key={stepId}
+					severity="warning"
+					variant="filled"
+					action={
+						<Stack direction="row" spacing={1}>
+							{stepId !== current?.id ? (
+								<Button color="inherit" size="small" onClick={() => setIndex(stepNumber(stepId) - 1)}>
+									Go to step
+								</Button>
+							) : null}
+							<Button
+								color="inherit"
+								size="small"
+								onClick={() => setFinishedIds((prev) => prev.filter((key) => key !== stepId))}
+							>
+								Dismiss
+							</Button>
+						</Stack>
+					}
+				>
+					Time's up for step {stepNumber(stepId)}
+				</Alert>
+			))}
+
+			{otherTimers.length > 0 ? (
+				<Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+					{otherTimers.map((step) => (
+						<Chip
+							key={step.id}
+							color="primary"
+							label={`Step ${stepNumber(step.id)}: ${formatTimer(remainingOf(step.id, step.durationSeconds!))}`}
+							onClick={() => setIndex(stepNumber(step.id) - 1)}
+						/>
+					))}
+				</Stack>
+			) : null}
+
+			{!current ? (
+				data.notes ? (
+					<Card variant="outlined">
+						<CardContent>
+							<Typography variant="h6" sx={{ whiteSpace: 'pre-line', lineHeight: 1.6 }}>
+								{data.notes}
+							</Typography>
+						</CardContent>
+					</Card>
+				) : (
+					<Alert severity="info">This recipe has no steps yet.</Alert>
+				)
+			) : (
+				<>
+					<Box>
+						<Typography variant="subtitle1">
+							Step {position + 1} of {steps.length}
+						</Typography>
+						<LinearProgress variant="determinate" value={((position + 1) / steps.length) * 100} />
+					</Box>
+
+					<Card variant="outlined">
+						<CardContent>
+							<Stack spacing={3}>
+								<Typography variant="h4" component="p" sx={{ whiteSpace: 'pre-line', lineHeight: 1.4 }}>
+									{current.text}
+								</Typography>
+								{current.items.length > 0 ? (
+									<Box component="ul" sx={{ m: 0, pl: 3 }}>
+										{current.items.map((item) => (
+											<Typography key={item.id} component="li" variant="h6">
+												{formatStepItem(item)}
+											</Typography>
+										))}
+									</Box>
+								) : null}
+								{current.durationSeconds !== null ? (
+									<StepTimer
+										seconds={current.durationSeconds}
+										remaining={remainingOf(current.id, current.durationSeconds)}
+										running={isRunning(current.id)}
+										onStart={() => startTimer(current.id, current.durationSeconds!)}
+										onPause={() => pauseTimer(current.id, current.durationSeconds!)}
+										onReset={() => resetTimer(current.id)}
+									/>
+								) : null}
+							</Stack>
+						</CardContent>
+					</Card>
+
+					<Stack direction="row" spacing={2} justifyContent="space-between">
+						<Button size="large" variant="outlined" onClick={() => setIndex(position - 1)} disabled={position === 0}>
+							Previous
+						</Button>
+						{position < steps.length - 1 ? (
+							<Button size="large" variant="contained" onClick={() => setIndex(position + 1)}>
+								Next
+							</Button>
+						) : (
+							<Button size="large" variant="contained" component={RouterLink} to={backTo}>
+								Done
+							</Button>
+						)}
+					</Stack>
+				</>
+			)}
+		</Stack>
+	);
+}
+
+function StepTimer({
+	seconds,
+	remaining,
+	running,
+	onStart,
+	onPause,
+	onReset,
+}: {
+	seconds: number;
+	remaining: number;
+	running: boolean;
+	onStart: () => void;
+	onPause: () => void;
+	onReset: () => void;
+}) {
+	const finished = remaining === 0;
+
+	return (
+		<Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} alignItems={{ sm: 'center' }}>
+			<Typography
+				variant="h3"
+				component="p"
+				color={finished ? 'error' : 'text.primary'}
+				sx={{ fontVariantNumeric: 'tabular-nums', minWidth: 180 }}
+			>
+				{finished ? "Time's up" : formatTimer(remaining)}
+			</Typography>
+			<Stack direction="row" spacing={1}>
+				{running ? (
+					<Button size="large" variant="contained" onClick={onPause}>
+						Pause
+					</Button>
+				) : (
+					<Button size="large" variant="contained" onClick={onStart} disabled={finished}>
+						{remaining < seconds ? 'Resume' : 'Start timer'}
+					</Button>
+				)}
+				<Button size="large" onClick={onReset} disabled={!running && remaining === seconds}>
+					Reset
+				</Button>
+			</Stack>
+		</Stack>
+	);
+}
@@ -0,0 +1,375 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import {
+	Alert,
+	Box,
+	Button,
+	Card,
+	CardContent,
+	Chip,
+	CircularProgress,
+	FormControl,
+	IconButton,
+	InputLabel,
+	ListSubheader,
+	MenuItem,
+	Select,
+	Stack,
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableRow,
+	TextField,
+	Typography,
+} from '@mui/material';
+import { useSearchParams } from 'react-router-dom';
+
+import { apiFetch } from '../lib/api';
+import { buildWeekDates, formatDisplayDate, todayDateOnly, weekStartOf } from '../lib/dates';
+
+type FoodLogStatus = 'EATEN' | 'SKIPPED' | 'SUBSTITUTED';
+type Nutrition = { kcal: number; protein: number; carbs: number; fat: number };
+
+type FoodLogEntry = {
+	id: string;
+	date: string;
+	slot: string;
+	status: FoodLogStatus;
+	plannedMealId: string | null;
+	name: string;
+	servings: number | null;
+	quantityG: number | null;
+	nutrition: Nutrition;
+};
+
+type AdherenceSummary = {
+	plannedKcal: number;
+	eatenKcal: number;
+	adherencePct: number | null;
+	plannedMeals: number;
+	eaten: number;
+	skipped: number;
+	substituted: number;
+	unlogged: number;
+	unplanned: number;
+};
+
+type AdherenceResponse = {
+	weekStart: string;
+	days: Array<AdherenceSummary & { date: string }>;
+	week: AdherenceSummary;
+};
+
+type MealSlotConfig = { key: string; label: string; sortOrder: number; active: boolean };
+type FoodOption = { id: string; name: string };
+
+type LogFoodPayload = { date: string; slot: string } & (
+	| { recipeId: string; servings: number }
+	| { ingredientId: string; quantityG: number }
+);
+
+const STATUS_LABELS: Record<FoodLogStatus, string> = {
+	EATEN: 'Eaten',
+	SKIPPED: 'Skipped',
+	SUBSTITUTED: 'Substituted',
+};
+
+async function fetchFoodLog(date: string): Promise<{ entries: FoodLogEntry[] }> {
+	return apiFetch<{ entries: FoodLogEntry[] }>(`/food-log?from=${date}`);
+}
+
+async function fetchAdherence(weekStart: string): Promise<AdherenceResponse> {
+	return apiFetch<AdherenceResponse>(`/food-log/adherence?weekStart=${weekStart}`);
+}
+
+async function fetchMealSlots(): Promise<{ customized: boolean; slots: MealSlotConfig[] }> {
+	return apiFetch<{ customized: boolean; slots: MealSlotConfig[] }>('/meal-slots');
+}
+
+async function fetchRecipes(): Promise<FoodOption[]> {
+	return apiFetch<FoodOption[]>('/recipes?scope=all');
+}
+
+async function fetchIngredients(): Promise<FoodOption[]> {
+	return apiFetch<FoodOption[]>('/ingredients');
+}
+
+async function logFood(payload: LogFoodPayload): Promise<FoodLogEntry> {
+	return apiFetch<FoodLogEntry>('/food-log', {
+		method: 'POST',
+		body: JSON.stringify(payload),
+	});
+}
+
+async function deleteEntry(id: string): Promise<void> {
+	await apiFetch<void>(`/food-log/${id}`, { method: 'DELETE' });
+}
+
+export default function DiaryPage() {
+	const qc = useQueryClient();
+	const [searchParams, setSearchParams] = useSearchParams();
+	const date = searchParams.get('date') ?? todayDateOnly();
+	const weekStart = weekStartOf(date);
+
+	const [slot, setSlot] = useState('');
+	const [food, setFood] = useState('');
+	const [amount, setAmount] = useState(1);
+
+	const logQuery = useQuery({
+		queryKey: ['food-log', date],
+		queryFn: () => fetchFoodLog(date),
+	});
+	const adherenceQuery = useQuery({
+		queryKey: ['food-log', 'adherence', weekStart],
+		queryFn: () => fetchAdherence(weekStart),
+	});
+	const slotsQuery = useQuery({
+		queryKey: ['meal-slots', ''],
+		queryFn: fetchMealSlots,
+	});
+	const recipesQuery = useQuery({
+		queryKey: ['recipes', 'all'],
+		queryFn: fetchRecipes,
+	});
+	const ingredientsQuery = useQuery({
+		queryKey: ['ingredients'],
+		queryFn: fetchIngredients,
+	});
+
+	const refresh = async () => {
+		await qc.invalidateQueries({ queryKey: ['food-log'] });
+	};
+
+	const logMutation = useMutation({
+		mutationFn: logFood,
+		onSuccess: async () => {
+			setFood('');
+			await refresh();
+		},
+	});
+	const deleteMutation = useMutation({ mutationFn: deleteEntry, onSuccess: refresh });
+
+	const slots = (slotsQuery.data?.slots ?? []).filter((s) => s.active).sort((a, b) => a.sortOrder - b.sortOrder);
+	const entries = logQuery.data?.entries ?? [];
+	const [foodType, foodId] = food.split(':');
+	const isRecipe = foodType === 'recipe';
+
+	const selectFood = (value: string) => {
+		setFood(value);
+		setAmount(value.startsWith('recipe:') ? 1 : 100);
+	};
+
+	const submit = (event: React.FormEvent<HTMLFormElement>) => {
+		event.preventDefault();
+		if (!slot || !foodId || !(amount > 0)) return;
+		logMutation.mutate(
+			isRecipe
+				? { date, slot, recipeId: foodId, servings: amount }
+				: { date, slot, ingredientId: foodId, quantityG: amount }
+		);
+	};
+
+	const dayTotal = entries.reduce(
+		(total, entry) => ({
+			kcal: total.kcal + entry.nutrition.kcal,
+			protein: total.protein + entry.nutrition.protein,
+			carbs: total.carbs + entry.nutrition.carbs,
+			fat: total.fat + entry.nutrition.fat,
+		}),
+		{ kcal: 0, protein: 0, carbs: 0, fat: 0 }
+	);
+
+	return (
+		<Stack spacing={2}>
+			<Typography variant="h5">Food Diary</Typography>
+			<Typography variant="body2" color="text.secondary">
+				What you actually ate. Mark planned meals as eaten, skipped or substituted from the planner, or log anything
+				else here.
+			</Typography>
+
+			<Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} alignItems={{ sm: 'center' }}>
+				<TextField
+					label="Date"
+					type="date"
+					value={date}
+					onChange={(e) => e.target.value && setSearchParams({ date: e.target.value })}
+					slotProps={{ inputLabel: { shrink: true } }}
+					sx={{ width: 220 }}
+				/>
+				<Typography variant="body2" color="text.secondary">
+					{formatDisplayDate(date)}
+				</Typography>
+			</Stack>
+
+			<Card variant="outlined">
+				<CardContent>
+					<Stack component="form" direction={{ xs: 'column', md: 'row' }} spacing={2} onSubmit={submit}>
+						<FormControl size="small" sx={{ minWidth: 160 }}>
+							<InputLabel id="diary-slot-label">Slot</InputLabel>
+							<Select labelId="diary-slot-label" label="Slot" value={slot} onChange={(e) => setSlot(e.target.value)}>
+								{slots.map((s) => (
+									<MenuItem key={s.key} value={s.key}>
+										{s.label}
+									</MenuItem>
+								))}
+							</Select>
+						</FormControl>
+						<FormControl size="small" sx={{ minWidth: 240, flexGrow: 1 }}>
+							<InputLabel id="diary-food-label">Food</InputLabel>
+							<Select labelId="diary-food-label" label="Food" value={food} onChange={(e) => selectFood(e.target.value)}>
+								<ListSubheader>Recipes</ListSubheader>
+								{(recipesQuery.data ?? []).map((recipe) => (
+									<MenuItem key={recipe.id} value={`recipe:${recipe.id}`}>
+										{recipe.name}
+									</MenuItem>
+								))}
+								<ListSubheader>Ingredients</ListSubheader>
+								{(ingredientsQuery.data ?? []).map((ingredient) => (
+									<MenuItem key={ingredient.id} value={`ingredient:${ingredient.id}`}>
+										{ingredient.name}
+									</MenuItem>
+								))}
+							</Select>
+						</FormControl>
+						<TextField
+							label={isRecipe ? 'Servings' : 'Grams'}
+							type="number"
+							size="small"
+							value={amount}
+							onChange={(e) => setAmount(Number(e.target.value))}
+							slotProps={{ htmlInput: { min: isRecipe ? 0.5 : 1, step: isRecipe ? 0.5 : 1 } }}
+							sx={{ width: 120 }}
+						/>
+						<Button
+							type="submit"
+							variant="contained"
+							disabled={!slot || !foodId || !(amount > 0) || logMutation.isPending}
+						>
+							Log food
+						</Button>
+					</Stack>
+				</CardContent>
+			</Card>
+
+			{logMutation.isError && <Alert severity="error">{String(logMutation.error)}</Alert>}
+			{deleteMutation.isError && <Alert severity="error">{String(deleteMutation.error)}</Alert>}
+
+			{logQuery.isLoading ? (
+				<Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+					<CircularProgress />
+				</Box>
+			) : logQuery.error ? (
+				<Alert severity="error">{String(logQuery.error)}</Alert>
+			) : entries.length === 0 ? (
+				<Alert severity="info">Nothing logged for this day yet.</Alert>
+			) : (
+				<Card variant="outlined">
+					<CardContent>
+						<Stack spacing={1}>
+							{entries.map((entry) => (
+								<Stack key={entry.id} direction="row" spacing={1} alignItems="center">
+									<Typography variant="body2" color="text.secondary" sx={{ width: 100 }}>
+										{slots.find((s) => s.key === entry.slot)?.label ?? entry.slot}
+									</Typography>
+									<Typography variant="body2" sx={{ flexGrow: 1 }}>
+										{entry.name}
+										{entry.servings !== null ? ` - ${entry.servings}x` : ''}
+										{entry.quantityG !== null ? ` - ${entry.quantityG} g` : ''}
+									</Typography>
+									{entry.status !== 'EATEN' ? (
+										<Chip
+											size="small"
+											variant="outlined"
+											color={entry.status === 'SKIPPED' ? 'default' : 'warning'}
+											label={STATUS_LABELS[entry.status]}
+										/>
+									) : null}
+									<Typography variant="body2" sx={{ width: 80, textAlign: 'right' }}>
+										{Math.round(entry.nutrition.kcal)} kcal
+									</Typography>
+									<IconButton
+										size="small"
+										aria-label={`Remove ${entry.name}`}
+										color="error"
+										onClick={() => deleteMutation.mutate(entry.id)}
+										disabled={deleteMutation.isPending}
+									>
+										<DeleteOutlineIcon fontSize="small" />
+									</IconButton>
+								</Stack>
+							))}
+							<Typography variant="caption" color="text.secondary">
+								Day total: {k(dayTotal.kcal)} kcal - P {k(dayTotal.protein)} - C {k(dayTotal.carbs)} - F{' '}
+								{k(dayTotal.fat)}
+							</Typography>
+						</Stack>
+					</CardContent>
+				</Card>
+			)}
+
+			<Typography variant="h6">Plan adherence</Typography>
+			{adherenceQuery.error ? (
+				<Alert severity="error">{String(adherenceQuery.error)}</Alert>
+			) : adherenceQuery.data ? (
+				<Card variant="outlined">
+					<Table size="small">
+						<TableHead>
+							<TableRow>
+								<TableCell>Day</TableCell>
+								<TableCell align="right">Planned kcal</TableCell>
+								<TableCell align="right">Eaten kcal</TableCell>
+								<TableCell align="right">Adherence</TableCell>
+								<TableCell align="right">Eaten / skipped / substituted / open</TableCell>
+							</TableRow>
+						</TableHead>
+						<TableBody>
+							{buildWeekDates(weekStart).map((day) => {
+								const row = adherenceQuery.data.days.find((d) => d.date === day);
+								if (!row) return null;
+								return (
+									<TableRow
+										key={day}
+										hover
+										selected={day === date}
+										onClick={() => setSearchParams({ date: day })}
+										sx={{ cursor: 'pointer' }}
+									>
+										<TableCell>{formatDisplayDate(day)}</TableCell>
+										<AdherenceCells summary={row} />
+									</TableRow>
+								);
+							})}
+							<TableRow>
+								<TableCell>
+									<strong>Week</strong>
+								</TableCell>
+								<AdherenceCells summary={adherenceQuery.data.week} />
+							</TableRow>
+						</TableBody>
+					</Table>
+				</Card>
+			) : null}
+		</Stack>
+	);
+}
+
+function AdherenceCells({ summary }: { summary: AdherenceSummary }) {
+	return (
+		<>
+			<TableCell align="right">{k(summary.plannedKcal)}</TableCell>
+			<TableCell align="right">{k(summary.eatenKcal)}</TableCell>
+			<TableCell align="right">
+				{summary.adherencePct === null ? '-' : `${Math.round(summary.adherencePct)}%`}
+			</TableCell>
+			<TableCell align="right">
+				{summary.eaten} / {summary.skipped} / {summary.substituted} / {summary.unlogged}
+			</TableCell>
+		</>
+	);
+}
+
+function k(n: number) {
+	return Math.round(n * 10) / 10;
+}
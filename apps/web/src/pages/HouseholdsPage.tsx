@@ -0,0 +1,355 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+	Alert,
+	Box,
+	Button,
+	Card,
+	CardContent,
+	Chip,
+	CircularProgress,
+	Stack,
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableRow,
+	TextField,
+	Typography,
+} from '@mui/material';
+import { useSearchParams } from 'react-router-dom';
+
+import { useAuth } from '../auth/context';
+import { apiFetch } from '../lib/api';
+
+type HouseholdRole = 'OWNER' | 'MEMBER';
+
+type Household = {
+	id: string;
+	name: string;
+	createdAt: string;
+	role: HouseholdRole;
+	members: Array<{ userId: string; email: string; role: HouseholdRole; joinedAt: string }>;
+	invitations: Array<{ id: string; email: string; createdAt: string; expiresAt: string }>;
+};
+
+type CreatedInvitation = {
+	id: string;
+	email: string;
+	expiresAt: string;
+	token: string;
+};
+
+async function fetchHouseholds(): Promise<Household[]> {
+	return apiFetch<Household[]>('/households');
+}
+
+async function createHousehold(name: string): Promise<Household> {
+	return apiFetch<Household>('/households', {
+		method: 'POST',
+		body: JSON.stringify({ name }),
+	});
+}
+
+async function deleteHousehold(id: string): Promise<void> {
+	await apiFetch<void>(`/households/${id}`, { method: 'DELETE' });
+}
+
+async function inviteMember({ id, email }: { id: string; email: string }): Promise<CreatedInvitation> {
+	return apiFetch<CreatedInvitation>(`/households/${id}/invitations`, {
+		method: 'POST',
+		body: JSON.stringify({ email }),
+	});
+}
+
+async function revokeInvitation({ id, invitationId }: { id: string; invitationId: string }): Promise<void> {
+	await apiFetch<void>(`/households/${id}/invitations/${invitationId}`, { method: 'DELETE' });
+}
+
+async function acceptInvitation(token: string): Promise<Household> {
+	return apiFetch<Household>('/households/invitations/accept', {
+		method: 'POST',
+		body: JSON.stringify({ token }),
+	});
+}
+
+async function setMemberRole({ id, userId, role }: { id: string; userId: string; role: HouseholdRole }) {
+	return apiFetch<Household>(`/households/${id}/members/${userId}`, {
+		method: 'PATCH',
+		body: JSON.stringify({ role }),
+	});
+}
+
+async function removeMember({ id, userId }: { id: string; userId: string }): Promise<void> {
+	await apiFetch<void>(`/households/${id}/members/${userId}`, { method: 'DELETE' });
+}
+
+function acceptLink(token: string) {
+	return `${window.location.origin}/households?token=${encodeURIComponent(token)}`;
+}
+
+export default function HouseholdsPage() {
+	const qc = useQueryClient();
+	const [searchParams, setSearchParams] = useSearchParams();
+	const [name, setName] = useState('');
+	const [token, setToken] = useState(searchParams.get('token') ?? '');
+
+	const { data, isLoading, error } = useQuery({
+		queryKey: ['households'],
+		queryFn: fetchHouseholds,
+	});
+
+	const refresh = async () => {
+		await qc.invalidateQueries({ queryKey: ['households'] });
+	};
+
+	const createMutation = useMutation({
+		mutationFn: createHousehold,
+		onSuccess: async () => {
+			setName('');
+			await refresh();
+		},
+	});
+
+	const acceptMutation = useMutation({
+		mutationFn: acceptInvitation,
+		onSuccess: async () => {
+			setToken('');
+			setSearchParams({});
+			await refresh();
+		},
+	});
+
+	return (
+		<Stack spacing={3}>
+			<Box>
+				<Typography variant="h5">Households</Typography>
+				<Typography variant="body2" color="text.secondary">
+					Members of a household plan meals together and share the household's recipes.
+				</Typography>
+			</Box>
+
+			<Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+				<Card variant="outlined" sx={{ flex: 1 }}>
+					<CardContent>
+						<Stack
+							component="form"
+							spacing={2}
+							onSubmit={(e: React.FormEvent<HTMLFormElement>) => {
+								e.preventDefault();
+								if (name.trim()) createMutation.mutate(name.trim());
+							}}
+						>
+							<Typography variant="subtitle1">New household</Typography>
+							{createMutation.isError ? <Alert severity="error">{String(createMutation.error)}</Alert> : null}
+							<TextField label="Name" value={name} onChange={(e) => setName(e.target.value)} size="small" />
+							<Box>
+								<Button type="submit" variant="contained" disabled={!name.trim() || createMutation.isPending}>
+									Create
+								</Button>
+							</Box>
+						</Stack>
+					</CardContent>
+				</Card>
+
+				<Card variant="outlined" sx={{ flex: 1 }}>
+					<CardContent>
+						<Stack
+							component="form"
+							spacing={2}
+							onSubmit={(e: React.FormEvent<HTMLFormElement>) => {
+								e.preventDefault();
+								if (token.trim()) acceptMutation.mutate(token.trim());
+							}}
+						>
+							<Typography variant="subtitle1">Accept an invitation</Typography>
+							{acceptMutation.isError ? <Alert severity="error">{String(acceptMutation.error)}</Alert> : null}
+							{acceptMutation.isSuccess ? (
+								<Alert severity="success">You joined {acceptMutation.data.name}.</Alert>
+							) : null}
+							<TextField
+								label="Invitation token"
+								value={token}
+								onChange={(e) => setToken(e.target.value)}
+								size="small"
+							/>
+							<Box>
+								<Button type="submit" variant="contained" disabled={!token.trim() || acceptMutation.isPending}>
+									Join household
+								</Button>
+							</Box>
+						</Stack>
+					</CardContent>
+				</Card>
+			</Stack>
+
+			{isLoading ? (
+				<Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+					<CircularProgress />
+				</Box>
+			) : error ? (
+				<Alert severity="error">{String(error)}</Alert>
+			) : !data?.length ? (
+				<Alert severity="info">You are not in a household yet.</Alert>
+			) : (
+				data.map((household) => <HouseholdCard key={household.id} household={household} />)
+			)}
+		</Stack>
+	);
+}
+
+function HouseholdCard({ household }: { household: Household }) {
+	const qc = useQueryClient();
+	const { user } = useAuth();
+	const [email, setEmail] = useState('');
+	const [invitation, setInvitation] = useState<CreatedInvitation | null>(null);
+	const isOwner = household.role === 'OWNER';
+
+	const refresh = async () => {
+		await qc.invalidateQueries({ queryKey: ['households'] });
+	};
+
+	const inviteMutation = useMutation({
+		mutationFn: inviteMember,
+		onSuccess: async (created) => {
+			setEmail('');
+			setInvitation(created);
+			await refresh();
+		},
+	});
+	const revokeMutation = useMutation({ mutationFn: revokeInvitation, onSuccess: refresh });
+	const roleMutation = useMutation({ mutationFn: setMemberRole, onSuccess: refresh });
+	const removeMutation = useMutation({ mutationFn: removeMember, onSuccess: refresh });
+	const deleteMutation = useMutation({ mutationFn: deleteHousehold, onSuccess: refresh });
+
+	const mutationError =
+		inviteMutation.error ?? revokeMutation.error ?? roleMutation.error ?? removeMutation.error ?? deleteMutation.error;
+
+	const onRemove = (member: Household['members'][number]) => {
+		const self = member.userId === user?.id;
+		const question = self ? `Leave "${household.name}"?` : `Remove ${member.email} from "${household.name}"?`;
+		if (!window.confirm(question)) return;
+		removeMutation.mutate({ id: household.id, userId: member.userId });
+	};
+
+	const onDelete = () => {
+		if (!window.confirm(`Delete "${household.name}" and its meal plans?`)) return;
+		deleteMutation.mutate(household.id);
+	};
+
+	return (
+		<Card variant="outlined">
+			<CardContent>
+				<Stack spacing={2}>
+					<Stack direction="row" spacing={1} alignItems="center">
+						<Typography variant="h6" sx={{ flexGrow: 1 }}>
+							{household.name}
+						</Typography>
+						<Chip size="small" label={isOwner ? 'Owner' : 'Member'} />
+						{isOwner ? (
+							<Button size="small" color="error" onClick={onDelete} disabled={deleteMutation.isPending}>
+								Delete
+							</Button>
+						) : null}
+					</Stack>
+
+					{mutationError ? <Alert severity="error">{String(mutationError)}</Alert> : null}
+
+					<Table size="small">
+						<TableHead>
+							<TableRow>
+								<TableCell>Member</TableCell>
+								<TableCell>Role</TableCell>
+								<TableCell align="right">Actions</TableCell>
+							</TableRow>
+						</TableHead>
+						<TableBody>
+							{household.members.map((member) => (
+								<TableRow key={member.userId}>
+									<TableCell>{member.email}</TableCell>
+									<TableCell>{member.role === 'OWNER' ? 'Owner' : 'Member'}</TableCell>
+									<TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+										{isOwner ? (
+											<Button
+												size="small"
+												onClick={() =>
+													roleMutation.mutate({
+														id: household.id,
+														userId: member.userId,
+														role: member.role === 'OWNER' ? 'MEMBER' : 'OWNER',
+													})
+												}
+												disabled={roleMutation.isPending}
+											>
+												{member.role === 'OWNER' ? 'Make member' : 'Make owner'}
+											</Button>
+										) : null}
+										{isOwner || member.userId === user?.id ? (
+											<Button
+												size="small"
+												color="error"
+												onClick={() => onRemove(member)}
+												disabled={removeMutation.isPending}
+											>
+												{member.userId === user?.id ? 'Leave' : 'Remove'}
+											</Button>
+										) : null}
+									</TableCell>
+								</TableRow>
+							))}
+						</TableBody>
+					</Table>
+
+					{isOwner ? (
+						<Stack spacing={1}>
+							<Stack
+								component="form"
+								direction="row"
+								spacing={2}
+								onSubmit={(e: React.FormEvent<HTMLFormElement>) => {
+									e.preventDefault();
+									if (email.trim()) inviteMutation.mutate({ id: household.id, email: email.trim() });
+								}}
+							>
+								<TextField
+									label="Invite by email"
+									type="email"
+									value={email}
+									onChange={(e) => setEmail(e.target.value)}
+									size="small"
+									fullWidth
+								/>
+								<Button type="submit" variant="outlined" disabled={!email.trim() || inviteMutation.isPending}>
+									Invite
+								</Button>
+							</Stack>
+							{invitation ? (
+								<Alert severity="success" onClose={() => setInvitation(null)}>
+									Send this link to {invitation.email}. It is shown only once and expires on{' '}
+									{new Date(invitation.expiresAt).toLocaleDateString()}:
+									<Box component="code" sx={{ display: 'block', mt: 1, wordBreak: 'break-all' }}>
+										{acceptLink(invitation.token)}
+									</Box>
+								</Alert>
+							) : null}
+							{household.invitations.map((pending) => (
+								<Stack key={pending.id} direction="row" spacing={1} alignItems="center">
+									<Typography variant="body2" color="text.secondary" sx={{ flexGrow: 1 }}>
+										Invited {pending.email} - expires {new Date(pending.expiresAt).toLocaleDateString()}
+									</Typography>
+									<Button
+										size="small"
+										onClick={() => revokeMutation.mutate({ id: household.id, invitationId: pending.id })}
+										disabled={revokeMutation.isPending}
+									>
+										Revoke
+									</Button>
+								</Stack>
+							))}
+						</Stack>
+					) : null}
+				</Stack>
+			</CardContent>
+		</Card>
+	);
+}
@@ -0,0 +1,237 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
+import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import {
+	Alert,
+	Box,
+	Button,
+	Card,
+	CardContent,
+	CircularProgress,
+	FormControlLabel,
+	IconButton,
+	Stack,
+	Switch,
+	TextField,
+	Typography,
+} from '@mui/material';
+
+import { apiFetch } from '../lib/api';
+
+type MealSlotConfig = { key: string; label: string; sortOrder: number; active: boolean };
+type MealSlotsResponse = { customized?: boolean; slots: MealSlotConfig[] };
+type SlotRow = { key: string; label: string; active: boolean; isNew: boolean };
+type Scope = 'user' | 'admin';
+
+const SLOT_KEY_REGEX = /^[a-z][a-z0-9_]*$/;
+
+const endpoints: Record<Scope, { read: string; write: string }> = {
+	user: { read: '/meal-slots', write: '/me/meal-slots' },
+	admin: { read: '/admin/meal-slots', write: '/admin/meal-slots' },
+};
+
+async function fetchSlots(scope: Scope): Promise<MealSlotsResponse> {
+	return apiFetch<MealSlotsResponse>(endpoints[scope].read);
+}
+
+async function saveSlots({ scope, slots }: { scope: Scope; slots: MealSlotConfig[] }) {
+	return apiFetch<MealSlotsResponse>(endpoints[scope].write, {
+		method: 'PUT',
+		body: JSON.stringify({ slots }),
+	});
+}
+
+async function resetSlots(): Promise<MealSlotsResponse> {
+	return apiFetch<MealSlotsResponse>('/me/meal-slots', { method: 'DELETE' });
+}
+
+function slugify(label: string): string {
+	return label
+		.trim()
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, '_')
+		.replace(/^[^a-z]+|_+$/g, '');
+}
+
+function toRows(slots: MealSlotConfig[]): SlotRow[] {
+	return [...slots]
+		.sort((a, b) => a.sortOrder - b.sortOrder)
+		.map((slot) => ({ key: slot.key, label: slot.label, active: slot.active, isNew: false }));
+}
+
+function findValidationError(rows: SlotRow[]): string | null {
+	if (rows.some((row) => !row.label.trim())) return 'Every slot needs a label.';
+	if (rows.some((row) => !SLOT_KEY_REGEX.test(row.key))) return 'Slot labels must start with a letter.';
+	if (new Set(rows.map((row) => row.key)).size !== rows.length) return 'Slot labels must be unique.';
+	if (!rows.some((row) => row.active)) return 'At least one slot must be active.';
+	return null;
+}
+
+export default function MealSlotsPage({ scope }: { scope: Scope }) {
+	const { data, isLoading, error } = useQuery({
+		queryKey: scope === 'admin' ? ['admin-meal-slots'] : ['meal-slots'],
+		queryFn: () => fetchSlots(scope),
+	});
+
+	if (isLoading) {
+		return (
+			<Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+				<CircularProgress />
+			</Box>
+		);
+	}
+
+	if (error) {
+		return <Alert severity="error">{String(error)}</Alert>;
+	}
+
+	if (!data) {
+		return null;
+	}
+
+	return <MealSlotsForm key={JSON.stringify(data)} scope={scope} data={data} />;
+}
+
+function MealSlotsForm({ scope, data }: { scope: Scope; data: MealSlotsResponse }) {
+	const qc = useQueryClient();
+	const [rows, setRows] = useState<SlotRow[]>(() => toRows(data.slots));
+
+	const onSaved = async (result: MealSlotsResponse) => {
+		qc.setQueryData(scope === 'admin' ? ['admin-meal-slots'] : ['meal-slots'], result);
+		await qc.invalidateQueries({ queryKey: ['meal-slots'] });
+		await qc.invalidateQueries({ queryKey: ['meal-plan'] });
+	};
+
+	const saveMutation = useMutation({ mutationFn: saveSlots, onSuccess: onSaved });
+	const resetMutation = useMutation({ mutationFn: resetSlots, onSuccess: onSaved });
+
+	const updateRow = (idx: number, patch: Partial<SlotRow>) => {
+		setRows((prev) =>
+			prev.map((row, i) => {
+				if (i !== idx) return row;
+				const next = { ...row, ...patch };
+				return next.isNew && patch.label !== undefined ? { ...next, key: slugify(patch.label) } : next;
+			})
+		);
+	};
+
+	const moveRow = (idx: number, direction: -1 | 1) => {
+		setRows((prev) => {
+			const target = idx + direction;
+			if (target < 0 || target >= prev.length) return prev;
+			const next = [...prev];
+			[next[idx], next[target]] = [next[target], next[idx]];
+			return next;
+		});
+	};
+
+	const validationError = findValidationError(rows);
+
+	const submit = () => {
+		saveMutation.mutate({
+			scope,
+			slots: rows.map((row, idx) => ({
+				key: row.key,
+				label: row.label.trim(),
+				sortOrder: idx,
+				active: row.active,
+			})),
+		});
+	};
+
+	const isPending = saveMutation.isPending || resetMutation.isPending;
+	const mutationError = saveMutation.error ?? resetMutation.error;
+
+	return (
+		<Stack spacing={2}>
+			<Typography variant="h5">{scope === 'admin' ? 'Admin: Default Meal Slots' : 'Meal Slots'}</Typography>
+			<Typography variant="body2" color="text.secondary">
+				{scope === 'admin'
+					? 'Default slots for users who have not customized their planner.'
+					: data.customized
+						? 'You are using your own slot configuration.'
+						: 'You are using the default slots. Saving creates your own configuration.'}
+			</Typography>
+
+			<Card variant="outlined">
+				<CardContent>
+					<Stack spacing={1.5}>
+						{rows.map((row, idx) => (
+							<Stack key={idx} direction="row" spacing={1} alignItems="center">
+								<Stack>
+									<IconButton
+										size="small"
+										aria-label="Move up"
+										onClick={() => moveRow(idx, -1)}
+										disabled={idx === 0}
+									>
+										<ArrowUpwardIcon fontSize="small" />
+									</IconButton>
+									<IconButton
+										size="small"
+										aria-label="Move down"
+										onClick={() => moveRow(idx, 1)}
+										disabled={idx === rows.length - 1}
+									>
+										<ArrowDownwardIcon fontSize="small" />
+									</IconButton>
+								</Stack>
+								<TextField
+									size="small"
+									label="Label"
+									value={row.label}
+									onChange={(e) => updateRow(idx, { label: e.target.value })}
+									helperText={`Key: ${row.key || '-'}`}
+									fullWidth
+								/>
+								<FormControlLabel
+									control={
+										<Switch
+											checked={row.active}
+											onChange={(e) => updateRow(idx, { active: e.target.checked })}
+										/>
+									}
+									label="Active"
+								/>
+								<IconButton
+									aria-label={`Remove ${row.label}`}
+									color="error"
+									onClick={() => setRows((prev) => prev.filter((_, i) => i !== idx))}
+								>
+									<DeleteOutlineIcon />
+								</IconButton>
+							</Stack>
+						))}
+
+						<Box>
+							<Button
+								onClick={() =>
+									setRows((prev) => [...prev, { key: '', label: '', active: true, isNew: true }])
+								}
+							>
+								Add slot
+							</Button>
+						</Box>
+
+						{validationError ? <Alert severity="warning">{validationError}</Alert> : null}
+						{mutationError ? <Alert severity="error">{String(mutationError)}</Alert> : null}
+						{saveMutation.isSuccess ? <Alert severity="success">Meal slots saved.</Alert> : null}
+
+						<Stack direction="row" spacing={2} justifyContent="flex-end">
+							{scope === 'user' && data.customized ? (
+								<Button variant="outlined" onClick={() => resetMutation.mutate()} disabled={isPending}>
+									Reset to defaults
+								</Button>
+							) : null}
+							<Button variant="contained" onClick={submit} disabled={isPending || Boolean(validationError)}>
+								{saveMutation.isPending ? 'Saving...' : 'Save slots'}
+							</Button>
+						</Stack>
+					</Stack>
+				</CardContent>
+			</Card>
+		</Stack>
+	);
+}
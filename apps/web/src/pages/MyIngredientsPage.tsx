@@ -0,0 +1,270 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import {
+	Alert,
+	Box,
+	Button,
+	Card,
+	CardContent,
+	CircularProgress,
+	IconButton,
+	Stack,
+	Table,
+	TableBody,
+	TableCell,
+	TableContainer,
+	TableHead,
+	TableRow,
+	TextField,
+	Typography,
+} from '@mui/material';
+
+import DietaryTagSelect from '../components/DietaryTagSelect';
+import { ApiError, apiFetch } from '../lib/api';
+import { dietaryTagLabel, fetchDietaryTags } from '../lib/dietary';
+
+type PrivateIngredient = {
+	id: string;
+	name: string;
+	category: string | null;
+	kcalPer100g: number;
+	proteinPer100g: number;
+	carbsPer100g: number;
+	fatPer100g: number;
+	allergens: string[];
+	dietTags: string[];
+};
+
+type PrivateIngredientInput = Omit<PrivateIngredient, 'id' | 'category'> & { category?: string };
+
+const MACRO_FIELDS: Array<{
+	field: keyof Omit<PrivateIngredientInput, 'name' | 'category' | 'allergens' | 'dietTags'>;
+	label: string;
+}> = [
+	{ field: 'kcalPer100g', label: 'kcal / 100g' },
+	{ field: 'proteinPer100g', label: 'Protein / 100g' },
+	{ field: 'carbsPer100g', label: 'Carbs / 100g' },
+	{ field: 'fatPer100g', label: 'Fat / 100g' },
+];
+
+const emptyMacros = { kcalPer100g: 0, proteinPer100g: 0, carbsPer100g: 0, fatPer100g: 0 };
+
+async function fetchMyIngredients(): Promise<PrivateIngredient[]> {
+	return apiFetch<PrivateIngredient[]>('/me/ingredients');
+}
+
+async function createMyIngredient(payload: PrivateIngredientInput): Promise<PrivateIngredient> {
+	return apiFetch<PrivateIngredient>('/me/ingredients', {
+		method: 'POST',
+		body: JSON.stringify(payload),
+	});
+}
+
+async function deleteMyIngredient(id: string): Promise<void> {
+	await apiFetch<void>(`/me/ingredients/${id}`, {
+		method: 'DELETE',
+	});
+}
+
+export default function MyIngredientsPage() {
+	const qc = useQueryClient();
+	const [formError, setFormError] = useState<string | null>(null);
+	const [name, setName] = useState('');
+	const [category, setCategory] = useState('');
+	const [macros, setMacros] = useState(emptyMacros);
+	const [allergens, setAllergens] = useState<string[]>([]);
+	const [dietTags, setDietTags] = useState<string[]>([]);
+
+	const { data, isLoading, error } = useQuery({
+		queryKey: ['ingredients', 'mine'],
+		queryFn: fetchMyIngredients,
+	});
+	const tagsQuery = useQuery({
+		queryKey: ['dietary-tags'],
+		queryFn: fetchDietaryTags,
+	});
+
+	const createMutation = useMutation({
+		mutationFn: createMyIngredient,
+		onSuccess: async () => {
+			await qc.invalidateQueries({ queryKey: ['ingredients'] });
+			setName('');
+			setCategory('');
+			setMacros(emptyMacros);
+			setAllergens([]);
+			setDietTags([]);
+			setFormError(null);
+		},
+		onError: (err) => {
+			if (err instanceof ApiError && err.status === 409) {
+				setFormError('You already have an ingredient with this name.');
+				return;
+			}
+			setFormError(String(err));
+		},
+	});
+
+	const deleteMutation = useMutation({
+		mutationFn: deleteMyIngredient,
+		onSuccess: async () => {
+			await qc.invalidateQueries({ queryKey: ['ingredients'] });
+		},
+	});
+
+	const submit = (event: React.FormEvent<HTMLFormElement>) => {
+		event.preventDefault();
+		setFormError(null);
+
+		if (!name.trim()) {
+			setFormError('Name is required.');
+			return;
+		}
+
+		if (Object.values(macros).some((value) => Number.isNaN(value) || value < 0)) {
+			setFormError('Nutrition values must be numbers >= 0.');
+			return;
+		}
+
+		createMutation.mutate({
+			name: name.trim(),
+			category: category.trim() || undefined,
+			...macros,
+			allergens,
+			dietTags,
+		});
+	};
+
+	const onDelete = (ingredient: PrivateIngredient) => {
+		if (!window.confirm(`Delete ingredient "${ingredient.name}"?`)) return;
+		deleteMutation.mutate(ingredient.id);
+	};
+
+	const rows = data ?? [];
+
+	return (
+		<Stack spacing={3}>
+			<Box>
+				<Typography variant="h5">My Ingredients</Typography>
+				<Typography variant="body2" color="text.secondary">
+					Private ingredients are only visible to you and can be used in your recipes and meal plans.
+				</Typography>
+			</Box>
+
+			<Card variant="outlined">
+				<CardContent>
+					<Stack component="form" spacing={2} onSubmit={submit}>
+						<Typography variant="subtitle1">Add ingredient</Typography>
+						{formError ? <Alert severity="error">{formError}</Alert> : null}
+						<Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+							<TextField
+								label="Name"
+								value={name}
+								onChange={(e) => setName(e.target.value)}
+								required
+								fullWidth
+							/>
+							<TextField
+								label="Category (optional)"
+								value={category}
+								onChange={(e) => setCategory(e.target.value)}
+								fullWidth
+							/>
+							{MACRO_FIELDS.map(({ field, label }) => (
+								<TextField
+									key={field}
+									label={label}
+									type="number"
+									value={macros[field]}
+									onChange={(e) => setMacros((prev) => ({ ...prev, [field]: Number(e.target.value) }))}
+									inputProps={{ min: 0, step: '0.1' }}
+								/>
+							))}
+						</Stack>
+						<Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+							<DietaryTagSelect kind="allergens" label="Allergens" value={allergens} onChange={setAllergens} />
+							<DietaryTagSelect kind="diets" label="Suitable diets" value={dietTags} onChange={setDietTags} />
+						</Stack>
+						<Box sx={{ display: 'flex', justifyContent: 'flex-end' }}>
+							<Button type="submit" variant="contained" disabled={createMutation.isPending}>
+								{createMutation.isPending ? 'Adding...' : 'Add ingredient'}
+							</Button>
+						</Box>
+					</Stack>
+				</CardContent>
+			</Card>
+
+			{isLoading ? (
+				<Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+					<CircularProgress />
+				</Box>
+			) : error ? (
+				<Alert severity="error">{String(error)}</Alert>
+			) : (
+				<TableContainer component={Card} variant="outlined">
+					<Table size="small">
+						<TableHead>
+							<TableRow>
+								<TableCell>Name</TableCell>
+								<TableCell>Category</TableCell>
+								{MACRO_FIELDS.map(({ field, label }) => (
+									<TableCell key={field} align="right">
+										{label}
+									</TableCell>
+								))}
+								<TableCell>Allergens</TableCell>
+								<TableCell align="right">Actions</TableCell>
+							</TableRow>
+						</TableHead>
+						<TableBody>
+							{rows.length === 0 ? (
+								<TableRow>
+									<TableCell colSpan={8}>
+										<Typography variant="body2" color="text.secondary">
+											No private ingredients yet.
+										</Typography>
+									</TableCell>
+								</TableRow>
+							) : (
+								rows.map((ingredient) => (
+									<TableRow key={ingredient.id}>
+										<TableCell>{ingredient.name}</TableCell>
+										<TableCell>{ingredient.category ?? '-'}</TableCell>
+										{MACRO_FIELDS.map(({ field }) => (
+											<TableCell key={field} align="right">
+												{Math.round(ingredient[field] * 10) / 10}
+											</TableCell>
+										))}
+										<TableCell>
+											{ingredient.allergens.length > 0
+												? ingredient.allergens.map((key) => dietaryTagLabel(tagsQuery.data?.allergens, key)).join(', ')
+												: '-'}
+										</TableCell>
+										<TableCell align="right">
+											<IconButton
+												aria-label={`Delete ${ingredient.name}`}
+												color="error"
+												onClick={() => onDelete(ingredient)}
+												disabled={deleteMutation.isPending}
+											>
+												<DeleteOutlineIcon />
+											</IconButton>
+										</TableCell>
+									</TableRow>
+								))
+							)}
+						</TableBody>
+					</Table>
+				</TableContainer>
+			)}
+
+			{deleteMutation.isError ? (
+				<Alert severity="error">
+					{deleteMutation.error instanceof ApiError && deleteMutation.error.status === 409
+						? 'This ingredient is already used in recipes or meal plans and cannot be deleted.'
+						: String(deleteMutation.error)}
+				</Alert>
+			) : null}
+		</Stack>
+	);
+}
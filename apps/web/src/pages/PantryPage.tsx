@@ -0,0 +1,253 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import {
+	Alert,
+	Autocomplete,
+	Box,
+	Button,
+	Card,
+	CardContent,
+	Chip,
+	CircularProgress,
+	IconButton,
+	Stack,
+	Table,
+	TableBody,
+	TableCell,
+	TableContainer,
+	TableHead,
+	TableRow,
+	TextField,
+	Typography,
+} from '@mui/material';
+
+import { apiFetch } from '../lib/api';
+
+type PantryItem = {
+	id: string;
+	ingredientId: string;
+	ingredientName: string;
+	category: string | null;
+	quantityG: number;
+	expiresOn: string | null;
+	expired: boolean;
+};
+
+type IngredientOption = {
+	id: string;
+	name: string;
+};
+
+type PantryItemPatch = { quantityG?: number; expiresOn?: string | null };
+
+async function fetchPantry(): Promise<PantryItem[]> {
+	return apiFetch<PantryItem[]>('/pantry');
+}
+
+async function fetchIngredients(): Promise<IngredientOption[]> {
+	return apiFetch<IngredientOption[]>('/ingredients');
+}
+
+async function addPantryItem(payload: {
+	ingredientId: string;
+	quantityG: number;
+	expiresOn: string | null;
+}): Promise<PantryItem> {
+	return apiFetch<PantryItem>('/pantry', {
+		method: 'POST',
+		body: JSON.stringify(payload),
+	});
+}
+
+async function updatePantryItem({ id, patch }: { id: string; patch: PantryItemPatch }): Promise<PantryItem> {
+	return apiFetch<PantryItem>(`/pantry/${id}`, {
+		method: 'PATCH',
+		body: JSON.stringify(patch),
+	});
+}
+
+async function deletePantryItem(id: string): Promise<void> {
+	await apiFetch<void>(`/pantry/${id}`, { method: 'DELETE' });
+}
+
+export default function PantryPage() {
+	const qc = useQueryClient();
+	const [ingredient, setIngredient] = useState<IngredientOption | null>(null);
+	const [quantityG, setQuantityG] = useState(100);
+	const [expiresOn, setExpiresOn] = useState('');
+
+	const { data, isLoading, error } = useQuery({
+		queryKey: ['pantry'],
+		queryFn: fetchPantry,
+	});
+
+	const ingredientsQuery = useQuery({
+		queryKey: ['ingredients'],
+		queryFn: fetchIngredients,
+	});
+
+	// Pantry stock changes what is left to buy.
+	const refresh = async () => {
+		await qc.invalidateQueries({ queryKey: ['pantry'] });
+		await qc.invalidateQueries({ queryKey: ['shopping-list'] });
+	};
+
+	const addMutation = useMutation({
+		mutationFn: addPantryItem,
+		onSuccess: async () => {
+			setIngredient(null);
+			setQuantityG(100);
+			setExpiresOn('');
+			await refresh();
+		},
+	});
+	const updateMutation = useMutation({ mutationFn: updatePantryItem, onSuccess: refresh });
+	const deleteMutation = useMutation({ mutationFn: deletePantryItem, onSuccess: refresh });
+
+	const mutationError = addMutation.error ?? updateMutation.error ?? deleteMutation.error;
+
+	const submit = (event: React.FormEvent<HTMLFormElement>) => {
+		event.preventDefault();
+		if (!ingredient || !(quantityG > 0)) return;
+		addMutation.mutate({ ingredientId: ingredient.id, quantityG, expiresOn: expiresOn || null });
+	};
+
+	const rows = data ?? [];
+
+	return (
+		<Stack spacing={3}>
+			<Box>
+				<Typography variant="h5">Pantry</Typography>
+				<Typography variant="body2" color="text.secondary">
+					What is in your kitchen. Stock is subtracted from shopping lists and used up when you mark a planned meal as
+					cooked, earliest expiry first.
+				</Typography>
+			</Box>
+
+			<Card variant="outlined">
+				<CardContent>
+					<Stack component="form" direction={{ xs: 'column', md: 'row' }} spacing={2} onSubmit={submit}>
+						<Autocomplete
+							sx={{ minWidth: 260, flexGrow: 1 }}
+							options={ingredientsQuery.data ?? []}
+							value={ingredient}
+							onChange={(_, value) => setIngredient(value)}
+							getOptionLabel={(option) => option.name}
+							isOptionEqualToValue={(option, value) => option.id === value.id}
+							loading={ingredientsQuery.isLoading}
+							renderInput={(params) => <TextField {...params} label="Ingredient" size="small" />}
+						/>
+						<TextField
+							label="Quantity (g)"
+							type="number"
+							size="small"
+							value={quantityG}
+							onChange={(e) => setQuantityG(Number(e.target.value))}
+							slotProps={{ htmlInput: { min: 1 } }}
+							sx={{ width: 140 }}
+						/>
+						<TextField
+							label="Expires on (optional)"
+							type="date"
+							size="small"
+							value={expiresOn}
+							onChange={(e) => setExpiresOn(e.target.value)}
+							slotProps={{ inputLabel: { shrink: true } }}
+							sx={{ width: 190 }}
+						/>
+						<Button
+							type="submit"
+							variant="contained"
+							disabled={!ingredient || !(quantityG > 0) || addMutation.isPending}
+						>
+							Add to pantry
+						</Button>
+					</Stack>
+				</CardContent>
+			</Card>
+
+			{mutationError ? <Alert severity="error">{String(mutationError)}</Alert> : null}
+
+			{isLoading ? (
+				<Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+					<CircularProgress />
+				</Box>
+			) : error ? (
+				<Alert severity="error">{String(error)}</Alert>
+			) : (
+				<TableContainer component={Card} variant="outlined">
+					<Table size="small">
+						<TableHead>
+							<TableRow>
+								<TableCell>Ingredient</TableCell>
+								<TableCell>Category</TableCell>
+								<TableCell>Quantity (g)</TableCell>
+								<TableCell>Expires on</TableCell>
+								<TableCell align="right">Actions</TableCell>
+							</TableRow>
+						</TableHead>
+						<TableBody>
+							{rows.length === 0 ? (
+								<TableRow>
+									<TableCell colSpan={5}>
+										<Typography variant="body2" color="text.secondary">
+											Your pantry is empty.
+										</Typography>
+									</TableCell>
+								</TableRow>
+							) : (
+								rows.map((item) => (
+									<TableRow key={item.id}>
+										<TableCell>
+											{item.ingredientName}
+											{item.expired ? <Chip size="small" color="error" label="Expired" sx={{ ml: 1 }} /> : null}
+										</TableCell>
+										<TableCell>{item.category ?? '-'}</TableCell>
+										<TableCell>
+											<TextField
+												key={item.quantityG}
+												type="number"
+												size="small"
+												defaultValue={item.quantityG}
+												onBlur={(e) => {
+													const value = Number(e.target.value);
+													if (value > 0 && value !== item.quantityG) {
+														updateMutation.mutate({ id: item.id, patch: { quantityG: value } });
+													}
+												}}
+												slotProps={{ htmlInput: { min: 1, 'aria-label': `${item.ingredientName} grams` } }}
+												sx={{ width: 120 }}
+											/>
+										</TableCell>
+										<TableCell>
+											<TextField
+												type="date"
+												size="small"
+												value={item.expiresOn ?? ''}
+												onChange={(e) =>
+													updateMutation.mutate({ id: item.id, patch: { expiresOn: e.target.value || null } })
+												}
+												slotProps={{ htmlInput: { 'aria-label': `${item.ingredientName} expiry date` } }}
+											/>
+										</TableCell>
+										<TableCell align="right">
+											<IconButton
+												aria-label={`Remove ${item.ingredientName}`}
+												color="error"
+												onClick={() => deleteMutation.mutate(item.id)}
+												disabled={deleteMutation.isPending}
+											>
+												<DeleteOutlineIcon />
+											</IconButton>
+										</TableCell>
+									</TableRow>
+								))
+							)}
+						</TableBody>
+					</Table>
+				</TableContainer>
+			)}
+		</Stack>
+	);
+}
@@ -1,7 +1,11 @@
-﻿import { useMemo, useState } from 'react';
+﻿import { useEffect, useState } from 'react';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
+import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
 import {
 	Alert,
+	Autocomplete,
 	Box,
 	Button,
 	Card,
@@ -9,6 +13,8 @@ import {
 	CircularProgress,
 	Divider,
 	FormControl,
+	FormHelperText,
+	IconButton,
 	InputLabel,
 	MenuItem,
 	Select,
@@ -16,9 +22,10 @@ import {
 	TextField,
 	Typography,
 } from '@mui/material';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useParams } from 'react-router-dom';
 
 import { apiFetch } from '../lib/api';
+import { RECIPE_INSTRUCTIONS_VERSION, type RecipeInstructions } from '../lib/recipeInstructions';
 
 type Ingredient = {
 	id: string;
@@ -27,99 +34,403 @@ type Ingredient = {
 	proteinPer100g: number;
 	carbsPer100g: number;
 	fatPer100g: number;
+	ownerId: string | null;
+	units: UnitOption[];
 };
 
-type RecipeItemInput = { ingredientId: string; quantityG: number };
+type UnitOption = {
+	unit: string;
+	label: string;
+	kind: 'mass' | 'volume' | 'portion';
+	grams: number;
+};
+
+type IngredientPage = {
+	items: Ingredient[];
+	nextCursor: string | null;
+};
+
+type RecipeItemInput = {
+	ingredientId: string;
+	name: string;
+	quantity: number;
+	unit: string;
+	// null when the unit's weight is unknown
+	gramsPerUnit: number | null;
+};
+
+type RecipeItemPayload =
+	| { ingredientId: string; quantityG: number }
+	| { ingredientId: string; quantity: number; unit: string };
+
+type RecipeVisibility = 'PRIVATE' | 'SHARED' | 'PUBLIC';
+
+type RecipeDetail = {
+	id: string;
+	name: string;
+	servings: number;
+	notes: string | null;
+	visibility: RecipeVisibility;
+	household: { id: string; name: string } | null;
+	isOwner: boolean;
+	slotTags: string[];
+	items: Array<{
+		id: string;
+		ingredientId: string;
+		ingredientName: string;
+		quantityG: number;
+		quantity: number | null;
+		unit: string | null;
+	}>;
+	instructions: RecipeInstructions;
+};
+
+// Minutes are kept as typed so an empty field means "no timer".
+type RecipeStepInput = {
+	text: string;
+	minutes: string;
+	ingredientIds: string[];
+};
+
+type RecipeStepPayload = {
+	text: string;
+	durationSeconds: number | null;
+	ingredientIds: string[];
+};
 
-type CreateRecipePayload = {
+type RecipePayload = {
 	name: string;
 	servings: number;
 	notes?: string;
-	items: RecipeItemInput[];
+	visibility: RecipeVisibility;
+	householdId: string | null;
+	slotTags: string[];
+	items: RecipeItemPayload[];
+	prepMinutes: number | null;
+	cookMinutes: number | null;
+	// Left out to keep the saved steps untouched.
+	steps?: RecipeStepPayload[];
 };
 
-async function fetchIngredients(): Promise<Ingredient[]> {
-	return apiFetch<Ingredient[]>('/ingredients');
+type HouseholdOption = { id: string; name: string };
+
+type MealSlotOption = { key: string; label: string; active: boolean };
+
+const VISIBILITY_OPTIONS: Array<{ value: RecipeVisibility; label: string }> = [
+	{ value: 'PRIVATE', label: 'Private - only me' },
+	{ value: 'SHARED', label: 'Shared - people I choose' },
+	{ value: 'PUBLIC', label: 'Public - recipe library' },
+];
+
+const SEARCH_PAGE_SIZE = 20;
+const SEARCH_DEBOUNCE_MS = 250;
+
+async function searchIngredients(q: string): Promise<IngredientPage> {
+	const params = new URLSearchParams({ limit: String(SEARCH_PAGE_SIZE) });
+	if (q) params.set('q', q);
+	return apiFetch<IngredientPage>(`/ingredients?${params.toString()}`);
+}
+
+function useDebouncedValue<T>(value: T, delayMs: number): T {
+	const [debounced, setDebounced] = useState(value);
+
+	useEffect(() => {
+		const timeout = window.setTimeout(() => setDebounced(value), delayMs);
+		return () => window.clearTimeout(timeout);
+	}, [value, delayMs]);
+
+	return debounced;
+}
+
+async function fetchHouseholds(): Promise<HouseholdOption[]> {
+	return apiFetch<HouseholdOption[]>('/households');
+}
+
+async function fetchMealSlots(): Promise<{ customized: boolean; slots: MealSlotOption[] }> {
+	return apiFetch<{ customized: boolean; slots: MealSlotOption[] }>('/meal-slots');
+}
+
+async function fetchRecipe(id: string): Promise<RecipeDetail> {
+	return apiFetch<RecipeDetail>(`/recipes/${id}`);
 }
 
-async function createRecipe(payload: CreateRecipePayload) {
-	return apiFetch('/recipes', {
+// Conflicts with the user's dietary restrictions come back as warnings unless they chose strict mode;
+// edits are only checked when they change the ingredients.
+async function createRecipe(payload: RecipePayload) {
+	return apiFetch<{ dietWarnings: string[] }>('/recipes', {
 		method: 'POST',
 		body: JSON.stringify(payload),
 	});
 }
 
+async function updateRecipe({ id, payload }: { id: string; payload: RecipePayload }) {
+	return apiFetch<RecipeDetail & { dietWarnings: string[] }>(`/recipes/${id}`, {
+		method: 'PUT',
+		body: JSON.stringify(payload),
+	});
+}
+
+function toItemInputs(recipe: RecipeDetail): RecipeItemInput[] {
+	const items: RecipeItemInput[] = [];
+	for (const it of recipe.items) {
+		const unit = it.unit ?? 'g';
+		const quantity = it.quantity ?? it.quantityG;
+		const existing = items.find((x) => x.ingredientId === it.ingredientId && x.unit === unit);
+		if (existing) {
+			existing.quantity += quantity;
+		} else {
+			items.push({
+				ingredientId: it.ingredientId,
+				name: it.ingredientName,
+				quantity,
+				unit,
+				gramsPerUnit: it.quantityG / quantity,
+			});
+		}
+	}
+	return items;
+}
+
+// Grams are sent as-is so the recipe does not remember "g" as a household unit.
+function toPayloadItem(item: RecipeItemInput): RecipeItemPayload {
+	if (item.unit === 'g') {
+		return { ingredientId: item.ingredientId, quantityG: item.quantity };
+	}
+	return { ingredientId: item.ingredientId, quantity: item.quantity, unit: item.unit };
+}
+
+function toStepInputs(recipe: RecipeDetail): RecipeStepInput[] {
+	if (recipe.instructions.version !== RECIPE_INSTRUCTIONS_VERSION) return [];
+	return recipe.instructions.steps.map((step) => ({
+		text: step.text,
+		minutes: step.durationSeconds === null ? '' : String(Math.round((step.durationSeconds / 60) * 100) / 100),
+		ingredientIds: [...new Set(step.items.map((it) => it.ingredientId))],
+	}));
+}
+
+function stepSeconds(step: RecipeStepInput): number | null {
+	return step.minutes.trim() ? Math.round(Number(step.minutes) * 60) : null;
+}
+
+function minutesValue(value: string): number | null {
+	return value.trim() ? Number(value) : null;
+}
+
+function unitGrams(item: RecipeItemInput): number | null {
+	return item.gramsPerUnit === null ? null : Math.round(item.gramsPerUnit * item.quantity * 10) / 10;
+}
+
 export default function RecipeCreate() {
-	const qc = useQueryClient();
-	const nav = useNavigate();
+	const { id } = useParams<{ id: string }>();
 
-	const { data: ingredients, isLoading, error } = useQuery({
-		queryKey: ['ingredients'],
-		queryFn: fetchIngredients,
+	const recipeQuery = useQuery({
+		queryKey: ['recipe', id],
+		queryFn: () => fetchRecipe(id!),
+		enabled: Boolean(id),
 	});
 
-	const [name, setName] = useState('');
-	const [servings, setServings] = useState<number>(2);
-	const [description, setDescription] = useState('');
-	const [selectedIngredientId, setSelectedIngredientId] = useState('');
-	const [quantityG, setQuantityG] = useState<number>(100);
-	const [items, setItems] = useState<RecipeItemInput[]>([]);
+	if (!id) {
+		return <RecipeForm />;
+	}
+
+	if (recipeQuery.isLoading) {
+		return (
+			<Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+				<CircularProgress />
+			</Box>
+		);
+	}
+
+	if (recipeQuery.error) {
+		return <Alert severity="error">{String(recipeQuery.error)}</Alert>;
+	}
+
+	if (!recipeQuery.data) {
+		return null;
+	}
 
-	const ingredientById = useMemo(() => {
-		return new Map((ingredients ?? []).map((i) => [i.id, i]));
-	}, [ingredients]);
+	return <RecipeForm key={recipeQuery.data.id} recipe={recipeQuery.data} />;
+}
+
+function RecipeForm({ recipe }: { recipe?: RecipeDetail }) {
+	const qc = useQueryClient();
+	const nav = useNavigate();
+	const isEdit = Boolean(recipe);
+
+	const [name, setName] = useState(recipe?.name ?? '');
+	const [servings, setServings] = useState<number>(recipe?.servings ?? 2);
+	const [description, setDescription] = useState(recipe?.notes ?? '');
+	const [visibility, setVisibility] = useState<RecipeVisibility>(recipe?.visibility ?? 'PRIVATE');
+	const [householdId, setHouseholdId] = useState(recipe?.household?.id ?? '');
+	const [slotTags, setSlotTags] = useState<string[]>(recipe?.slotTags ?? []);
+	// Household members may edit the recipe, but only its creator decides who can see it.
+	const canChangeAccess = !recipe || recipe.isOwner;
+	const [selectedIngredient, setSelectedIngredient] = useState<Ingredient | null>(null);
+	const [searchText, setSearchText] = useState('');
+	const [quantity, setQuantity] = useState<number>(100);
+	const [unit, setUnit] = useState('g');
+	const [items, setItems] = useState<RecipeItemInput[]>(() => (recipe ? toItemInputs(recipe) : []));
+	const [prepMinutes, setPrepMinutes] = useState(String(recipe?.instructions.prepMinutes ?? ''));
+	const [cookMinutes, setCookMinutes] = useState(String(recipe?.instructions.cookMinutes ?? ''));
+	const [steps, setSteps] = useState<RecipeStepInput[]>(() => (recipe ? toStepInputs(recipe) : []));
+	const canEditSteps = !recipe || recipe.instructions.version === RECIPE_INSTRUCTIONS_VERSION;
+	const stepIngredients = items.filter(
+		(it, index) => items.findIndex((other) => other.ingredientId === it.ingredientId) === index
+	);
+	const invalidTimes =
+		[prepMinutes, cookMinutes].some((value) => {
+			const minutes = minutesValue(value);
+			return minutes !== null && !(Number.isInteger(minutes) && minutes >= 0);
+		}) ||
+		steps.some((step) => {
+			const seconds = stepSeconds(step);
+			return seconds !== null && !(seconds > 0);
+		});
+
+	const search = useDebouncedValue(searchText.trim(), SEARCH_DEBOUNCE_MS);
+	const {
+		data: searchResults,
+		isFetching: searching,
+		error,
+	} = useQuery({
+		queryKey: ['ingredients', 'search', search],
+		queryFn: () => searchIngredients(search),
+		placeholderData: (previous) => previous,
+	});
+	const { data: households } = useQuery({
+		queryKey: ['households'],
+		queryFn: fetchHouseholds,
+	});
+	const { data: mealSlots } = useQuery({
+		queryKey: ['meal-slots', ''],
+		queryFn: fetchMealSlots,
+	});
+	// Tags of slots that were since removed or deactivated stay selectable so they can be cleared.
+	const slotOptions = [
+		...(mealSlots?.slots ?? []).filter((slot) => slot.active),
+		...slotTags
+			.filter((key) => !mealSlots?.slots.some((slot) => slot.key === key && slot.active))
+			.map((key) => ({ key, label: key, active: false })),
+	];
+	const slotLabel = (key: string) => slotOptions.find((slot) => slot.key === key)?.label ?? key;
 
+	const [dietWarnings, setDietWarnings] = useState<string[]>([]);
 	const mutation = useMutation({
-		mutationFn: createRecipe,
-		onSuccess: async () => {
+		mutationFn: async (payload: RecipePayload) => {
+			if (recipe) {
+				return (await updateRecipe({ id: recipe.id, payload })).dietWarnings;
+			}
+			return (await createRecipe(payload)).dietWarnings;
+		},
+		onSuccess: async (warnings) => {
 			await qc.invalidateQueries({ queryKey: ['recipes'] });
+			if (recipe) {
+				await qc.invalidateQueries({ queryKey: ['recipe', recipe.id] });
+			}
+			if (warnings.length > 0) {
+				setDietWarnings(warnings);
+				return;
+			}
 			nav('/recipes');
 		},
 	});
 
+	const selectedUnits = selectedIngredient?.units ?? [];
+
+	const selectIngredient = (ingredient: Ingredient | null) => {
+		setSelectedIngredient(ingredient);
+		setUnit('g');
+		setQuantity(100);
+	};
+
+	const selectUnit = (nextUnit: string) => {
+		setUnit(nextUnit);
+		setQuantity(nextUnit === 'g' || nextUnit === 'ml' ? 100 : 1);
+	};
+
 	const addItem = () => {
-		if (!selectedIngredientId) return;
-		if (!quantityG || quantityG <= 0) return;
+		const ingredient = selectedIngredient;
+		if (!ingredient) return;
+		if (!quantity || quantity <= 0) return;
 
 		setItems((prev) => {
-			const existing = prev.find((x) => x.ingredientId === selectedIngredientId);
-			if (existing) {
-				return prev.map((x) =>
-					x.ingredientId === selectedIngredientId
-						? { ...x, quantityG: x.quantityG + quantityG }
-						: x
-				);
+			const matches = (x: RecipeItemInput) => x.ingredientId === ingredient.id && x.unit === unit;
+			if (prev.some(matches)) {
+				return prev.map((x) => (matches(x) ? { ...x, quantity: x.quantity + quantity } : x));
 			}
-			return [...prev, { ingredientId: selectedIngredientId, quantityG }];
+			return [
+				...prev,
+				{
+					ingredientId: ingredient.id,
+					name: ingredient.name,
+					quantity,
+					unit,
+					gramsPerUnit: ingredient.units.find((u) => u.unit === unit)?.grams ?? null,
+				},
+			];
 		});
 	};
 
-	const removeItem = (ingredientId: string) => {
-		setItems((prev) => prev.filter((x) => x.ingredientId !== ingredientId));
+	const removeItem = (item: RecipeItemInput) => {
+		setItems((prev) => prev.filter((x) => x !== item));
+	};
+
+	const updateStep = (index: number, patch: Partial<RecipeStepInput>) => {
+		setSteps((prev) => prev.map((step, i) => (i === index ? { ...step, ...patch } : step)));
+	};
+
+	const moveStep = (index: number, offset: number) => {
+		setSteps((prev) => {
+			const next = [...prev];
+			const [step] = next.splice(index, 1);
+			next.splice(index + offset, 0, step!);
+			return next;
+		});
 	};
 
 	const submit = () => {
 		if (!name.trim()) return;
 		if (!servings || servings < 1) return;
 		if (items.length === 0) return;
+		if (invalidTimes) return;
 
+		// Steps may only point at ingredients that are still in the recipe.
+		const itemIds = new Set(items.map((it) => it.ingredientId));
 		mutation.mutate({
 			name: name.trim(),
 			servings,
 			notes: description.trim() || undefined,
-			items,
+			visibility,
+			householdId: householdId || null,
+			slotTags,
+			items: items.map(toPayloadItem),
+			prepMinutes: minutesValue(prepMinutes),
+			cookMinutes: minutesValue(cookMinutes),
+			...(canEditSteps
+				? {
+						steps: steps
+							.filter((step) => step.text.trim())
+							.map((step) => ({
+								text: step.text.trim(),
+								durationSeconds: stepSeconds(step),
+								ingredientIds: step.ingredientIds.filter((ingredientId) => itemIds.has(ingredientId)),
+							})),
+					}
+				: {}),
 		});
 	};
 
+	const submitLabel = isEdit
+		? mutation.isPending
+			? 'Saving...'
+			: 'Save changes'
+		: mutation.isPending
+			? 'Creating...'
+			: 'Create recipe';
+
 	return (
 		<Stack spacing={2}>
-			<Typography variant="h5">New Recipe</Typography>
-
-			{isLoading && (
-				<Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
-					<CircularProgress />
-				</Box>
-			)}
+			<Typography variant="h5">{isEdit ? 'Edit Recipe' : 'New Recipe'}</Typography>
 
 			{error && <Alert severity="error">{String(error)}</Alert>}
 
@@ -133,16 +444,94 @@ export default function RecipeCreate() {
 							fullWidth
 						/>
 
+						<Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+							<TextField
+								label="Servings"
+								type="number"
+								value={servings}
+								onChange={(e) => setServings(Number(e.target.value))}
+								inputProps={{ min: 1 }}
+								sx={{ width: 180 }}
+							/>
+							<TextField
+								label="Prep (min)"
+								type="number"
+								value={prepMinutes}
+								onChange={(e) => setPrepMinutes(e.target.value)}
+								inputProps={{ min: 0, step: 1 }}
+								sx={{ width: 130 }}
+							/>
+							<TextField
+								label="Cook (min)"
+								type="number"
+								value={cookMinutes}
+								onChange={(e) => setCookMinutes(e.target.value)}
+								inputProps={{ min: 0, step: 1 }}
+								sx={{ width: 130 }}
+							/>
+							<FormControl sx={{ minWidth: 260 }}>
+								<InputLabel id="recipe-visibility-label">Visibility</InputLabel>
+								<Select
+									labelId="recipe-visibility-label"
+									label="Visibility"
+									value={visibility}
+									onChange={(e) => setVisibility(e.target.value as RecipeVisibility)}
+									disabled={!canChangeAccess}
+								>
+									{VISIBILITY_OPTIONS.map((option) => (
+										<MenuItem key={option.value} value={option.value}>
+											{option.label}
+										</MenuItem>
+									))}
+								</Select>
+							</FormControl>
+							{households?.length || recipe?.household ? (
+								<FormControl sx={{ minWidth: 220 }}>
+									<InputLabel id="recipe-household-label">Household</InputLabel>
+									<Select
+										labelId="recipe-household-label"
+										label="Household"
+										value={householdId}
+										onChange={(e) => setHouseholdId(e.target.value)}
+										disabled={!canChangeAccess}
+									>
+										<MenuItem value="">None</MenuItem>
+										{recipe?.household && !households?.some((h) => h.id === recipe.household?.id) ? (
+											<MenuItem value={recipe.household.id}>{recipe.household.name}</MenuItem>
+										) : null}
+										{(households ?? []).map((household) => (
+											<MenuItem key={household.id} value={household.id}>
+												{household.name}
+											</MenuItem>
+										))}
+									</Select>
+								</FormControl>
+							) : null}
+						</Stack>
+						<FormControl fullWidth>
+							<InputLabel id="recipe-slot-tags-label">Suitable for</InputLabel>
+							<Select
+								labelId="recipe-slot-tags-label"
+								label="Suitable for"
+								multiple
+								value={slotTags}
+								onChange={(e) =>
+									setSlotTags(typeof e.target.value === 'string' ? e.target.value.split(',') : e.target.value)
+								}
+								renderValue={(selected) => selected.map(slotLabel).join(', ')}
+							>
+								{slotOptions.map((slot) => (
+									<MenuItem key={slot.key} value={slot.key}>
+										{slot.label}
+									</MenuItem>
+								))}
+							</Select>
+							<FormHelperText>
+								Meal slots the plan generator may use this recipe for. Leave empty for any slot.
+							</FormHelperText>
+						</FormControl>
 						<TextField
-							label="Servings"
-							type="number"
-							value={servings}
-							onChange={(e) => setServings(Number(e.target.value))}
-							inputProps={{ min: 1 }}
-							sx={{ width: 180 }}
-						/>
-						<TextField
-							label="How to make it (optional)"
+							label="Notes (optional)"
 							value={description}
 							onChange={(e) => setDescription(e.target.value)}
 							multiline
@@ -155,35 +544,89 @@ export default function RecipeCreate() {
 						<Typography variant="subtitle1">Add ingredient</Typography>
 
 						<Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} alignItems={{ sm: 'center' }}>
-							<FormControl sx={{ minWidth: 260 }}>
-								<InputLabel id="ingredient-select-label">Ingredient</InputLabel>
-								<Select
-									labelId="ingredient-select-label"
-									label="Ingredient"
-									value={selectedIngredientId}
-									onChange={(e) => setSelectedIngredientId(String(e.target.value))}
-								>
-									{(ingredients ?? []).map((i) => (
-										<MenuItem key={i.id} value={i.id}>
-											{i.name}
-										</MenuItem>
-									))}
-								</Select>
-							</FormControl>
+							<Autocomplete
+								sx={{ minWidth: 260 }}
+								options={searchResults?.items ?? []}
+								value={selectedIngredient}
+								onChange={(_, value) => selectIngredient(value)}
+								inputValue={searchText}
+								onInputChange={(_, value) => setSearchText(value)}
+								getOptionLabel={(option) => option.name}
+								isOptionEqualToValue={(option, value) => option.id === value.id}
+								// Options are already filtered by the server
+								filterOptions={(options) => options}
+								loading={searching}
+								noOptionsText={search ? 'No matching ingredients' : 'Type to search'}
+								renderOption={(props, option) => (
+									<li {...props} key={option.id}>
+										<Box>
+											<Typography variant="body2">
+												{option.name}
+												{option.ownerId ? (
+													<Typography component="span" variant="caption" color="text.secondary">
+														{' '}
+														(private)
+													</Typography>
+												) : null}
+											</Typography>
+											<Typography variant="caption" color="text.secondary">
+												{Math.round(option.kcalPer100g)} kcal - P {option.proteinPer100g} - C{' '}
+												{option.carbsPer100g} - F {option.fatPer100g} per 100 g
+											</Typography>
+										</Box>
+									</li>
+								)}
+								renderInput={(params) => (
+									<TextField
+										{...params}
+										label="Ingredient"
+										placeholder="Search ingredients"
+										slotProps={{
+											input: {
+												...params.InputProps,
+												endAdornment: (
+													<>
+														{searching ? <CircularProgress color="inherit" size={18} /> : null}
+														{params.InputProps.endAdornment}
+													</>
+												),
+											},
+										}}
+									/>
+								)}
+							/>
 
 							<TextField
-								label="Quantity (g)"
+								label="Quantity"
 								type="number"
-								value={quantityG}
-								onChange={(e) => setQuantityG(Number(e.target.value))}
-								inputProps={{ min: 1 }}
-								sx={{ width: 180 }}
+								value={quantity}
+								onChange={(e) => setQuantity(Number(e.target.value))}
+								inputProps={{ min: 0, step: 'any' }}
+								sx={{ width: 140 }}
 							/>
 
+							<FormControl sx={{ minWidth: 160 }} disabled={!selectedIngredient}>
+								<InputLabel id="unit-select-label">Unit</InputLabel>
+								<Select
+									labelId="unit-select-label"
+									label="Unit"
+									value={unit}
+									onChange={(e) => selectUnit(String(e.target.value))}
+								>
+									{(selectedUnits.length > 0 ? selectedUnits : [{ unit: 'g', label: 'g', grams: 1 }]).map(
+										(u) => (
+											<MenuItem key={u.unit} value={u.unit}>
+												{u.grams === 1 ? u.label : `${u.label} (${Math.round(u.grams * 10) / 10} g)`}
+											</MenuItem>
+										)
+									)}
+								</Select>
+							</FormControl>
+
 							<Button
 								variant="contained"
 								onClick={addItem}
-								disabled={!selectedIngredientId || quantityG <= 0}
+								disabled={!selectedIngredient || quantity <= 0}
 							>
 								Add
 							</Button>
@@ -195,10 +638,10 @@ export default function RecipeCreate() {
 							<Stack spacing={1}>
 								<Typography variant="subtitle2">Items</Typography>
 								{items.map((it) => {
-									const ing = ingredientById.get(it.ingredientId);
+									const grams = unitGrams(it);
 									return (
 										<Box
-											key={it.ingredientId}
+											key={`${it.ingredientId}:${it.unit}`}
 											sx={{
 												display: 'flex',
 												alignItems: 'center',
@@ -211,13 +654,14 @@ export default function RecipeCreate() {
 											}}
 										>
 											<Box>
-												<Typography variant="body1">{ing?.name ?? it.ingredientId}</Typography>
+												<Typography variant="body1">{it.name}</Typography>
 												<Typography variant="body2" color="text.secondary">
-													{it.quantityG} g
+													{it.quantity} {it.unit}
+													{it.unit !== 'g' && grams !== null ? ` (${grams} g)` : ''}
 												</Typography>
 											</Box>
 
-											<Button color="error" onClick={() => removeItem(it.ingredientId)}>
+											<Button color="error" onClick={() => removeItem(it)}>
 												Remove
 											</Button>
 										</Box>
@@ -228,7 +672,125 @@ export default function RecipeCreate() {
 
 						<Divider />
 
+						<Typography variant="subtitle1">Steps</Typography>
+
+						{!canEditSteps ? (
+							<Alert severity="info">
+								This recipe's steps were saved by a newer version of the app and are kept as they are.
+							</Alert>
+						) : (
+							<Stack spacing={2}>
+								{steps.length === 0 ? (
+									<Typography variant="body2" color="text.secondary">
+										No steps yet. Steps are shown one at a time in cook mode, with a timer when they have a duration.
+									</Typography>
+								) : null}
+								{steps.map((step, index) => (
+									<Stack
+										key={index}
+										direction={{ xs: 'column', md: 'row' }}
+										spacing={1}
+										alignItems={{ md: 'flex-start' }}
+									>
+										<Typography variant="subtitle2" sx={{ pt: { md: 2 }, minWidth: 24 }}>
+											{index + 1}.
+										</Typography>
+										<TextField
+											label="Instruction"
+											value={step.text}
+											onChange={(e) => updateStep(index, { text: e.target.value })}
+											multiline
+											minRows={2}
+											fullWidth
+										/>
+										<TextField
+											label="Timer (min)"
+											type="number"
+											value={step.minutes}
+											onChange={(e) => updateStep(index, { minutes: e.target.value })}
+											inputProps={{ min: 0, step: 'any' }}
+											sx={{ width: { md: 130 }, flexShrink: 0 }}
+										/>
+										<FormControl sx={{ width: { md: 220 }, flexShrink: 0 }}>
+											<InputLabel id={`recipe-step-${index}-ingredients-label`}>Uses</InputLabel>
+											<Select
+												labelId={`recipe-step-${index}-ingredients-label`}
+												label="Uses"
+												multiple
+												value={step.ingredientIds.filter((ingredientId) =>
+													stepIngredients.some((it) => it.ingredientId === ingredientId)
+												)}
+												onChange={(e) =>
+													updateStep(index, {
+														ingredientIds:
+															typeof e.target.value === 'string' ? e.target.value.split(',') : e.target.value,
+													})
+												}
+												renderValue={(selected) =>
+													selected
+														.map((ingredientId) => stepIngredients.find((it) => it.ingredientId === ingredientId)?.name)
+														.join(', ')
+												}
+											>
+												{stepIngredients.map((it) => (
+													<MenuItem key={it.ingredientId} value={it.ingredientId}>
+														{it.name}
+													</MenuItem>
+												))}
+											</Select>
+										</FormControl>
+										<Box sx={{ display: 'flex', flexShrink: 0 }}>
+											<IconButton
+												aria-label={`Move step ${index + 1} up`}
+												onClick={() => moveStep(index, -1)}
+												disabled={index === 0}
+											>
+												<ArrowUpwardIcon />
+											</IconButton>
+											<IconButton
+												aria-label={`Move step ${index + 1} down`}
+												onClick={() => moveStep(index, 1)}
+												disabled={index === steps.length - 1}
+											>
+												<ArrowDownwardIcon />
+											</IconButton>
+											<IconButton
+												aria-label={`Remove step ${index + 1}`}
+												color="error"
+												onClick={() => setSteps((prev) => prev.filter((_, i) => i !== index))}
+											>
+												<DeleteOutlineIcon />
+											</IconButton>
+										</Box>
+									</Stack>
+								))}
+								<Box>
+									<Button
+										variant="outlined"
+										onClick={() => setSteps((prev) => [...prev, { text: '', minutes: '', ingredientIds: [] }])}
+										disabled={steps.length >= 100}
+									>
+										Add step
+									</Button>
+								</Box>
+							</Stack>
+						)}
+
+						<Divider />
+
 						{mutation.isError && <Alert severity="error">{String(mutation.error)}</Alert>}
+						{dietWarnings.length > 0 ? (
+							<Alert
+								severity="warning"
+								action={
+									<Button color="inherit" size="small" onClick={() => nav('/recipes')}>
+										Back to recipes
+									</Button>
+								}
+							>
+								Recipe saved, but it conflicts with your dietary restrictions: {dietWarnings.join('; ')}
+							</Alert>
+						) : null}
 
 						<Stack direction="row" spacing={2} justifyContent="flex-end">
 							<Button variant="outlined" onClick={() => nav('/recipes')}>
@@ -237,9 +799,16 @@ export default function RecipeCreate() {
 							<Button
 								variant="contained"
 								onClick={submit}
-								disabled={mutation.isPending || !name.trim() || servings < 1 || items.length === 0}
+								disabled={
+									mutation.isPending ||
+									dietWarnings.length > 0 ||
+									!name.trim() ||
+									servings < 1 ||
+									items.length === 0 ||
+									invalidTimes
+								}
 							>
-								{mutation.isPending ? 'Creating...' : 'Create recipe'}
+								{submitLabel}
 							</Button>
 						</Stack>
 					</Stack>
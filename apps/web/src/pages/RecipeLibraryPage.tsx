@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+	Alert,
+	Box,
+	Button,
+	Card,
+	CardActions,
+	CardContent,
+	CircularProgress,
+	Stack,
+	TextField,
+	Typography,
+} from '@mui/material';
+import { useNavigate } from 'react-router-dom';
+
+import { apiFetch } from '../lib/api';
+import { RecipeSummary, type RecipeListItem } from './RecipesList';
+
+type LibraryPage = {
+	items: RecipeListItem[];
+	nextCursor: string | null;
+};
+
+async function fetchLibrary(q: string, cursor: string | null): Promise<LibraryPage> {
+	const params = new URLSearchParams();
+	if (q) params.set('q', q);
+	if (cursor) params.set('cursor', cursor);
+	return apiFetch<LibraryPage>(`/recipes/library?${params.toString()}`);
+}
+
+async function forkRecipe(id: string): Promise<RecipeListItem> {
+	return apiFetch<RecipeListItem>(`/recipes/${id}/fork`, {
+		method: 'POST',
+		body: JSON.stringify({}),
+	});
+}
+
+export default function RecipeLibraryPage() {
+	const qc = useQueryClient();
+	const nav = useNavigate();
+	const [searchText, setSearchText] = useState('');
+	const [search, setSearch] = useState('');
+
+	const libraryQuery = useInfiniteQuery({
+		queryKey: ['recipes', 'library', search],
+		queryFn: ({ pageParam }) => fetchLibrary(search, pageParam),
+		initialPageParam: null as string | null,
+		getNextPageParam: (page) => page.nextCursor,
+	});
+
+	const forkMutation = useMutation({
+		mutationFn: forkRecipe,
+		onSuccess: async (fork) => {
+			await qc.invalidateQueries({ queryKey: ['recipes'] });
+			nav(`/recipes/${fork.id}/edit`);
+		},
+	});
+
+	const recipes = libraryQuery.data?.pages.flatMap((page) => page.items) ?? [];
+
+	return (
+		<Stack spacing={2}>
+			<Typography variant="h5">Recipe Library</Typography>
+			<Typography variant="body2" color="text.secondary">
+				Public recipes from all users. Fork one to get your own editable copy.
+			</Typography>
+
+			<Stack
+				component="form"
+				direction="row"
+				spacing={2}
+				onSubmit={(e: React.FormEvent<HTMLFormElement>) => {
+					e.preventDefault();
+					setSearch(searchText.trim());
+				}}
+			>
+				<TextField
+					label="Search recipes"
+					value={searchText}
+					onChange={(e) => setSearchText(e.target.value)}
+					size="small"
+					fullWidth
+				/>
+				<Button type="submit" variant="outlined">
+					Search
+				</Button>
+			</Stack>
+
+			{forkMutation.isError ? <Alert severity="error">{String(forkMutation.error)}</Alert> : null}
+
+			{libraryQuery.isLoading ? (
+				<Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+					<CircularProgress />
+				</Box>
+			) : libraryQuery.error ? (
+				<Alert severity="error">{String(libraryQuery.error)}</Alert>
+			) : recipes.length === 0 ? (
+				<Alert severity="info">{search ? 'No public recipes match your search.' : 'No public recipes yet.'}</Alert>
+			) : (
+				recipes.map((r) => (
+					<Card key={r.id} variant="outlined">
+						<CardContent>
+							<RecipeSummary recipe={r} />
+						</CardContent>
+						<CardActions sx={{ justifyContent: 'flex-end' }}>
+							{r.isOwner ? (
+								<Typography variant="caption" color="text.secondary" sx={{ px: 1 }}>
+									Your recipe
+								</Typography>
+							) : (
+								<Button
+									size="small"
+									onClick={() => forkMutation.mutate(r.id)}
+									disabled={forkMutation.isPending}
+								>
+									Fork to my recipes
+								</Button>
+							)}
+						</CardActions>
+					</Card>
+				))
+			)}
+
+			{libraryQuery.hasNextPage ? (
+				<Box sx={{ display: 'flex', justifyContent: 'center' }}>
+					<Button onClick={() => void libraryQuery.fetchNextPage()} disabled={libraryQuery.isFetchingNextPage}>
+						{libraryQuery.isFetchingNextPage ? 'Loading...' : 'Load more'}
+					</Button>
+				</Box>
+			) : null}
+		</Stack>
+	);
+}
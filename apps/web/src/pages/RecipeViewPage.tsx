@@ -0,0 +1,210 @@
+import { useQuery } from '@tanstack/react-query';
+import {
+	Alert,
+	Box,
+	Button,
+	Card,
+	CircularProgress,
+	Stack,
+	Table,
+	TableBody,
+	TableCell,
+	TableContainer,
+	TableHead,
+	TableRow,
+	TextField,
+	Typography,
+} from '@mui/material';
+import { Link as RouterLink, useParams, useSearchParams } from 'react-router-dom';
+
+import { apiFetch } from '../lib/api';
+import {
+	formatMinutes,
+	formatStepItem,
+	formatTimer,
+	readableSteps,
+	type RecipeInstructions,
+} from '../lib/recipeInstructions';
+
+type Nutrition = { kcal: number; protein: number; carbs: number; fat: number };
+
+type ScaledRecipe = {
+	id: string;
+	name: string;
+	servings: number;
+	scaledServings: number | null;
+	notes: string | null;
+	canEdit: boolean;
+	nutrition: { total: Nutrition; perServing: Nutrition };
+	items: Array<{
+		id: string;
+		ingredientName: string;
+		quantityG: number;
+		quantity: number | null;
+		unit: string | null;
+		nutrition: Nutrition;
+	}>;
+	instructions: RecipeInstructions;
+};
+
+async function fetchScaledRecipe(id: string, servings: number | null): Promise<ScaledRecipe> {
+	const query = servings ? `?servings=${servings}` : '';
+	return apiFetch<ScaledRecipe>(`/recipes/${id}${query}`);
+}
+
+export default function RecipeViewPage() {
+	const { id = '' } = useParams();
+	const [searchParams, setSearchParams] = useSearchParams();
+	const requested = Number(searchParams.get('servings'));
+	const servings = requested > 0 ? requested : null;
+
+	const { data, isLoading, error } = useQuery({
+		queryKey: ['recipe', id, 'scaled', servings],
+		queryFn: () => fetchScaledRecipe(id, servings),
+		placeholderData: (previous) => previous,
+	});
+
+	const setServings = (value: number) => {
+		setSearchParams(value > 0 ? { servings: String(value) } : {}, { replace: true });
+	};
+
+	if (isLoading) {
+		return (
+			<Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+				<CircularProgress />
+			</Box>
+		);
+	}
+
+	if (error || !data) {
+		return <Alert severity="error">{String(error ?? 'Recipe not found')}</Alert>;
+	}
+
+	const cookFor = data.scaledServings ?? data.servings;
+	const steps = readableSteps(data.instructions);
+	const { prepMinutes, cookMinutes } = data.instructions;
+	const times = [
+		prepMinutes !== null ? `Prep ${formatMinutes(prepMinutes)}` : null,
+		cookMinutes !== null ? `Cook ${formatMinutes(cookMinutes)}` : null,
+	].filter(Boolean);
+
+	return (
+		<Stack spacing={3}>
+			<Stack direction="row" justifyContent="space-between" alignItems="center">
+				<Box>
+					<Typography variant="h5">{data.name}</Typography>
+					{times.length > 0 ? (
+						<Typography variant="body2" color="text.secondary">
+							{times.join(' - ')}
+						</Typography>
+					) : null}
+				</Box>
+				<Stack direction="row" spacing={1}>
+					{steps.length > 0 || data.notes ? (
+						<Button
+							variant="contained"
+							component={RouterLink}
+							to={`/recipes/${data.id}/cook${data.scaledServings !== null ? `?servings=${data.scaledServings}` : ''}`}
+						>
+							Cook mode
+						</Button>
+					) : null}
+					{data.canEdit ? (
+						<Button component={RouterLink} to={`/recipes/${data.id}/edit`}>
+							Edit
+						</Button>
+					) : null}
+				</Stack>
+			</Stack>
+
+			<Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} alignItems={{ sm: 'center' }}>
+				<TextField
+					label="Cook for (servings)"
+					type="number"
+					size="small"
+					value={cookFor}
+					onChange={(e) => setServings(Number(e.target.value))}
+					slotProps={{ htmlInput: { min: 0.5, max: 100, step: 0.5 } }}
+					sx={{ width: 180 }}
+				/>
+				<Typography variant="body2" color="text.secondary">
+					The recipe makes {data.servings} {data.servings === 1 ? 'serving' : 'servings'}. Quantities are rounded to
+					what you can measure.
+				</Typography>
+				{data.scaledServings !== null ? <Button onClick={() => setServings(0)}>Reset</Button> : null}
+			</Stack>
+
+			<TableContainer component={Card} variant="outlined">
+				<Table size="small">
+					<TableHead>
+						<TableRow>
+							<TableCell>Ingredient</TableCell>
+							<TableCell>Quantity</TableCell>
+							<TableCell>Grams</TableCell>
+							<TableCell>kcal</TableCell>
+						</TableRow>
+					</TableHead>
+					<TableBody>
+						{data.items.map((item) => (
+							<TableRow key={item.id}>
+								<TableCell>{item.ingredientName}</TableCell>
+								<TableCell>
+									{item.quantity !== null && item.unit ? `${item.quantity} ${item.unit}` : `${item.quantityG} g`}
+								</TableCell>
+								<TableCell>{item.quantityG}</TableCell>
+								<TableCell>{Math.round(item.nutrition.kcal)}</TableCell>
+							</TableRow>
+						))}
+					</TableBody>
+				</Table>
+			</TableContainer>
+
+			<Stack direction={{ xs: 'column', sm: 'row' }} spacing={4}>
+				<Box>
+					<Typography variant="subtitle2">Total for {cookFor} servings</Typography>
+					<Typography variant="body2">{formatNutrition(data.nutrition.total)}</Typography>
+				</Box>
+				<Box>
+					<Typography variant="subtitle2">Per serving</Typography>
+					<Typography variant="body2">{formatNutrition(data.nutrition.perServing)}</Typography>
+				</Box>
+			</Stack>
+
+			{steps.length > 0 ? (
+				<Box>
+					<Typography variant="subtitle2">Steps</Typography>
+					<Box component="ol" sx={{ pl: 3, my: 1 }}>
+						{steps.map((step) => (
+							<Box component="li" key={step.id} sx={{ mb: 1 }}>
+								<Typography variant="body2" sx={{ whiteSpace: 'pre-line' }}>
+									{step.text}
+								</Typography>
+								{step.items.length > 0 || step.durationSeconds !== null ? (
+									<Typography variant="caption" color="text.secondary">
+										{[
+											...step.items.map(formatStepItem),
+											...(step.durationSeconds !== null ? [`Timer ${formatTimer(step.durationSeconds)}`] : []),
+										].join(' - ')}
+									</Typography>
+								) : null}
+							</Box>
+						))}
+					</Box>
+				</Box>
+			) : null}
+
+			{data.notes ? (
+				<Box>
+					<Typography variant="subtitle2">{steps.length > 0 ? 'Notes' : 'How to make it'}</Typography>
+					<Typography variant="body2" sx={{ whiteSpace: 'pre-line' }}>
+						{data.notes}
+					</Typography>
+				</Box>
+			) : null}
+		</Stack>
+	);
+}
+
+function formatNutrition(n: Nutrition): string {
+	return `${Math.round(n.kcal)} kcal - P ${n.protein} - C ${n.carbs} - F ${n.fat}`;
+}
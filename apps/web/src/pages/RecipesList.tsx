@@ -1,32 +1,164 @@
-﻿import { useQuery } from '@tanstack/react-query';
-import { Alert, Box, Card, CardContent, CircularProgress, Stack, Typography } from '@mui/material';
+﻿import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+	Alert,
+	Box,
+	Button,
+	Card,
+	CardActions,
+	CardContent,
+	Chip,
+	CircularProgress,
+	Dialog,
+	DialogActions,
+	DialogContent,
+	DialogTitle,
+	FormControl,
+	InputLabel,
+	ListSubheader,
+	MenuItem,
+	Select,
+	Stack,
+	TextField,
+	Typography,
+} from '@mui/material';
+import { Link as RouterLink, useNavigate } from 'react-router-dom';
 
-import { apiFetch } from '../lib/api';
+import { ApiError, apiFetch } from '../lib/api';
+import { dietaryTagLabel, fetchDietaryTags } from '../lib/dietary';
 
-type Nutrition = { kcal: number; protein: number; carbs: number; fat: number };
+type Nutrition = {
+	kcal: number;
+	protein: number;
+	carbs: number;
+	fat: number;
+	fiber: number;
+	sugars: number;
+	saturatedFat: number;
+	sodium: number;
+};
+
+type RecipeVisibility = 'PRIVATE' | 'SHARED' | 'PUBLIC';
 
-type RecipeListItem = {
+type RecipeUser = { id: string; email: string };
+
+export type RecipeListItem = {
 	id: string;
 	name: string;
 	servings: number;
 	notes?: string | null;
+	visibility: RecipeVisibility;
+	owner: RecipeUser;
+	household: { id: string; name: string } | null;
+	isOwner: boolean;
+	canEdit: boolean;
+	sharedWith: RecipeUser[];
 	createdAt: string;
+	// Derived from the ingredients: allergens any of them contain, diets all of them fit.
+	allergens: string[];
+	dietTags: string[];
 	nutrition: {
 		total: Nutrition;
 		perServing: Nutrition;
 	};
 };
 
-async function fetchRecipes(): Promise<RecipeListItem[]> {
-	return apiFetch<RecipeListItem[]>('/recipes');
+const VISIBILITY_LABELS: Record<RecipeVisibility, string> = {
+	PRIVATE: 'Private',
+	SHARED: 'Shared',
+	PUBLIC: 'Public',
+};
+
+// Filter values are "diet:<key>" (fits the diet) or "free:<key>" (free from the allergen).
+function matchesTagFilter(recipe: RecipeListItem, filter: string[]): boolean {
+	return filter.every((value) => {
+		const [kind, key = ''] = value.split(':');
+		return kind === 'diet' ? recipe.dietTags.includes(key) : !recipe.allergens.includes(key);
+	});
+}
+
+async function fetchRecipes(scope: 'own' | 'household' | 'shared'): Promise<RecipeListItem[]> {
+	return apiFetch<RecipeListItem[]>(`/recipes?scope=${scope}`);
+}
+
+async function forkRecipe(id: string): Promise<RecipeListItem> {
+	return apiFetch<RecipeListItem>(`/recipes/${id}/fork`, {
+		method: 'POST',
+		body: JSON.stringify({}),
+	});
+}
+
+async function saveSharing({
+	recipe,
+	visibility,
+	emails,
+}: {
+	recipe: RecipeListItem;
+	visibility: RecipeVisibility;
+	emails: string[];
+}): Promise<void> {
+	if (visibility !== recipe.visibility) {
+		await apiFetch(`/recipes/${recipe.id}`, {
+			method: 'PATCH',
+			body: JSON.stringify({ visibility }),
+		});
+	}
+	await apiFetch(`/recipes/${recipe.id}/shares`, {
+		method: 'PUT',
+		body: JSON.stringify({ emails }),
+	});
+}
+
+async function deleteRecipe(id: string): Promise<void> {
+	await apiFetch<void>(`/recipes/${id}`, {
+		method: 'DELETE',
+	});
 }
 
 export default function RecipesList() {
+	const qc = useQueryClient();
+	const nav = useNavigate();
+	const [sharing, setSharing] = useState<RecipeListItem | null>(null);
+	const [tagFilter, setTagFilter] = useState<string[]>([]);
 	const { data, isLoading, error } = useQuery({
-		queryKey: ['recipes'],
-		queryFn: fetchRecipes,
+		queryKey: ['recipes', 'own'],
+		queryFn: () => fetchRecipes('own'),
+	});
+	const householdQuery = useQuery({
+		queryKey: ['recipes', 'household'],
+		queryFn: () => fetchRecipes('household'),
+	});
+	const sharedQuery = useQuery({
+		queryKey: ['recipes', 'shared'],
+		queryFn: () => fetchRecipes('shared'),
+	});
+	const tagsQuery = useQuery({
+		queryKey: ['dietary-tags'],
+		queryFn: fetchDietaryTags,
+	});
+
+	const forkMutation = useMutation({
+		mutationFn: forkRecipe,
+		onSuccess: async (fork) => {
+			await qc.invalidateQueries({ queryKey: ['recipes'] });
+			nav(`/recipes/${fork.id}/edit`);
+		},
+	});
+
+	const deleteMutation = useMutation({
+		mutationFn: deleteRecipe,
+		onSuccess: async () => {
+			await qc.invalidateQueries({ queryKey: ['recipes'] });
+		},
 	});
 
+	const onDelete = (recipe: RecipeListItem) => {
+		const confirmDelete = window.confirm(`Delete recipe "${recipe.name}"?`);
+		if (!confirmDelete) return;
+
+		deleteMutation.mutate(recipe.id);
+	};
+
 	if (isLoading) {
 		return (
 			<Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
@@ -39,56 +171,290 @@ export default function RecipesList() {
 		return <Alert severity="error">{String(error)}</Alert>;
 	}
 
-	if (!data?.length) {
-		return <Alert severity="info">No recipes yet. Create one.</Alert>;
-	}
+	const own = (data ?? []).filter((r) => matchesTagFilter(r, tagFilter));
+	const householdRecipes = (householdQuery.data ?? []).filter((r) => matchesTagFilter(r, tagFilter));
+	const shared = (sharedQuery.data ?? []).filter((r) => matchesTagFilter(r, tagFilter));
+	const tagFilterLabel = (value: string) => {
+		const [kind, key = ''] = value.split(':');
+		return kind === 'diet'
+			? dietaryTagLabel(tagsQuery.data?.diets, key)
+			: `${dietaryTagLabel(tagsQuery.data?.allergens, key)}-free`;
+	};
 
 	return (
 		<Stack spacing={2}>
-			<Typography variant="h5">Recipes</Typography>
+			<Stack direction="row" justifyContent="space-between" alignItems="center">
+				<Typography variant="h5">Recipes</Typography>
+				<Button component={RouterLink} to="/recipes/library">
+					Browse public library
+				</Button>
+			</Stack>
+
+			<FormControl size="small" sx={{ maxWidth: 360 }}>
+				<InputLabel id="recipe-tag-filter-label">Filter by tag</InputLabel>
+				<Select
+					multiple
+					labelId="recipe-tag-filter-label"
+					label="Filter by tag"
+					value={tagFilter}
+					onChange={(e) =>
+						setTagFilter(typeof e.target.value === 'string' ? e.target.value.split(',') : e.target.value)
+					}
+					renderValue={(selected) => selected.map(tagFilterLabel).join(', ')}
+				>
+					<ListSubheader>Diets</ListSubheader>
+					{(tagsQuery.data?.diets ?? []).map((tag) => (
+						<MenuItem key={tag.key} value={`diet:${tag.key}`}>
+							{tag.label}
+						</MenuItem>
+					))}
+					<ListSubheader>Free from</ListSubheader>
+					{(tagsQuery.data?.allergens ?? []).map((tag) => (
+						<MenuItem key={tag.key} value={`free:${tag.key}`}>
+							{tag.label}
+						</MenuItem>
+					))}
+				</Select>
+			</FormControl>
+
+			{!data?.length ? <Alert severity="info">No recipes yet. Create one.</Alert> : null}
+			{data?.length && own.length === 0 ? (
+				<Alert severity="info">None of your recipes match the selected tags.</Alert>
+			) : null}
 
-			{data.map((r) => (
+			{deleteMutation.isError ? (
+				<Alert severity="error">
+					{deleteMutation.error instanceof ApiError && deleteMutation.error.status === 409
+						? 'This recipe is used in a meal plan. Remove it from your plans before deleting it.'
+						: String(deleteMutation.error)}
+				</Alert>
+			) : null}
+
+			{own.map((r) => (
 				<Card key={r.id} variant="outlined">
 					<CardContent>
-						<Stack spacing={1}>
-							<Typography variant="h6">{r.name}</Typography>
-							<Typography variant="body2" color="text.secondary">
-								Servings: {r.servings} - Created: {new Date(r.createdAt).toLocaleString()}
-							</Typography>
-							{r.notes ? (
-								<Box>
-									<Typography variant="subtitle2">Description</Typography>
-									<Typography variant="body2" sx={{ whiteSpace: 'pre-line' }}>
-										{r.notes}
-									</Typography>
-								</Box>
-							) : null}
-
-							<Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
-								<Box>
-									<Typography variant="subtitle2">Total</Typography>
-									<Typography variant="body2">
-										{k(r.nutrition.total.kcal)} kcal - P {k(r.nutrition.total.protein)} - C{' '}
-										{k(r.nutrition.total.carbs)} - F {k(r.nutrition.total.fat)}
-									</Typography>
-								</Box>
-
-								<Box>
-									<Typography variant="subtitle2">Per serving</Typography>
-									<Typography variant="body2">
-										{k(r.nutrition.perServing.kcal)} kcal - P {k(r.nutrition.perServing.protein)}
-										- C {k(r.nutrition.perServing.carbs)} - F {k(r.nutrition.perServing.fat)}
-									</Typography>
-								</Box>
-							</Stack>
-						</Stack>
+						<RecipeSummary recipe={r} />
 					</CardContent>
+					<CardActions sx={{ justifyContent: 'flex-end' }}>
+						<Button size="small" component={RouterLink} to={`/recipes/${r.id}`}>
+							View
+						</Button>
+						<Button size="small" onClick={() => setSharing(r)}>
+							Sharing
+						</Button>
+						<Button size="small" component={RouterLink} to={`/recipes/${r.id}/edit`}>
+							Edit
+						</Button>
+						<Button
+							size="small"
+							color="error"
+							onClick={() => onDelete(r)}
+							disabled={deleteMutation.isPending}
+						>
+							Delete
+						</Button>
+					</CardActions>
 				</Card>
 			))}
+
+			{householdRecipes.length > 0 ? (
+				<>
+					<Typography variant="h6">From my households</Typography>
+					{householdRecipes.map((r) => (
+						<Card key={r.id} variant="outlined">
+							<CardContent>
+								<RecipeSummary recipe={r} />
+							</CardContent>
+							<CardActions sx={{ justifyContent: 'flex-end' }}>
+								<Button size="small" component={RouterLink} to={`/recipes/${r.id}`}>
+									View
+								</Button>
+								<Button size="small" component={RouterLink} to={`/recipes/${r.id}/edit`}>
+									Edit
+								</Button>
+							</CardActions>
+						</Card>
+					))}
+				</>
+			) : null}
+
+			{shared.length > 0 ? (
+				<>
+					<Typography variant="h6">Shared with me</Typography>
+					<Typography variant="body2" color="text.secondary">
+						Shared recipes can be planned as they are and follow the owner's edits. Fork one to make your own
+						copy.
+					</Typography>
+					{forkMutation.isError ? <Alert severity="error">{String(forkMutation.error)}</Alert> : null}
+					{shared.map((r) => (
+						<Card key={r.id} variant="outlined">
+							<CardContent>
+								<RecipeSummary recipe={r} />
+							</CardContent>
+							<CardActions sx={{ justifyContent: 'flex-end' }}>
+								<Button size="small" component={RouterLink} to={`/recipes/${r.id}`}>
+									View
+								</Button>
+								<Button
+									size="small"
+									onClick={() => forkMutation.mutate(r.id)}
+									disabled={forkMutation.isPending}
+								>
+									Fork to my recipes
+								</Button>
+							</CardActions>
+						</Card>
+					))}
+				</>
+			) : null}
+
+			{sharing ? (
+				<SharingDialog key={sharing.id} recipe={sharing} onClose={() => setSharing(null)} />
+			) : null}
+		</Stack>
+	);
+}
+
+export function RecipeSummary({ recipe: r }: { recipe: RecipeListItem }) {
+	return (
+		<Stack spacing={1}>
+			<Stack direction="row" spacing={1} alignItems="center">
+				<Typography variant="h6">{r.name}</Typography>
+				<Chip size="small" variant="outlined" label={VISIBILITY_LABELS[r.visibility]} />
+				{r.household ? <Chip size="small" variant="outlined" label={r.household.name} /> : null}
+			</Stack>
+			<DietaryTagChips recipe={r} />
+			<Typography variant="body2" color="text.secondary">
+				Servings: {r.servings} - Created: {new Date(r.createdAt).toLocaleString()}
+				{r.isOwner ? '' : ` - By ${r.owner.email}`}
+				{r.isOwner && r.visibility === 'SHARED'
+					? ` - Shared with ${r.sharedWith.length} ${r.sharedWith.length === 1 ? 'person' : 'people'}`
+					: ''}
+			</Typography>
+			{r.notes ? (
+				<Box>
+					<Typography variant="subtitle2">Description</Typography>
+					<Typography variant="body2" sx={{ whiteSpace: 'pre-line' }}>
+						{r.notes}
+					</Typography>
+				</Box>
+			) : null}
+
+			<Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+				<Box>
+					<Typography variant="subtitle2">Total</Typography>
+					<Typography variant="body2">
+						{k(r.nutrition.total.kcal)} kcal - P {k(r.nutrition.total.protein)} - C{' '}
+						{k(r.nutrition.total.carbs)} - F {k(r.nutrition.total.fat)}
+					</Typography>
+				</Box>
+
+				<Box>
+					<Typography variant="subtitle2">Per serving</Typography>
+					<Typography variant="body2">
+						{k(r.nutrition.perServing.kcal)} kcal - P {k(r.nutrition.perServing.protein)}
+						- C {k(r.nutrition.perServing.carbs)} - F {k(r.nutrition.perServing.fat)}
+					</Typography>
+					<Typography variant="caption" color="text.secondary">
+						Fiber {k(r.nutrition.perServing.fiber)} g - Sugars {k(r.nutrition.perServing.sugars)} g
+						- Sat. fat {k(r.nutrition.perServing.saturatedFat)} g - Sodium{' '}
+						{k(r.nutrition.perServing.sodium)} mg
+					</Typography>
+				</Box>
+			</Stack>
 		</Stack>
 	);
 }
 
+function DietaryTagChips({ recipe }: { recipe: RecipeListItem }) {
+	const { data } = useQuery({
+		queryKey: ['dietary-tags'],
+		queryFn: fetchDietaryTags,
+	});
+
+	if (recipe.dietTags.length === 0 && recipe.allergens.length === 0) {
+		return null;
+	}
+
+	return (
+		<Stack direction="row" spacing={1} useFlexGap flexWrap="wrap">
+			{recipe.dietTags.map((key) => (
+				<Chip key={key} size="small" color="success" variant="outlined" label={dietaryTagLabel(data?.diets, key)} />
+			))}
+			{recipe.allergens.map((key) => (
+				<Chip
+					key={key}
+					size="small"
+					color="warning"
+					variant="outlined"
+					label={`Contains ${dietaryTagLabel(data?.allergens, key).toLowerCase()}`}
+				/>
+			))}
+		</Stack>
+	);
+}
+
+function SharingDialog({ recipe, onClose }: { recipe: RecipeListItem; onClose: () => void }) {
+	const qc = useQueryClient();
+	const [visibility, setVisibility] = useState<RecipeVisibility>(recipe.visibility);
+	const [emails, setEmails] = useState(recipe.sharedWith.map((u) => u.email).join('\n'));
+
+	const mutation = useMutation({
+		mutationFn: saveSharing,
+		onSuccess: async () => {
+			await qc.invalidateQueries({ queryKey: ['recipes'] });
+			onClose();
+		},
+	});
+
+	const save = () => {
+		const list = emails
+			.split(/[\s,;]+/)
+			.map((email) => email.trim())
+			.filter(Boolean);
+		mutation.mutate({ recipe, visibility, emails: list });
+	};
+
+	return (
+		<Dialog open onClose={onClose} fullWidth maxWidth="sm">
+			<DialogTitle>Share "{recipe.name}"</DialogTitle>
+			<DialogContent>
+				<Stack spacing={2} sx={{ pt: 1 }}>
+					{mutation.isError ? <Alert severity="error">{String(mutation.error)}</Alert> : null}
+					<FormControl fullWidth>
+						<InputLabel id="sharing-visibility-label">Visibility</InputLabel>
+						<Select
+							labelId="sharing-visibility-label"
+							label="Visibility"
+							value={visibility}
+							onChange={(e) => setVisibility(e.target.value as RecipeVisibility)}
+						>
+							<MenuItem value="PRIVATE">Private - only me</MenuItem>
+							<MenuItem value="SHARED">Shared - the people below</MenuItem>
+							<MenuItem value="PUBLIC">Public - recipe library</MenuItem>
+						</Select>
+					</FormControl>
+					<TextField
+						label="Share with (emails)"
+						value={emails}
+						onChange={(e) => setEmails(e.target.value)}
+						helperText="One email per line. Only used while visibility is Shared."
+						multiline
+						minRows={3}
+						fullWidth
+					/>
+				</Stack>
+			</DialogContent>
+			<DialogActions>
+				<Button onClick={onClose}>Cancel</Button>
+				<Button variant="contained" onClick={save} disabled={mutation.isPending}>
+					Save
+				</Button>
+			</DialogActions>
+		</Dialog>
+	);
+}
+
 function k(n: number) {
 	return Math.round(n * 10) / 10;
 }
@@ -0,0 +1,230 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+	Alert,
+	Box,
+	Button,
+	Card,
+	CardContent,
+	Checkbox,
+	CircularProgress,
+	FormControlLabel,
+	Link,
+	Stack,
+	TextField,
+	Typography,
+} from '@mui/material';
+import { Link as RouterLink, useSearchParams } from 'react-router-dom';
+
+import PlanScopeSelect from '../components/PlanScopeSelect';
+import { apiFetch, apiFetchText } from '../lib/api';
+import { buildWeekDates, currentWeekStart, formatDisplayDate, weekStartOf } from '../lib/dates';
+
+type ShoppingListItem = {
+	ingredientId: string;
+	name: string;
+	quantityG: number;
+	inPantryG: number;
+	toBuyG: number;
+	checked: boolean;
+};
+
+type ShoppingListResponse = {
+	planId: string | null;
+	weekStart: string;
+	groups: Array<{ category: string; items: ShoppingListItem[] }>;
+};
+
+type ExportFormat = 'csv' | 'text';
+
+// householdId '' means the personal plan.
+function shoppingListPath(weekStart: string, householdId: string, format?: ExportFormat) {
+	const params = new URLSearchParams({ weekStart });
+	if (householdId) params.set('householdId', householdId);
+	if (format) params.set('format', format);
+	return `/meal-plans/shopping-list?${params.toString()}`;
+}
+
+async function fetchShoppingList(weekStart: string, householdId: string): Promise<ShoppingListResponse> {
+	return apiFetch<ShoppingListResponse>(shoppingListPath(weekStart, householdId));
+}
+
+async function setItemChecked({
+	weekStart,
+	householdId,
+	ingredientId,
+	checked,
+}: {
+	weekStart: string;
+	householdId: string;
+	ingredientId: string;
+	checked: boolean;
+}) {
+	return apiFetch<{ ingredientId: string; checked: boolean }>(
+		`/meal-plans/shopping-list/items/${ingredientId}`,
+		{
+			method: 'PUT',
+			body: JSON.stringify({ weekStart, checked, householdId: householdId || undefined }),
+		}
+	);
+}
+
+async function downloadShoppingList(weekStart: string, householdId: string, format: ExportFormat): Promise<void> {
+	const content = await apiFetchText(shoppingListPath(weekStart, householdId, format));
+	const type = format === 'csv' ? 'text/csv' : 'text/plain';
+	const url = URL.createObjectURL(new Blob([content], { type }));
+	const link = document.createElement('a');
+	link.href = url;
+	link.download = `shopping-list-${weekStart}.${format === 'csv' ? 'csv' : 'txt'}`;
+	link.click();
+	URL.revokeObjectURL(url);
+}
+
+export default function ShoppingListPage() {
+	const qc = useQueryClient();
+	const [searchParams, setSearchParams] = useSearchParams();
+	const weekStart = weekStartOf(searchParams.get('weekStart') ?? currentWeekStart());
+	const householdId = searchParams.get('householdId') ?? '';
+	const weekDates = buildWeekDates(weekStart);
+
+	const listQuery = useQuery({
+		queryKey: ['shopping-list', weekStart, householdId],
+		queryFn: () => fetchShoppingList(weekStart, householdId),
+	});
+
+	const checkMutation = useMutation({
+		mutationFn: setItemChecked,
+		onSuccess: (result) => {
+			qc.setQueryData<ShoppingListResponse>(['shopping-list', weekStart, householdId], (prev) =>
+				prev
+					? {
+							...prev,
+							groups: prev.groups.map((group) => ({
+								...group,
+								items: group.items.map((item) =>
+									item.ingredientId === result.ingredientId ? { ...item, checked: result.checked } : item
+								),
+							})),
+						}
+					: prev
+			);
+		},
+	});
+
+	const exportMutation = useMutation({
+		mutationFn: (format: ExportFormat) => downloadShoppingList(weekStart, householdId, format),
+	});
+
+	const updateParams = (next: { weekStart: string; householdId: string }) => {
+		setSearchParams(next.householdId ? next : { weekStart: next.weekStart });
+	};
+
+	const onAnyDayChange = (value: string) => {
+		if (!value) return;
+		updateParams({ weekStart: weekStartOf(value), householdId });
+	};
+
+	const groups = listQuery.data?.groups ?? [];
+
+	return (
+		<Stack spacing={2}>
+			<Typography variant="h5">Shopping List</Typography>
+			<Typography variant="body2" color="text.secondary">
+				Ingredient totals for every meal planned this week that is not cooked yet, minus what is in your{' '}
+				<Link component={RouterLink} to="/pantry">
+					pantry
+				</Link>
+				. Tick items off as you shop.
+			</Typography>
+
+			<Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} alignItems={{ sm: 'center' }}>
+				<TextField
+					label="Any date in week"
+					type="date"
+					value={weekStart}
+					onChange={(e) => onAnyDayChange(e.target.value)}
+					slotProps={{ inputLabel: { shrink: true } }}
+					sx={{ width: 220 }}
+				/>
+				<PlanScopeSelect value={householdId} onChange={(id) => updateParams({ weekStart, householdId: id })} />
+
+				<Typography variant="body2" color="text.secondary" sx={{ flexGrow: 1 }}>
+					Week: {formatDisplayDate(weekDates[0])} - {formatDisplayDate(weekDates[6])}
+				</Typography>
+
+				<Button
+					variant="outlined"
+					onClick={() => exportMutation.mutate('csv')}
+					disabled={exportMutation.isPending || groups.length === 0}
+				>
+					Export CSV
+				</Button>
+				<Button
+					variant="outlined"
+					onClick={() => exportMutation.mutate('text')}
+					disabled={exportMutation.isPending || groups.length === 0}
+				>
+					Export text
+				</Button>
+			</Stack>
+
+			{exportMutation.isError && <Alert severity="error">{String(exportMutation.error)}</Alert>}
+			{checkMutation.isError && <Alert severity="error">{String(checkMutation.error)}</Alert>}
+
+			{listQuery.isLoading ? (
+				<Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+					<CircularProgress />
+				</Box>
+			) : listQuery.error ? (
+				<Alert severity="error">{String(listQuery.error)}</Alert>
+			) : groups.length === 0 ? (
+				<Alert severity="info">No meals planned for this week yet.</Alert>
+			) : (
+				groups.map((group) => (
+					<Card key={group.category} variant="outlined">
+						<CardContent>
+							<Stack spacing={0.5}>
+								<Typography variant="subtitle1">{group.category}</Typography>
+								{group.items.map((item) => (
+									<FormControlLabel
+										key={item.ingredientId}
+										control={
+											<Checkbox
+												checked={item.checked}
+												disabled={checkMutation.isPending}
+												onChange={(e) =>
+													checkMutation.mutate({
+														weekStart,
+														householdId,
+														ingredientId: item.ingredientId,
+														checked: e.target.checked,
+													})
+												}
+											/>
+										}
+										label={
+											<Typography
+												variant="body2"
+												sx={{
+													textDecoration: item.checked ? 'line-through' : 'none',
+													color: item.checked ? 'text.secondary' : 'text.primary',
+												}}
+											>
+												{item.name} - {item.toBuyG} g
+												{item.inPantryG > 0 ? (
+													<Typography component="span" variant="caption" color="text.secondary">
+														{' '}
+														({item.inPantryG} of {item.quantityG} g in pantry)
+													</Typography>
+												) : null}
+											</Typography>
+										}
+									/>
+								))}
+							</Stack>
+						</CardContent>
+					</Card>
+				))
+			)}
+		</Stack>
+	);
+}
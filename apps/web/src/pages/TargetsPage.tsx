@@ -0,0 +1,301 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+	Alert,
+	Box,
+	Button,
+	Card,
+	CardContent,
+	CircularProgress,
+	FormControlLabel,
+	Stack,
+	Switch,
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableRow,
+	TextField,
+	Typography,
+} from '@mui/material';
+
+import DietaryTagSelect from '../components/DietaryTagSelect';
+import { apiFetch } from '../lib/api';
+import type { DietaryRestrictions } from '../lib/dietary';
+
+const nutrientKeys = ['kcal', 'protein', 'carbs', 'fat'] as const;
+const nutrientLabels: Record<NutrientKey, string> = {
+	kcal: 'kcal',
+	protein: 'Protein (g)',
+	carbs: 'Carbs (g)',
+	fat: 'Fat (g)',
+};
+const weekdayLabels = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+type NutrientKey = (typeof nutrientKeys)[number];
+type TargetValues = Record<NutrientKey, number | null>;
+type TargetInputs = Record<NutrientKey, string>;
+
+type TargetsResponse = {
+	tolerancePct: number;
+	daily: TargetValues;
+	weekdays: Array<TargetValues & { weekday: number }>;
+};
+
+async function fetchTargets(): Promise<TargetsResponse> {
+	return apiFetch<TargetsResponse>('/me/targets');
+}
+
+async function saveTargets(payload: TargetsResponse): Promise<TargetsResponse> {
+	return apiFetch<TargetsResponse>('/me/targets', {
+		method: 'PUT',
+		body: JSON.stringify(payload),
+	});
+}
+
+async function fetchRestrictions(): Promise<DietaryRestrictions> {
+	return apiFetch<DietaryRestrictions>('/me/dietary-restrictions');
+}
+
+async function saveRestrictions(payload: DietaryRestrictions): Promise<DietaryRestrictions> {
+	return apiFetch<DietaryRestrictions>('/me/dietary-restrictions', {
+		method: 'PUT',
+		body: JSON.stringify(payload),
+	});
+}
+
+function toInputs(values: TargetValues | undefined): TargetInputs {
+	return {
+		kcal: values?.kcal?.toString() ?? '',
+		protein: values?.protein?.toString() ?? '',
+		carbs: values?.carbs?.toString() ?? '',
+		fat: values?.fat?.toString() ?? '',
+	};
+}
+
+function toValues(inputs: TargetInputs): TargetValues {
+	const parse = (value: string) => (value.trim() === '' ? null : Number(value));
+	return {
+		kcal: parse(inputs.kcal),
+		protein: parse(inputs.protein),
+		carbs: parse(inputs.carbs),
+		fat: parse(inputs.fat),
+	};
+}
+
+export default function TargetsPage() {
+	const { data, isLoading, error } = useQuery({
+		queryKey: ['targets'],
+		queryFn: fetchTargets,
+	});
+
+	if (isLoading) {
+		return (
+			<Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+				<CircularProgress />
+			</Box>
+		);
+	}
+
+	if (error) {
+		return <Alert severity="error">{String(error)}</Alert>;
+	}
+
+	if (!data) {
+		return null;
+	}
+
+	return (
+		<Stack spacing={3}>
+			<TargetsForm targets={data} />
+			<DietaryRestrictionsCard />
+		</Stack>
+	);
+}
+
+function TargetsForm({ targets }: { targets: TargetsResponse }) {
+	const qc = useQueryClient();
+	const [tolerancePct, setTolerancePct] = useState(String(targets.tolerancePct));
+	const [daily, setDaily] = useState<TargetInputs>(() => toInputs(targets.daily));
+	const [weekdays, setWeekdays] = useState<TargetInputs[]>(() =>
+		weekdayLabels.map((_, idx) => toInputs(targets.weekdays.find((w) => w.weekday === idx + 1)))
+	);
+
+	const mutation = useMutation({
+		mutationFn: saveTargets,
+		onSuccess: async (data) => {
+			qc.setQueryData(['targets'], data);
+			await qc.invalidateQueries({ queryKey: ['meal-plan'] });
+		},
+	});
+
+	const setWeekdayValue = (idx: number, key: NutrientKey, value: string) => {
+		setWeekdays((prev) => prev.map((row, i) => (i === idx ? { ...row, [key]: value } : row)));
+	};
+
+	const submit = () => {
+		mutation.mutate({
+			tolerancePct: Number(tolerancePct),
+			daily: toValues(daily),
+			weekdays: weekdays
+				.map((row, idx) => ({ weekday: idx + 1, ...toValues(row) }))
+				.filter((row) => nutrientKeys.some((key) => row[key] !== null)),
+		});
+	};
+
+	const hasInvalidValue = [daily, ...weekdays].some((row) =>
+		nutrientKeys.some((key) => row[key].trim() !== '' && !(Number(row[key]) >= 0))
+	);
+	const toleranceValue = Number(tolerancePct);
+	const invalidTolerance = tolerancePct.trim() === '' || !(toleranceValue >= 0 && toleranceValue <= 100);
+
+	return (
+		<Stack spacing={2}>
+			<Typography variant="h5">Nutrition Targets</Typography>
+			<Typography variant="body2" color="text.secondary">
+				Set daily targets. Weekday values override the everyday target; leave a field empty to fall back.
+			</Typography>
+
+			<Card variant="outlined">
+				<CardContent>
+					<Stack spacing={2}>
+						<TextField
+							label="Tolerance (%)"
+							type="number"
+							value={tolerancePct}
+							onChange={(e) => setTolerancePct(e.target.value)}
+							inputProps={{ min: 0, max: 100 }}
+							helperText="Days further than this from a target are flagged in the planner."
+							sx={{ width: 260 }}
+						/>
+
+						<Table size="small">
+							<TableHead>
+								<TableRow>
+									<TableCell>Day</TableCell>
+									{nutrientKeys.map((key) => (
+										<TableCell key={key}>{nutrientLabels[key]}</TableCell>
+									))}
+								</TableRow>
+							</TableHead>
+							<TableBody>
+								<TableRow>
+									<TableCell>
+										<strong>Every day</strong>
+									</TableCell>
+									{nutrientKeys.map((key) => (
+										<TableCell key={key}>
+											<TextField
+												size="small"
+												type="number"
+												value={daily[key]}
+												onChange={(e) => setDaily((prev) => ({ ...prev, [key]: e.target.value }))}
+												inputProps={{ min: 0, 'aria-label': `Every day ${nutrientLabels[key]}` }}
+											/>
+										</TableCell>
+									))}
+								</TableRow>
+								{weekdayLabels.map((label, idx) => (
+									<TableRow key={label}>
+										<TableCell>{label}</TableCell>
+										{nutrientKeys.map((key) => (
+											<TableCell key={key}>
+												<TextField
+													size="small"
+													type="number"
+													value={weekdays[idx][key]}
+													placeholder={daily[key]}
+													onChange={(e) => setWeekdayValue(idx, key, e.target.value)}
+													inputProps={{ min: 0, 'aria-label': `${label} ${nutrientLabels[key]}` }}
+												/>
+											</TableCell>
+										))}
+									</TableRow>
+								))}
+							</TableBody>
+						</Table>
+
+						{mutation.isError && <Alert severity="error">{String(mutation.error)}</Alert>}
+						{mutation.isSuccess && <Alert severity="success">Targets saved.</Alert>}
+
+						<Stack direction="row" justifyContent="flex-end">
+							<Button
+								variant="contained"
+								onClick={submit}
+								disabled={mutation.isPending || hasInvalidValue || invalidTolerance}
+							>
+								{mutation.isPending ? 'Saving...' : 'Save targets'}
+							</Button>
+						</Stack>
+					</Stack>
+				</CardContent>
+			</Card>
+		</Stack>
+	);
+}
+
+function DietaryRestrictionsCard() {
+	const { data } = useQuery({
+		queryKey: ['dietary-restrictions'],
+		queryFn: fetchRestrictions,
+	});
+
+	return data ? <DietaryRestrictionsForm restrictions={data} /> : null;
+}
+
+function DietaryRestrictionsForm({ restrictions }: { restrictions: DietaryRestrictions }) {
+	const qc = useQueryClient();
+	const [avoidAllergens, setAvoidAllergens] = useState(restrictions.avoidAllergens);
+	const [requiredDiets, setRequiredDiets] = useState(restrictions.requiredDiets);
+	const [strict, setStrict] = useState(restrictions.strict);
+
+	const mutation = useMutation({
+		mutationFn: saveRestrictions,
+		onSuccess: (data) => {
+			qc.setQueryData(['dietary-restrictions'], data);
+		},
+	});
+
+	return (
+		<Stack spacing={2}>
+			<Typography variant="h5">Dietary Restrictions</Typography>
+			<Typography variant="body2" color="text.secondary">
+				Recipes and meal plans that contain an allergen you avoid, or do not fit a diet you follow, are flagged when you
+				save them.
+			</Typography>
+
+			<Card variant="outlined">
+				<CardContent>
+					<Stack spacing={2}>
+						<Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+							<DietaryTagSelect
+								kind="allergens"
+								label="Allergens I avoid"
+								value={avoidAllergens}
+								onChange={setAvoidAllergens}
+							/>
+							<DietaryTagSelect kind="diets" label="Diets I follow" value={requiredDiets} onChange={setRequiredDiets} />
+						</Stack>
+						<FormControlLabel
+							control={<Switch checked={strict} onChange={(e) => setStrict(e.target.checked)} />}
+							label="Strict: refuse to save conflicting recipes and meal plans instead of warning"
+						/>
+
+						{mutation.isError && <Alert severity="error">{String(mutation.error)}</Alert>}
+						{mutation.isSuccess && <Alert severity="success">Restrictions saved.</Alert>}
+
+						<Stack direction="row" justifyContent="flex-end">
+							<Button
+								variant="contained"
+								onClick={() => mutation.mutate({ avoidAllergens, requiredDiets, strict })}
+								disabled={mutation.isPending}
+							>
+								{mutation.isPending ? 'Saving...' : 'Save restrictions'}
+							</Button>
+						</Stack>
+					</Stack>
+				</CardContent>
+			</Card>
+		</Stack>
+	);
+}
@@ -1,67 +1,225 @@
 import { useEffect, useMemo, useState } from 'react';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import AddIcon from '@mui/icons-material/Add';
+import CheckCircleIcon from '@mui/icons-material/CheckCircle';
+import EventRepeatIcon from '@mui/icons-material/EventRepeat';
+import PlaylistAddCheckIcon from '@mui/icons-material/PlaylistAddCheck';
+import RestaurantMenuIcon from '@mui/icons-material/RestaurantMenu';
+import RemoveIcon from '@mui/icons-material/Remove';
 import {
 	Alert,
 	Box,
 	Button,
 	Card,
 	CardContent,
+	Chip,
 	CircularProgress,
+	Dialog,
+	DialogActions,
+	DialogContent,
+	DialogTitle,
 	FormControl,
 	Grid,
+	IconButton,
 	InputLabel,
+	Link,
+	ListSubheader,
+	Menu,
 	MenuItem,
 	Select,
 	Stack,
 	TextField,
 	Typography,
 } from '@mui/material';
+import { Link as RouterLink } from 'react-router-dom';
 
-import { apiFetch } from '../lib/api';
+import PlanScopeSelect from '../components/PlanScopeSelect';
+import { ApiError, apiFetch } from '../lib/api';
+import {
+	addDaysUtc,
+	buildWeekDates,
+	currentWeekStart,
+	formatDateOnly,
+	formatDisplayDate,
+	parseDateOnly,
+	weekStartOf,
+} from '../lib/dates';
+
+type MealSlot = string;
+type MealSlotConfig = { key: MealSlot; label: string; sortOrder: number; active: boolean };
+type Attendee = { userId: string; servings: number };
+// mealId is set for entries loaded from the saved plan; only those can be marked as cooked.
+type SavedMeal = { mealId?: string; cooked?: boolean };
+type PlanItem = SavedMeal &
+	(
+		| {
+				type: 'recipe';
+				recipeId: string;
+				name: string;
+				servings: number;
+				attendees: Attendee[];
+				// Recipe entries sharing a cook group are cooked once by the earliest of them.
+				cookGroup?: string;
+				// Portions served from a cooking batch, which is cooked and bought for on its own.
+				batchId?: string;
+				batchCookOn?: string;
+		  }
+		| { type: 'ingredient'; ingredientId: string; name: string; quantityG: number }
+	);
+type SelectionState = Record<string, Record<MealSlot, PlanItem[]>>;
+type CellRef = { date: string; slot: MealSlot };
+type CookRole = { leftover: boolean; cookServings: number };
 
-const mealSlots = [
-	{ key: 'breakfast', label: 'Breakfast' },
-	{ key: 'lunch', label: 'Lunch' },
-	{ key: 'afternoon_snack', label: 'Afternoon snack' },
-	{ key: 'dinner', label: 'Dinner' },
-] as const;
+const SERVING_STEP = 0.5;
+const MAX_ENTRIES_PER_SLOT = 10;
 
-type MealSlot = (typeof mealSlots)[number]['key'];
-type SelectionState = Record<string, Partial<Record<MealSlot, string>>>;
+type Nutrition = { kcal: number; protein: number; carbs: number; fat: number };
+type NutrientKey = keyof Nutrition;
+type TargetStatus = 'under' | 'ok' | 'over';
+
+type DayNutrition = {
+	date: string;
+	nutrition: Nutrition;
+	people: Array<{ userId: string; email: string; nutrition: Nutrition }>;
+	// What the target is compared against: the viewer's share in household plans, else the day total.
+	targetNutrition: Nutrition;
+	target: Record<NutrientKey, number | null> | null;
+	targetStatus: Partial<Record<NutrientKey, TargetStatus>>;
+	offTarget: boolean;
+};
 
 type RecipeOption = {
 	id: string;
 	name: string;
+	isOwner: boolean;
+	owner: { id: string; email: string };
+};
+
+type IngredientOption = {
+	id: string;
+	name: string;
+	ownerId: string | null;
+};
+
+type HouseholdMembers = {
+	id: string;
+	members: Array<{ userId: string; email: string }>;
 };
 
-type MealPlanMeal = {
+type MealPlanCell = {
 	date: string;
 	slot: MealSlot;
-	recipeId: string;
-	recipeName: string;
+	items: Array<{
+		id: string;
+		position: number;
+		cookedAt: string | null;
+		type: 'recipe' | 'ingredient';
+		recipeId: string | null;
+		ingredientId: string | null;
+		name: string;
+		servings: number;
+		quantityG: number | null;
+		attendees: Array<Attendee & { email: string }>;
+		cookGroup: string | null;
+		batch: { id: string; cookOn: string; cooked: boolean } | null;
+		leftover: boolean;
+		cookServings: number | null;
+		nutrition: Nutrition;
+	}>;
+	nutrition: Nutrition;
 };
 
 type MealPlanResponse = {
 	id: string | null;
 	weekStart: string;
-	meals: MealPlanMeal[];
+	version: number;
+	cells: MealPlanCell[];
+	days: DayNutrition[];
+	week: Nutrition;
+	// Only returned when saving: meals that conflict with someone's dietary restrictions.
+	dietWarnings?: string[];
+};
+
+type CookResult = {
+	id: string;
+	cookedAt: string;
+	mealIds: string[];
+	deducted: Array<{ ingredientId: string; name: string; quantityG: number }>;
+	missing: Array<{ ingredientId: string; name: string; quantityG: number }>;
+};
+
+type FoodLogStatus = 'EATEN' | 'SKIPPED' | 'SUBSTITUTED';
+type FoodLogEntry = { id: string; plannedMealId: string | null; status: FoodLogStatus };
+type SubstituteFood = { recipeId: string; servings: number } | { ingredientId: string; quantityG: number };
+
+const LOG_STATUS_LABELS: Record<FoodLogStatus, string> = {
+	EATEN: 'Eaten',
+	SKIPPED: 'Skipped',
+	SUBSTITUTED: 'Substituted',
+};
+
+type PlanCopyMode = 'overwrite' | 'merge';
+
+type MealPlanTemplate = {
+	id: string;
+	name: string;
+	createdAt: string;
+	entryCount: number;
+};
+
+type GeneratedPlanPreview = {
+	weekStart: string;
+	seed: number;
+	generated: Array<{ date: string; slot: MealSlot; recipeId: string; name: string; servings: number }>;
+	unfilled: Array<{ date: string; slot: MealSlot }>;
+	meals: SaveMealPlanPayload['meals'];
+	days: Array<Omit<DayNutrition, 'people'>>;
+	score: number;
+};
+
+type CookingBatch = {
+	id: string;
+	recipeId: string;
+	recipeName: string;
+	cookOn: string;
+	remainingServings: number;
+	cookedAt: string | null;
 };
 
 type SaveMealPlanPayload = {
 	weekStart: string;
-	meals: Array<{
-		date: string;
-		slot: MealSlot;
-		recipeId: string;
-	}>;
+	householdId?: string;
+	meals: Array<
+		{ date: string; slot: MealSlot } & (
+			| { recipeId: string; servings: number; attendees?: Attendee[]; cookGroup?: string; batchId?: string }
+			| { ingredientId: string; quantityG: number }
+		)
+	>;
 };
 
 async function fetchRecipes(): Promise<RecipeOption[]> {
-	return apiFetch<RecipeOption[]>('/recipes');
+	// Own recipes plus recipes others shared with this user
+	return apiFetch<RecipeOption[]>('/recipes?scope=all');
 }
 
-async function fetchMealPlan(weekStart: string): Promise<MealPlanResponse> {
-	return apiFetch<MealPlanResponse>(`/meal-plans?weekStart=${encodeURIComponent(weekStart)}`);
+async function fetchIngredients(): Promise<IngredientOption[]> {
+	return apiFetch<IngredientOption[]>('/ingredients');
+}
+
+// Household plans share one slot grid, so slots depend on the selected plan.
+async function fetchHouseholds(): Promise<HouseholdMembers[]> {
+	return apiFetch<HouseholdMembers[]>('/households');
+}
+
+async function fetchMealSlots(householdId: string): Promise<{ customized: boolean; slots: MealSlotConfig[] }> {
+	const query = householdId ? `?householdId=${encodeURIComponent(householdId)}` : '';
+	return apiFetch<{ customized: boolean; slots: MealSlotConfig[] }>(`/meal-slots${query}`);
+}
+
+async function fetchMealPlan(weekStart: string, householdId: string): Promise<MealPlanResponse> {
+	const params = new URLSearchParams({ weekStart });
+	if (householdId) params.set('householdId', householdId);
+	return apiFetch<MealPlanResponse>(`/meal-plans?${params.toString()}`);
 }
 
 async function saveMealPlan(payload: SaveMealPlanPayload): Promise<MealPlanResponse> {
@@ -71,30 +229,126 @@ async function saveMealPlan(payload: SaveMealPlanPayload): Promise<MealPlanRespo
 	});
 }
 
-function parseDateOnly(value: string): Date {
-	const [year, month, day] = value.split('-').map(Number);
-	return new Date(Date.UTC(year, month - 1, day));
+// Returns a preview only; accepting it saves `meals` like any other plan edit.
+async function generatePlan(payload: {
+	weekStart: string;
+	seed: number;
+	maxRepeatsPerWeek: number;
+	householdId?: string;
+}): Promise<GeneratedPlanPreview> {
+	return apiFetch<GeneratedPlanPreview>('/meal-plans/generate', {
+		method: 'POST',
+		body: JSON.stringify(payload),
+	});
 }
 
-function formatDateOnly(date: Date): string {
-	return date.toISOString().slice(0, 10);
+async function copyWeek(payload: {
+	sourceWeekStart: string;
+	targetWeekStart: string;
+	mode: PlanCopyMode;
+	householdId?: string;
+}): Promise<MealPlanResponse> {
+	return apiFetch<MealPlanResponse>('/meal-plans/copy', {
+		method: 'POST',
+		body: JSON.stringify(payload),
+	});
 }
 
-function addDaysUtc(date: Date, days: number): Date {
-	const next = new Date(date);
-	next.setUTCDate(next.getUTCDate() + days);
-	return next;
+async function cookMeal(mealId: string): Promise<CookResult> {
+	return apiFetch<CookResult>(`/meal-plans/meals/${mealId}/cook`, { method: 'POST' });
 }
 
-function startOfWeekMonday(date: Date): Date {
-	const day = date.getUTCDay();
-	const offset = day === 0 ? -6 : 1 - day;
-	return addDaysUtc(date, offset);
+// Batches cooked the week before can still feed this week's meals.
+async function fetchBatches(weekStart: string, householdId: string): Promise<CookingBatch[]> {
+	const start = parseDateOnly(weekStart);
+	const params = new URLSearchParams({
+		from: formatDateOnly(addDaysUtc(start, -7)),
+		to: formatDateOnly(addDaysUtc(start, 6)),
+	});
+	if (householdId) params.set('householdId', householdId);
+	return apiFetch<CookingBatch[]>(`/cooking-batches?${params.toString()}`);
 }
 
-function buildWeekDates(weekStart: string): string[] {
-	const start = parseDateOnly(weekStart);
-	return Array.from({ length: 7 }, (_, idx) => formatDateOnly(addDaysUtc(start, idx)));
+async function fetchWeekLog(weekStart: string): Promise<{ entries: FoodLogEntry[] }> {
+	const to = formatDateOnly(addDaysUtc(parseDateOnly(weekStart), 6));
+	return apiFetch<{ entries: FoodLogEntry[] }>(`/food-log?from=${weekStart}&to=${to}`);
+}
+
+async function logPlannedMeal({
+	mealId,
+	status,
+	substitute,
+}: {
+	mealId: string;
+	status: FoodLogStatus;
+	substitute?: SubstituteFood;
+}): Promise<FoodLogEntry> {
+	return apiFetch<FoodLogEntry>(`/meal-plans/meals/${mealId}/log`, {
+		method: 'POST',
+		body: JSON.stringify({ status, substitute }),
+	});
+}
+
+async function fetchTemplates(): Promise<MealPlanTemplate[]> {
+	return apiFetch<MealPlanTemplate[]>('/meal-plan-templates');
+}
+
+async function createTemplate(payload: {
+	name: string;
+	weekStart: string;
+	householdId?: string;
+}): Promise<MealPlanTemplate> {
+	return apiFetch<MealPlanTemplate>('/meal-plan-templates', {
+		method: 'POST',
+		body: JSON.stringify(payload),
+	});
+}
+
+async function applyTemplate({
+	id,
+	...payload
+}: {
+	id: string;
+	weekStart: string;
+	mode: PlanCopyMode;
+	householdId?: string;
+}): Promise<MealPlanResponse> {
+	return apiFetch<MealPlanResponse>(`/meal-plan-templates/${id}/apply`, {
+		method: 'POST',
+		body: JSON.stringify(payload),
+	});
+}
+
+async function deleteTemplate(id: string): Promise<void> {
+	await apiFetch<void>(`/meal-plan-templates/${id}`, {
+		method: 'DELETE',
+	});
+}
+
+function toPlanItem(item: MealPlanCell['items'][number]): PlanItem | null {
+	const saved = { mealId: item.id, cooked: item.cookedAt !== null };
+	if (item.recipeId) {
+		return {
+			...saved,
+			type: 'recipe',
+			recipeId: item.recipeId,
+			name: item.name,
+			servings: item.servings,
+			attendees: item.attendees.map(({ userId, servings }) => ({ userId, servings })),
+			...(item.cookGroup ? { cookGroup: item.cookGroup } : {}),
+			...(item.batch ? { batchId: item.batch.id, batchCookOn: item.batch.cookOn } : {}),
+		};
+	}
+	if (item.ingredientId && item.quantityG !== null) {
+		return {
+			...saved,
+			type: 'ingredient',
+			ingredientId: item.ingredientId,
+			name: item.name,
+			quantityG: item.quantityG,
+		};
+	}
+	return null;
 }
 
 function createEmptySelection(weekDates: string[]): SelectionState {
@@ -105,43 +359,61 @@ function createEmptySelection(weekDates: string[]): SelectionState {
 	return next;
 }
 
-function formatDisplayDate(date: string): string {
-	return new Intl.DateTimeFormat(undefined, {
-		weekday: 'short',
-		month: 'short',
-		day: 'numeric',
-		timeZone: 'UTC',
-	}).format(parseDateOnly(date));
-}
-
 export default function WeeklyMealPlanPage() {
 	const qc = useQueryClient();
-	const initialWeekStart = useMemo(() => {
-		const today = new Date().toISOString().slice(0, 10);
-		return formatDateOnly(startOfWeekMonday(parseDateOnly(today)));
-	}, []);
+	const initialWeekStart = useMemo(() => currentWeekStart(), []);
 
 	const [weekStart, setWeekStart] = useState(initialWeekStart);
+	// '' is the personal plan, otherwise a household id
+	const [householdId, setHouseholdId] = useState('');
+	const planScope = householdId ? { householdId } : {};
 	const weekDates = useMemo(() => buildWeekDates(weekStart), [weekStart]);
 	const [selections, setSelections] = useState<SelectionState>(() => createEmptySelection(weekDates));
 
 	const recipesQuery = useQuery({
-		queryKey: ['recipes'],
+		queryKey: ['recipes', 'all'],
 		queryFn: fetchRecipes,
 	});
 
+	const ingredientsQuery = useQuery({
+		queryKey: ['ingredients'],
+		queryFn: fetchIngredients,
+	});
+
+	const householdsQuery = useQuery({
+		queryKey: ['households'],
+		queryFn: fetchHouseholds,
+	});
+	const members = useMemo(
+		() => householdsQuery.data?.find((h) => h.id === householdId)?.members ?? [],
+		[householdsQuery.data, householdId]
+	);
+
+	const slotsQuery = useQuery({
+		queryKey: ['meal-slots', householdId],
+		queryFn: () => fetchMealSlots(householdId),
+	});
+
+	const mealSlots = useMemo(
+		() =>
+			(slotsQuery.data?.slots ?? [])
+				.filter((slot) => slot.active)
+				.sort((a, b) => a.sortOrder - b.sortOrder),
+		[slotsQuery.data]
+	);
+
 	const mealPlanQuery = useQuery({
-		queryKey: ['meal-plan', weekStart],
-		queryFn: () => fetchMealPlan(weekStart),
+		queryKey: ['meal-plan', weekStart, householdId],
+		queryFn: () => fetchMealPlan(weekStart, householdId),
 		refetchOnWindowFocus: false,
 	});
 
 	useEffect(() => {
 		if (mealPlanQuery.data) {
 			const next = createEmptySelection(weekDates);
-			for (const meal of mealPlanQuery.data.meals) {
-				if (!next[meal.date]) continue;
-				next[meal.date][meal.slot] = meal.recipeId;
+			for (const cell of mealPlanQuery.data.cells) {
+				if (!next[cell.date]) continue;
+				next[cell.date][cell.slot] = cell.items.flatMap((item) => toPlanItem(item) ?? []);
 			}
 			setSelections(next);
 			return;
@@ -152,10 +424,122 @@ export default function WeeklyMealPlanPage() {
 		}
 	}, [mealPlanQuery.data, mealPlanQuery.isLoading, weekDates]);
 
+	const onPlanSaved = async (data: MealPlanResponse) => {
+		await qc.invalidateQueries({ queryKey: ['meal-plan', data.weekStart] });
+		await qc.invalidateQueries({ queryKey: ['shopping-list', data.weekStart] });
+		await qc.invalidateQueries({ queryKey: ['cooking-batches'] });
+	};
+
 	const saveMutation = useMutation({
 		mutationFn: saveMealPlan,
-		onSuccess: async (data) => {
-			await qc.invalidateQueries({ queryKey: ['meal-plan', data.weekStart] });
+		onSuccess: onPlanSaved,
+	});
+
+	const [copyMode, setCopyMode] = useState<PlanCopyMode>('merge');
+	const [templateId, setTemplateId] = useState('');
+
+	const templatesQuery = useQuery({
+		queryKey: ['meal-plan-templates'],
+		queryFn: fetchTemplates,
+	});
+
+	// Cooking takes the meal's ingredients out of the pantry.
+	const cookMutation = useMutation({
+		mutationFn: cookMeal,
+		onSuccess: async () => {
+			await qc.invalidateQueries({ queryKey: ['meal-plan', weekStart] });
+			await qc.invalidateQueries({ queryKey: ['shopping-list', weekStart] });
+			await qc.invalidateQueries({ queryKey: ['pantry'] });
+		},
+	});
+
+	const batchesQuery = useQuery({
+		queryKey: ['cooking-batches', householdId, weekStart],
+		queryFn: () => fetchBatches(weekStart, householdId),
+	});
+	// Portions still free in each batch, after what this unsaved week already serves from it.
+	const batchRemaining = useMemo(() => {
+		const remaining = new Map((batchesQuery.data ?? []).map((batch) => [batch.id, batch.remainingServings]));
+		const saved = mealPlanQuery.data?.cells.flatMap((cell) => cell.items) ?? [];
+		for (const item of saved) {
+			if (item.batch) remaining.set(item.batch.id, (remaining.get(item.batch.id) ?? 0) + item.servings);
+		}
+		for (const date of weekDates) {
+			for (const slot of mealSlots) {
+				for (const item of selections[date]?.[slot.key] ?? []) {
+					if (item.type === 'recipe' && item.batchId) {
+						remaining.set(item.batchId, (remaining.get(item.batchId) ?? 0) - item.servings);
+					}
+				}
+			}
+		}
+		return remaining;
+	}, [batchesQuery.data, mealPlanQuery.data, selections, weekDates, mealSlots]);
+	const batchOptions = (date: string) =>
+		(batchesQuery.data ?? []).filter((batch) => batch.cookOn <= date && (batchRemaining.get(batch.id) ?? 0) > 0);
+
+	const weekLogQuery = useQuery({
+		queryKey: ['food-log', 'week', weekStart],
+		queryFn: () => fetchWeekLog(weekStart),
+	});
+	const logStatuses = useMemo(
+		() =>
+			new Map(
+				(weekLogQuery.data?.entries ?? []).flatMap((entry) =>
+					entry.plannedMealId ? [[entry.plannedMealId, entry.status] as const] : []
+				)
+			),
+		[weekLogQuery.data]
+	);
+	const [logMenu, setLogMenu] = useState<{ anchor: HTMLElement; mealId: string } | null>(null);
+	const [substituteMealId, setSubstituteMealId] = useState<string | null>(null);
+
+	const logMutation = useMutation({
+		mutationFn: logPlannedMeal,
+		onSuccess: async () => {
+			setSubstituteMealId(null);
+			await qc.invalidateQueries({ queryKey: ['food-log'] });
+		},
+	});
+
+	const logMeal = (status: FoodLogStatus) => {
+		if (!logMenu) return;
+		if (status === 'SUBSTITUTED') {
+			setSubstituteMealId(logMenu.mealId);
+		} else {
+			logMutation.mutate({ mealId: logMenu.mealId, status });
+		}
+		setLogMenu(null);
+	};
+
+	const [seed, setSeed] = useState(1);
+	const [maxRepeats, setMaxRepeats] = useState(2);
+	const generateMutation = useMutation({ mutationFn: generatePlan });
+	const preview = generateMutation.data;
+
+	const acceptPreview = () => {
+		if (!preview) return;
+		saveMutation.mutate(
+			{ weekStart: preview.weekStart, meals: preview.meals, ...planScope },
+			{ onSuccess: () => generateMutation.reset() }
+		);
+	};
+
+	const copyMutation = useMutation({ mutationFn: copyWeek, onSuccess: onPlanSaved });
+	const applyTemplateMutation = useMutation({ mutationFn: applyTemplate, onSuccess: onPlanSaved });
+
+	const createTemplateMutation = useMutation({
+		mutationFn: createTemplate,
+		onSuccess: async () => {
+			await qc.invalidateQueries({ queryKey: ['meal-plan-templates'] });
+		},
+	});
+
+	const deleteTemplateMutation = useMutation({
+		mutationFn: deleteTemplate,
+		onSuccess: async () => {
+			setTemplateId('');
+			await qc.invalidateQueries({ queryKey: ['meal-plan-templates'] });
 		},
 	});
 
@@ -165,24 +549,73 @@ export default function WeeklyMealPlanPage() {
 			const day = selections[date];
 			if (!day) continue;
 			for (const slot of mealSlots) {
-				if (day[slot.key]) count += 1;
+				count += day[slot.key]?.length ?? 0;
 			}
 		}
 		return count;
-	}, [selections, weekDates]);
+	}, [selections, weekDates, mealSlots]);
 
 	const save = () => {
+		const memberIds = new Set(members.map((m) => m.userId));
 		const meals: SaveMealPlanPayload['meals'] = [];
 		for (const date of weekDates) {
 			const day = selections[date] ?? {};
 			for (const slot of mealSlots) {
-				const recipeId = day[slot.key];
-				if (!recipeId) continue;
-				meals.push({ date, slot: slot.key, recipeId });
+				for (const item of day[slot.key] ?? []) {
+					meals.push(
+						item.type === 'recipe'
+							? {
+									date,
+									slot: slot.key,
+									recipeId: item.recipeId,
+									servings: item.servings,
+									// Former members are dropped; the API only accepts current ones.
+									attendees: item.attendees.filter((a) => memberIds.has(a.userId)),
+									...(item.cookGroup ? { cookGroup: item.cookGroup } : {}),
+									...(item.batchId ? { batchId: item.batchId } : {}),
+								}
+							: { date, slot: slot.key, ingredientId: item.ingredientId, quantityG: item.quantityG }
+					);
+				}
 			}
 		}
 
-		saveMutation.mutate({ weekStart, meals });
+		saveMutation.mutate({ weekStart, meals, ...planScope });
+	};
+
+	const confirmOverwrite = () =>
+		copyMode !== 'overwrite' ||
+		selectedCount === 0 ||
+		window.confirm('Replace all meals planned for this week?');
+
+	const copyLastWeek = () => {
+		if (!confirmOverwrite()) return;
+		copyMutation.mutate({
+			sourceWeekStart: formatDateOnly(addDaysUtc(parseDateOnly(weekStart), -7)),
+			targetWeekStart: weekStart,
+			mode: copyMode,
+			...planScope,
+		});
+	};
+
+	const applySelectedTemplate = () => {
+		if (!templateId || !confirmOverwrite()) return;
+		applyTemplateMutation.mutate({ id: templateId, weekStart, mode: copyMode, ...planScope });
+	};
+
+	const saveAsTemplate = () => {
+		const name = window.prompt('Template name')?.trim();
+		if (!name) return;
+		createTemplateMutation.mutate({ name, weekStart, ...planScope });
+	};
+
+	const onDeleteTemplate = () => {
+		const template = templatesQuery.data?.find((t) => t.id === templateId);
+		if (!template) return;
+		const confirmDelete = window.confirm(`Delete template "${template.name}"?`);
+		if (!confirmDelete) return;
+
+		deleteTemplateMutation.mutate(template.id);
 	};
 
 	const clearWeek = () => {
@@ -191,28 +624,145 @@ export default function WeeklyMealPlanPage() {
 
 	const onAnyDayChange = (value: string) => {
 		if (!value) return;
-		const selected = parseDateOnly(value);
-		setWeekStart(formatDateOnly(startOfWeekMonday(selected)));
+		setWeekStart(weekStartOf(value));
 	};
 
-	const setSlotRecipe = (date: string, slot: MealSlot, recipeId: string) => {
-		setSelections((prev) => {
-			const day = { ...(prev[date] ?? {}) };
-			if (recipeId) {
-				day[slot] = recipeId;
-			} else {
-				delete day[slot];
-			}
-			return { ...prev, [date]: day };
-		});
+	const updateSlotItems = (date: string, slot: MealSlot, update: (items: PlanItem[]) => PlanItem[]) => {
+		setSelections((prev) => ({
+			...prev,
+			[date]: { ...(prev[date] ?? {}), [slot]: update(prev[date]?.[slot] ?? []) },
+		}));
+	};
+
+	const addSlotItem = (date: string, slot: MealSlot, value: string) => {
+		const [type, id] = value.split(':');
+		if (type === 'recipe') {
+			const recipe = recipesQuery.data?.find((r) => r.id === id);
+			if (!recipe) return;
+			updateSlotItems(date, slot, (items) => [
+				...items,
+				{ type: 'recipe', recipeId: recipe.id, name: recipe.name, servings: 1, attendees: [] },
+			]);
+		} else if (type === 'batch') {
+			const batch = batchesQuery.data?.find((b) => b.id === id);
+			if (!batch) return;
+			updateSlotItems(date, slot, (items) => [
+				...items,
+				{
+					type: 'recipe',
+					recipeId: batch.recipeId,
+					name: batch.recipeName,
+					servings: 1,
+					attendees: [],
+					batchId: batch.id,
+					batchCookOn: batch.cookOn,
+				},
+			]);
+		} else if (type === 'ingredient') {
+			const ingredient = ingredientsQuery.data?.find((i) => i.id === id);
+			if (!ingredient) return;
+			updateSlotItems(date, slot, (items) => [
+				...items,
+				{ type: 'ingredient', ingredientId: ingredient.id, name: ingredient.name, quantityG: 100 },
+			]);
+		}
+	};
+
+	const updateSlotItem = (date: string, slot: MealSlot, idx: number, patch: Partial<PlanItem>) => {
+		updateSlotItems(date, slot, (items) =>
+			items.map((item, i) => (i === idx ? ({ ...item, ...patch } as PlanItem) : item))
+		);
+	};
+
+	const setAttendeeServings = (date: string, slot: MealSlot, idx: number, userId: string, servings: number) => {
+		updateSlotItems(date, slot, (items) =>
+			items.map((item, i) => {
+				if (i !== idx || item.type !== 'recipe') return item;
+				const others = item.attendees.filter((a) => a.userId !== userId);
+				const attendees = servings > 0 ? [...others, { userId, servings }] : others;
+				return {
+					...item,
+					attendees,
+					servings: attendees.length > 0 ? attendees.reduce((total, a) => total + a.servings, 0) : item.servings,
+				};
+			})
+		);
 	};
 
-	const isLoading = recipesQuery.isLoading || mealPlanQuery.isLoading;
+	const removeSlotItem = (date: string, slot: MealSlot, idx: number) => {
+		updateSlotItems(date, slot, (items) => items.filter((_, i) => i !== idx));
+	};
+
+	// Cells after the source meal in week order, where its leftovers can be eaten.
+	const [leftoverSource, setLeftoverSource] = useState<(CellRef & { idx: number }) | null>(null);
+	const leftoverCells = useMemo(() => {
+		if (!leftoverSource) return [];
+		const cells = weekDates.flatMap((date) => mealSlots.map((slot) => ({ date, slot: slot.key })));
+		const sourceIdx = cells.findIndex((cell) => cell.date === leftoverSource.date && cell.slot === leftoverSource.slot);
+		return cells.slice(sourceIdx + 1);
+	}, [leftoverSource, weekDates, mealSlots]);
+
+	const addLeftovers = (target: CellRef, servings: number) => {
+		if (!leftoverSource) return;
+		const source = selections[leftoverSource.date]?.[leftoverSource.slot]?.[leftoverSource.idx];
+		if (!source || source.type !== 'recipe') return;
+		const cookGroup = source.cookGroup ?? crypto.randomUUID();
+		if (!source.cookGroup) {
+			updateSlotItem(leftoverSource.date, leftoverSource.slot, leftoverSource.idx, { cookGroup });
+		}
+		updateSlotItems(target.date, target.slot, (items) => [
+			...items,
+			{ type: 'recipe', recipeId: source.recipeId, name: source.name, servings, attendees: [], cookGroup },
+		]);
+		setLeftoverSource(null);
+	};
+
+	// The earliest entry of a cook group cooks the servings of all its entries.
+	const cookRoles = useMemo(() => {
+		const totals = new Map<string, number>();
+		const entries: Array<{ key: string; cookGroup: string }> = [];
+		for (const date of weekDates) {
+			for (const slot of mealSlots) {
+				(selections[date]?.[slot.key] ?? []).forEach((item, idx) => {
+					if (item.type !== 'recipe' || !item.cookGroup) return;
+					totals.set(item.cookGroup, (totals.get(item.cookGroup) ?? 0) + item.servings);
+					entries.push({ key: `${date}:${slot.key}:${idx}`, cookGroup: item.cookGroup });
+				});
+			}
+		}
+		const roles = new Map<string, CookRole>();
+		const seen = new Set<string>();
+		for (const entry of entries) {
+			roles.set(entry.key, { leftover: seen.has(entry.cookGroup), cookServings: totals.get(entry.cookGroup) ?? 0 });
+			seen.add(entry.cookGroup);
+		}
+		return roles;
+	}, [selections, weekDates, mealSlots]);
+	const cookRoleOf = (date: string, slot: MealSlot, idx: number) => cookRoles.get(`${date}:${slot}:${idx}`);
+
+	// Private ingredients cannot go into household plans, where other members would see them.
+	const ingredientOptions = (ingredientsQuery.data ?? []).filter(
+		(ingredient) => !householdId || ingredient.ownerId === null
+	);
+
+	const shoppingListParams = new URLSearchParams(householdId ? { weekStart, householdId } : { weekStart });
+
+	const dayTotals = useMemo(
+		() => new Map((mealPlanQuery.data?.days ?? []).map((day) => [day.date, day])),
+		[mealPlanQuery.data]
+	);
+
+	const isLoading =
+		recipesQuery.isLoading || ingredientsQuery.isLoading || mealPlanQuery.isLoading || slotsQuery.isLoading;
 
 	if (recipesQuery.error) {
 		return <Alert severity="error">{String(recipesQuery.error)}</Alert>;
 	}
 
+	if (slotsQuery.error) {
+		return <Alert severity="error">{String(slotsQuery.error)}</Alert>;
+	}
+
 	if (mealPlanQuery.error) {
 		return <Alert severity="error">{String(mealPlanQuery.error)}</Alert>;
 	}
@@ -221,7 +771,10 @@ export default function WeeklyMealPlanPage() {
 		<Stack spacing={2}>
 			<Typography variant="h5">Weekly Meal Planner</Typography>
 			<Typography variant="body2" color="text.secondary">
-				Select recipes manually for each day. Slots are optional and can be left empty.
+				Add one or more recipes or ingredients to each slot. Slots are optional and can be left empty.{' '}
+				<Link component={RouterLink} to="/meal-slots">
+					Customize slots
+				</Link>
 			</Typography>
 
 			<Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} alignItems={{ sm: 'center' }}>
@@ -233,6 +786,7 @@ export default function WeeklyMealPlanPage() {
 					slotProps={{ inputLabel: { shrink: true } }}
 					sx={{ width: 220 }}
 				/>
+				<PlanScopeSelect value={householdId} onChange={setHouseholdId} />
 
 				<Typography variant="body2" color="text.secondary">
 					Week: {formatDisplayDate(weekDates[0])} - {formatDisplayDate(weekDates[6])}
@@ -240,10 +794,132 @@ export default function WeeklyMealPlanPage() {
 				<Typography variant="body2" color="text.secondary">
 					Selected meals: {selectedCount}
 				</Typography>
+				{mealPlanQuery.data ? (
+					<Typography variant="body2" color="text.secondary">
+						Week total: {formatNutrition(mealPlanQuery.data.week)}
+					</Typography>
+				) : null}
 			</Stack>
 
+			<Card variant="outlined">
+				<CardContent>
+					<Stack direction={{ xs: 'column', md: 'row' }} spacing={2} alignItems={{ md: 'center' }}>
+						<FormControl size="small" sx={{ minWidth: 160 }}>
+							<InputLabel id="copy-mode-label">When copying</InputLabel>
+							<Select
+								labelId="copy-mode-label"
+								label="When copying"
+								value={copyMode}
+								onChange={(e) => setCopyMode(e.target.value as PlanCopyMode)}
+							>
+								<MenuItem value="merge">Fill empty slots</MenuItem>
+								<MenuItem value="overwrite">Replace week</MenuItem>
+							</Select>
+						</FormControl>
+						<Button variant="outlined" onClick={copyLastWeek} disabled={copyMutation.isPending || isLoading}>
+							{copyMutation.isPending ? 'Copying...' : 'Copy last week'}
+						</Button>
+						<FormControl size="small" sx={{ minWidth: 200 }}>
+							<InputLabel id="template-select-label">Template</InputLabel>
+							<Select
+								labelId="template-select-label"
+								label="Template"
+								value={templateId}
+								onChange={(e) => setTemplateId(String(e.target.value))}
+							>
+								{(templatesQuery.data ?? []).map((template) => (
+									<MenuItem key={template.id} value={template.id}>
+										{template.name} ({template.entryCount})
+									</MenuItem>
+								))}
+							</Select>
+						</FormControl>
+						<Button
+							variant="outlined"
+							onClick={applySelectedTemplate}
+							disabled={!templateId || applyTemplateMutation.isPending || isLoading}
+						>
+							Apply template
+						</Button>
+						<Button
+							color="error"
+							onClick={onDeleteTemplate}
+							disabled={!templateId || deleteTemplateMutation.isPending}
+						>
+							Delete template
+						</Button>
+						<Button onClick={saveAsTemplate} disabled={createTemplateMutation.isPending || !mealPlanQuery.data?.id}>
+							Save week as template
+						</Button>
+					</Stack>
+				</CardContent>
+			</Card>
+
+			<Card variant="outlined">
+				<CardContent>
+					<Stack direction={{ xs: 'column', md: 'row' }} spacing={2} alignItems={{ md: 'center' }}>
+						<TextField
+							label="Seed"
+							type="number"
+							size="small"
+							value={seed}
+							onChange={(e) => setSeed(Math.max(0, Math.trunc(Number(e.target.value))))}
+							slotProps={{ htmlInput: { min: 0 } }}
+							sx={{ width: 110 }}
+						/>
+						<TextField
+							label="Max repeats per week"
+							type="number"
+							size="small"
+							value={maxRepeats}
+							onChange={(e) => setMaxRepeats(Math.max(1, Math.trunc(Number(e.target.value))))}
+							slotProps={{ htmlInput: { min: 1, max: 21 } }}
+							sx={{ width: 180 }}
+						/>
+						<Button
+							variant="outlined"
+							onClick={() => generateMutation.mutate({ weekStart, seed, maxRepeatsPerWeek: maxRepeats, ...planScope })}
+							disabled={generateMutation.isPending || isLoading}
+						>
+							{generateMutation.isPending ? 'Generating...' : 'Generate plan'}
+						</Button>
+						<Typography variant="body2" color="text.secondary">
+							Fills the empty slots of the saved plan from your recipes to approach your daily targets. The same seed
+							gives the same suggestion.
+						</Typography>
+					</Stack>
+				</CardContent>
+			</Card>
+
+			{generateMutation.isError && <Alert severity="error">{String(generateMutation.error)}</Alert>}
+			{[copyMutation, applyTemplateMutation, createTemplateMutation, deleteTemplateMutation].map((mutation, idx) =>
+				mutation.isError ? (
+					<Alert key={idx} severity="error">
+						{mutation.error instanceof ApiError && mutation.error.status === 409
+							? 'A template with this name already exists.'
+							: String(mutation.error)}
+					</Alert>
+				) : null
+			)}
+			{createTemplateMutation.isSuccess && <Alert severity="success">Template saved.</Alert>}
+
+			{cookMutation.isError && <Alert severity="error">{String(cookMutation.error)}</Alert>}
+			{logMutation.isError && <Alert severity="error">{String(logMutation.error)}</Alert>}
+			{cookMutation.isSuccess && cookMutation.data.missing.length > 0 ? (
+				<Alert severity="warning">
+					Marked as cooked. Not in your pantry:{' '}
+					{cookMutation.data.missing.map((line) => `${line.name} (${line.quantityG} g)`).join(', ')}
+				</Alert>
+			) : null}
 			{saveMutation.isError && <Alert severity="error">{String(saveMutation.error)}</Alert>}
 			{saveMutation.isSuccess && <Alert severity="success">Meal plan saved.</Alert>}
+			{[saveMutation, copyMutation, applyTemplateMutation].map((mutation, idx) =>
+				mutation.isSuccess && mutation.data.dietWarnings?.length ? (
+					<Alert key={idx} severity="warning">
+						Some meals conflict with dietary restrictions: {mutation.data.dietWarnings.join('; ')}
+					</Alert>
+				) : null
+			)}
 			{!recipesQuery.data?.length && (
 				<Alert severity="info">No recipes found. Create recipes first, then assign them to slots.</Alert>
 			)}
@@ -260,26 +936,181 @@ export default function WeeklyMealPlanPage() {
 								<CardContent>
 									<Stack spacing={1.5}>
 										<Typography variant="subtitle1">{formatDisplayDate(date)}</Typography>
-										{mealSlots.map((slot) => (
-											<FormControl key={slot.key} fullWidth size="small">
-												<InputLabel id={`${date}-${slot.key}-label`}>{slot.label}</InputLabel>
-												<Select
-													labelId={`${date}-${slot.key}-label`}
-													label={slot.label}
-													value={selections[date]?.[slot.key] ?? ''}
-													onChange={(e) => setSlotRecipe(date, slot.key, String(e.target.value))}
-												>
-													<MenuItem value="">
-														<em>None</em>
-													</MenuItem>
-													{(recipesQuery.data ?? []).map((recipe) => (
-														<MenuItem key={recipe.id} value={recipe.id}>
-															{recipe.name}
-														</MenuItem>
+										{mealSlots.map((slot) => {
+											const items = selections[date]?.[slot.key] ?? [];
+											return (
+												<Stack key={slot.key} spacing={0.5}>
+													<Typography variant="body2" color="text.secondary">
+														{slot.label}
+													</Typography>
+													{items.map((item, idx) => (
+														<Stack key={idx} spacing={0.5}>
+															<Stack direction="row" spacing={1} alignItems="center">
+																<Chip
+																	size="small"
+																	variant="outlined"
+																	color={item.type === 'recipe' ? 'primary' : 'default'}
+																	label={item.name}
+																	onDelete={() => removeSlotItem(date, slot.key, idx)}
+																	sx={{ maxWidth: 200 }}
+																/>
+																{item.type === 'recipe' && item.batchCookOn ? (
+																	<Chip
+																		size="small"
+																		component={RouterLink}
+																		to="/batches"
+																		clickable
+																		label={`Batch ${formatDisplayDate(item.batchCookOn)}`}
+																		title="Served from a cooking batch"
+																	/>
+																) : item.type === 'recipe' ? (
+																	<CookRoleChip role={cookRoleOf(date, slot.key, idx)} recipeId={item.recipeId} />
+																) : null}
+																{item.type === 'recipe' && householdId && item.attendees.length > 0 ? (
+																	<Typography variant="body2" sx={{ minWidth: 40, textAlign: 'center' }}>
+																		{item.servings}x
+																	</Typography>
+																) : item.type === 'recipe' ? (
+																	<ServingStepper
+																		value={item.servings}
+																		onChange={(servings) => updateSlotItem(date, slot.key, idx, { servings })}
+																	/>
+																) : (
+																	<TextField
+																		size="small"
+																		type="number"
+																		value={item.quantityG}
+																		onChange={(e) =>
+																			updateSlotItem(date, slot.key, idx, {
+																				quantityG: Math.max(1, Number(e.target.value)),
+																			})
+																		}
+																		slotProps={{ htmlInput: { min: 1, 'aria-label': `${item.name} grams` } }}
+																		sx={{ width: 90 }}
+																	/>
+																)}
+																{item.cooked ? (
+																	<CheckCircleIcon fontSize="small" color="success" titleAccess="Cooked" />
+																) : item.mealId &&
+																  !(item.type === 'recipe' && item.batchId) &&
+																  !cookRoleOf(date, slot.key, idx)?.leftover ? (
+																	<IconButton
+																		size="small"
+																		aria-label={`Mark ${item.name} as cooked`}
+																		title="Mark as cooked"
+																		onClick={() => item.mealId && cookMutation.mutate(item.mealId)}
+																		disabled={cookMutation.isPending}
+																	>
+																		<RestaurantMenuIcon fontSize="small" />
+																	</IconButton>
+																) : null}
+																{item.type === 'recipe' &&
+																!item.cooked &&
+																!item.batchId &&
+																!cookRoleOf(date, slot.key, idx)?.leftover ? (
+																	<IconButton
+																		size="small"
+																		aria-label={`Plan leftovers of ${item.name}`}
+																		title="Cook once, eat leftovers later"
+																		onClick={() => setLeftoverSource({ date, slot: slot.key, idx })}
+																	>
+																		<EventRepeatIcon fontSize="small" />
+																	</IconButton>
+																) : null}
+																{item.mealId ? (
+																	<IconButton
+																		size="small"
+																		aria-label={`Log ${item.name} in food diary`}
+																		title="Log in food diary"
+																		onClick={(e) =>
+																			item.mealId && setLogMenu({ anchor: e.currentTarget, mealId: item.mealId })
+																		}
+																	>
+																		<PlaylistAddCheckIcon fontSize="small" />
+																	</IconButton>
+																) : null}
+																{item.mealId && logStatuses.has(item.mealId) ? (
+																	<Typography variant="caption" color="text.secondary">
+																		{LOG_STATUS_LABELS[logStatuses.get(item.mealId)!]}
+																	</Typography>
+																) : null}
+															</Stack>
+															{item.type === 'recipe' && householdId
+																? members.map((member) => (
+																		<Stack
+																			key={member.userId}
+																			direction="row"
+																			spacing={1}
+																			alignItems="center"
+																			sx={{ pl: 2 }}
+																		>
+																			<Typography variant="caption" color="text.secondary" noWrap sx={{ flexGrow: 1 }}>
+																				{member.email}
+																			</Typography>
+																			<ServingStepper
+																				min={0}
+																				value={item.attendees.find((a) => a.userId === member.userId)?.servings ?? 0}
+																				onChange={(servings) =>
+																					setAttendeeServings(date, slot.key, idx, member.userId, servings)
+																				}
+																			/>
+																		</Stack>
+																	))
+																: null}
+														</Stack>
 													))}
-												</Select>
-											</FormControl>
-										))}
+													<FormControl fullWidth size="small">
+														<InputLabel id={`${date}-${slot.key}-label`}>Add to {slot.label}</InputLabel>
+														<Select
+															labelId={`${date}-${slot.key}-label`}
+															label={`Add to ${slot.label}`}
+															value=""
+															disabled={items.length >= MAX_ENTRIES_PER_SLOT}
+															onChange={(e) => addSlotItem(date, slot.key, String(e.target.value))}
+														>
+															<ListSubheader>Recipes</ListSubheader>
+															{(recipesQuery.data ?? []).map((recipe) => (
+																<MenuItem key={recipe.id} value={`recipe:${recipe.id}`}>
+																	{recipe.name}
+																	{recipe.isOwner ? '' : ` (shared by ${recipe.owner.email})`}
+																</MenuItem>
+															))}
+															{batchOptions(date).length > 0 ? <ListSubheader>Batches</ListSubheader> : null}
+															{batchOptions(date).map((batch) => (
+																<MenuItem key={batch.id} value={`batch:${batch.id}`}>
+																	{batch.recipeName} (batch of {formatDisplayDate(batch.cookOn)},{' '}
+																	{batchRemaining.get(batch.id)} left)
+																</MenuItem>
+															))}
+															<ListSubheader>Ingredients</ListSubheader>
+															{ingredientOptions.map((ingredient) => (
+																<MenuItem key={ingredient.id} value={`ingredient:${ingredient.id}`}>
+																	{ingredient.name}
+																</MenuItem>
+															))}
+														</Select>
+													</FormControl>
+												</Stack>
+											);
+										})}
+										<Typography variant="caption" color="text.secondary">
+											Day total: {formatNutrition(dayTotals.get(date)?.nutrition)}
+										</Typography>
+										{householdId
+											? dayTotals.get(date)?.people.map((person) => (
+													<Typography key={person.userId} variant="caption" color="text.secondary">
+														{person.email}: {formatNutrition(person.nutrition)}
+													</Typography>
+												))
+											: null}
+										{dayTotals.get(date)?.offTarget ? (
+											<Alert severity="warning" sx={{ py: 0 }}>
+												{formatTargetWarning({
+													...dayTotals.get(date)!,
+													nutrition: dayTotals.get(date)!.targetNutrition,
+												})}
+											</Alert>
+										) : null}
 									</Stack>
 								</CardContent>
 							</Card>
@@ -289,6 +1120,9 @@ export default function WeeklyMealPlanPage() {
 			)}
 
 			<Stack direction="row" spacing={2} justifyContent="flex-end">
+				<Button component={RouterLink} to={`/shopping-list?${shoppingListParams.toString()}`}>
+					Shopping list
+				</Button>
 				<Button variant="outlined" onClick={clearWeek} disabled={saveMutation.isPending || isLoading}>
 					Clear week
 				</Button>
@@ -296,6 +1130,293 @@ export default function WeeklyMealPlanPage() {
 					{saveMutation.isPending ? 'Saving...' : 'Save plan'}
 				</Button>
 			</Stack>
+
+			<Menu anchorEl={logMenu?.anchor} open={Boolean(logMenu)} onClose={() => setLogMenu(null)}>
+				{(Object.keys(LOG_STATUS_LABELS) as FoodLogStatus[]).map((status) => (
+					<MenuItem key={status} onClick={() => logMeal(status)} disabled={logMutation.isPending}>
+						{status === 'SUBSTITUTED' ? 'Substituted...' : LOG_STATUS_LABELS[status]}
+					</MenuItem>
+				))}
+			</Menu>
+			<GeneratedPlanDialog
+				preview={preview}
+				slots={mealSlots}
+				pending={saveMutation.isPending}
+				onAccept={acceptPreview}
+				onReject={() => generateMutation.reset()}
+			/>
+			<LeftoversDialog
+				key={leftoverSource ? `${leftoverSource.date}:${leftoverSource.slot}:${leftoverSource.idx}` : 'closed'}
+				open={leftoverSource !== null}
+				cells={leftoverCells}
+				slots={mealSlots}
+				onClose={() => setLeftoverSource(null)}
+				onAdd={addLeftovers}
+			/>
+			<SubstituteDialog
+				open={substituteMealId !== null}
+				recipes={recipesQuery.data ?? []}
+				ingredients={ingredientsQuery.data ?? []}
+				pending={logMutation.isPending}
+				onClose={() => setSubstituteMealId(null)}
+				onSubmit={(substitute) =>
+					substituteMealId && logMutation.mutate({ mealId: substituteMealId, status: 'SUBSTITUTED', substitute })
+				}
+			/>
+		</Stack>
+	);
+}
+
+function SubstituteDialog({
+	open,
+	recipes,
+	ingredients,
+	pending,
+	onClose,
+	onSubmit,
+}: {
+	open: boolean;
+	recipes: RecipeOption[];
+	ingredients: IngredientOption[];
+	pending: boolean;
+	onClose: () => void;
+	onSubmit: (substitute: SubstituteFood) => void;
+}) {
+	const [food, setFood] = useState('');
+	const [amount, setAmount] = useState(1);
+	const [type, id] = food.split(':');
+	const isRecipe = type === 'recipe';
+
+	const selectFood = (value: string) => {
+		setFood(value);
+		setAmount(value.startsWith('recipe:') ? 1 : 100);
+	};
+
+	return (
+		<Dialog open={open} onClose={onClose} fullWidth maxWidth="xs">
+			<DialogTitle>What did you eat instead?</DialogTitle>
+			<DialogContent>
+				<Stack spacing={2} sx={{ pt: 1 }}>
+					<FormControl fullWidth size="small">
+						<InputLabel id="substitute-food-label">Food</InputLabel>
+						<Select
+							labelId="substitute-food-label"
+							label="Food"
+							value={food}
+							onChange={(e) => selectFood(e.target.value)}
+						>
+							<ListSubheader>Recipes</ListSubheader>
+							{recipes.map((recipe) => (
+								<MenuItem key={recipe.id} value={`recipe:${recipe.id}`}>
+									{recipe.name}
+								</MenuItem>
+							))}
+							<ListSubheader>Ingredients</ListSubheader>
+							{ingredients.map((ingredient) => (
+								<MenuItem key={ingredient.id} value={`ingredient:${ingredient.id}`}>
+									{ingredient.name}
+								</MenuItem>
+							))}
+						</Select>
+					</FormControl>
+					<TextField
+						label={isRecipe ? 'Servings' : 'Grams'}
+						type="number"
+						size="small"
+						value={amount}
+						onChange={(e) => setAmount(Number(e.target.value))}
+						slotProps={{ htmlInput: { min: isRecipe ? SERVING_STEP : 1, step: isRecipe ? SERVING_STEP : 1 } }}
+					/>
+				</Stack>
+			</DialogContent>
+			<DialogActions>
+				<Button onClick={onClose}>Cancel</Button>
+				<Button
+					variant="contained"
+					disabled={!id || !(amount > 0) || pending}
+					onClick={() =>
+						id && onSubmit(isRecipe ? { recipeId: id, servings: amount } : { ingredientId: id, quantityG: amount })
+					}
+				>
+					Log substitute
+				</Button>
+			</DialogActions>
+		</Dialog>
+	);
+}
+
+function CookRoleChip({ role, recipeId }: { role: CookRole | undefined; recipeId: string }) {
+	if (!role) return null;
+	if (role.leftover) return <Chip size="small" label="Leftovers" />;
+	return (
+		<Chip
+			size="small"
+			clickable
+			component={RouterLink}
+			to={`/recipes/${recipeId}?servings=${role.cookServings}`}
+			label={`Cook ${role.cookServings}`}
+			title="Open the recipe scaled to every serving of this cook"
+		/>
+	);
+}
+
+function LeftoversDialog({
+	open,
+	cells,
+	slots,
+	onClose,
+	onAdd,
+}: {
+	open: boolean;
+	cells: CellRef[];
+	slots: MealSlotConfig[];
+	onClose: () => void;
+	onAdd: (cell: CellRef, servings: number) => void;
+}) {
+	const [cellKey, setCellKey] = useState('');
+	const [servings, setServings] = useState(1);
+	const cell = cells.find((c) => `${c.date}:${c.slot}` === cellKey);
+	const slotLabel = (key: MealSlot) => slots.find((slot) => slot.key === key)?.label ?? key;
+
+	return (
+		<Dialog open={open} onClose={onClose} fullWidth maxWidth="xs">
+			<DialogTitle>Eat leftovers later</DialogTitle>
+			<DialogContent>
+				<Stack spacing={2} sx={{ pt: 1 }}>
+					<Typography variant="body2" color="text.secondary">
+						The meal is cooked once for all its servings, including the leftovers.
+					</Typography>
+					<FormControl fullWidth size="small">
+						<InputLabel id="leftovers-cell-label">Eat on</InputLabel>
+						<Select
+							labelId="leftovers-cell-label"
+							label="Eat on"
+							value={cellKey}
+							onChange={(e) => setCellKey(e.target.value)}
+						>
+							{cells.map((c) => (
+								<MenuItem key={`${c.date}:${c.slot}`} value={`${c.date}:${c.slot}`}>
+									{formatDisplayDate(c.date)} - {slotLabel(c.slot)}
+								</MenuItem>
+							))}
+						</Select>
+					</FormControl>
+					<Stack direction="row" spacing={1} alignItems="center">
+						<Typography variant="body2">Servings</Typography>
+						<ServingStepper value={servings} onChange={setServings} />
+					</Stack>
+				</Stack>
+			</DialogContent>
+			<DialogActions>
+				<Button onClick={onClose}>Cancel</Button>
+				<Button variant="contained" disabled={!cell} onClick={() => cell && onAdd(cell, servings)}>
+					Add leftovers
+				</Button>
+			</DialogActions>
+		</Dialog>
+	);
+}
+
+function GeneratedPlanDialog({
+	preview,
+	slots,
+	pending,
+	onAccept,
+	onReject,
+}: {
+	preview: GeneratedPlanPreview | undefined;
+	slots: MealSlotConfig[];
+	pending: boolean;
+	onAccept: () => void;
+	onReject: () => void;
+}) {
+	const slotLabel = (key: MealSlot) => slots.find((slot) => slot.key === key)?.label ?? key;
+
+	return (
+		<Dialog open={Boolean(preview)} onClose={onReject} fullWidth maxWidth="md">
+			<DialogTitle>Suggested meals</DialogTitle>
+			<DialogContent>
+				{preview ? (
+					<Stack spacing={2} sx={{ pt: 1 }}>
+						{preview.generated.length === 0 ? (
+							<Alert severity="info">No empty slot could be filled with your recipes.</Alert>
+						) : null}
+						{preview.days.map((day) => {
+							const meals = preview.generated.filter((meal) => meal.date === day.date);
+							const unfilled = preview.unfilled.filter((cell) => cell.date === day.date);
+							return (
+								<Box key={day.date}>
+									<Typography variant="subtitle2">{formatDisplayDate(day.date)}</Typography>
+									{meals.map((meal) => (
+										<Typography key={meal.slot} variant="body2">
+											{slotLabel(meal.slot)}: {meal.name} x {meal.servings}
+										</Typography>
+									))}
+									{unfilled.length > 0 ? (
+										<Typography variant="body2" color="text.secondary">
+											No suitable recipe for: {unfilled.map((cell) => slotLabel(cell.slot)).join(', ')}
+										</Typography>
+									) : null}
+									<Typography variant="body2" color={day.offTarget ? 'warning.main' : 'text.secondary'}>
+										{day.offTarget ? formatTargetWarning(day) : `Day total: ${formatNutrition(day.nutrition)}`}
+									</Typography>
+								</Box>
+							);
+						})}
+					</Stack>
+				) : null}
+			</DialogContent>
+			<DialogActions>
+				<Button onClick={onReject}>Reject</Button>
+				<Button variant="contained" onClick={onAccept} disabled={!preview || preview.generated.length === 0 || pending}>
+					{pending ? 'Saving...' : 'Accept and save'}
+				</Button>
+			</DialogActions>
+		</Dialog>
+	);
+}
+
+function formatNutrition(n: Nutrition | undefined): string {
+	if (!n) return '-';
+	return `${k(n.kcal)} kcal - P ${k(n.protein)} - C ${k(n.carbs)} - F ${k(n.fat)}`;
+}
+
+function k(n: number) {
+	return Math.round(n * 10) / 10;
+}
+
+function formatTargetWarning(day: Pick<DayNutrition, 'nutrition' | 'target' | 'targetStatus'>): string {
+	const parts = (Object.keys(day.targetStatus) as NutrientKey[])
+		.filter((key) => day.targetStatus[key] !== 'ok')
+		.map((key) => `${key} ${day.targetStatus[key]} (${k(day.nutrition[key])} / ${day.target?.[key]})`);
+	return `Off target: ${parts.join(', ')}`;
+}
+
+function ServingStepper({
+	value,
+	onChange,
+	min = SERVING_STEP,
+}: {
+	value: number;
+	onChange: (servings: number) => void;
+	min?: number;
+}) {
+	return (
+		<Stack direction="row" alignItems="center" sx={{ flexShrink: 0 }}>
+			<IconButton
+				size="small"
+				aria-label="Fewer servings"
+				onClick={() => onChange(value - SERVING_STEP)}
+				disabled={value - SERVING_STEP < min}
+			>
+				<RemoveIcon fontSize="small" />
+			</IconButton>
+			<Typography variant="body2" sx={{ minWidth: 40, textAlign: 'center' }}>
+				{value}x
+			</Typography>
+			<IconButton size="small" aria-label="More servings" onClick={() => onChange(value + SERVING_STEP)}>
+				<AddIcon fontSize="small" />
+			</IconButton>
 		</Stack>
 	);
 }